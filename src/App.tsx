@@ -1,25 +1,66 @@
-import { useState, useEffect, useCallback } from 'react';
-import GraphCanvas from './components/GraphCanvas';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import GraphCanvas, { LayoutTransition } from './components/GraphCanvas';
+import DualCanvasView from './components/DualCanvasView';
+import RecursionTreePanel from './components/RecursionTreePanel';
+import AllPairsPanel from './components/AllPairsPanel';
 import ControlPanel from './components/ControlPanel';
 import ComparisonPanel from './components/ComparisonPanel';
 import InfoPanel from './components/InfoPanel';
 import GraphSelector from './components/GraphSelector';
-import { GraphClass, createExampleGraph } from './algorithms/Graph';
+import { GraphClass, UnsupportedGraphError, createExampleGraph, applyGraphEdit, findNegativeEdge } from './algorithms/Graph';
+import { ALGORITHMS, REFERENCE_ALGORITHM, getAlgorithm, isAlgorithmType } from './algorithms/AlgorithmRegistry';
 import { dijkstra } from './algorithms/Dijkstra';
-import { NewSSSP } from './algorithms/NewSSSP';
-import { AlgorithmResult, AlgorithmType } from './algorithms/types';
+import { AlgorithmResult, AlgorithmStatistics, AlgorithmType, GraphEdit, PriorityQueueType, RunOptions, StepRecording, VisualizationState } from './algorithms/types';
+import { PRIORITY_QUEUES } from './algorithms/PriorityQueue';
+import { HeapInvariantError } from './algorithms/MinHeap';
+import { LayoutType, applyLayout, computeLayout, nodePositions } from './algorithms/Layout';
+import { recommendedRunOptions } from './algorithms/StepRecorder';
+import { VerificationReport, getFlaggedNodes, verifyPointToPoint, verifyResult } from './algorithms/Verification';
+import { MAX_HASH_LENGTH, SharedState, decodeSharedState, encodeSharedGraph, encodeSharedState } from './utils/urlState';
+
+function resolveRunOptions(
+    choice: StepRecording | 'auto',
+    nodeCount: number,
+    priorityQueue: PriorityQueueType,
+    checkHeapInvariants: boolean = false
+): RunOptions {
+    return { ...recommendedRunOptions(nodeCount, choice === 'auto' ? undefined : choice), priorityQueue, checkHeapInvariants };
+}
 
 function App() {
+    // State restored from a shared link, if any
+    const [initialLink] = useState(() => decodeSharedState(window.location.hash));
+    const [linkWarning, setLinkWarning] = useState<string | null>(initialLink.warning);
+    const [linkTooLarge, setLinkTooLarge] = useState(false);
+
     // Graph state
-    const [graph, setGraph] = useState<GraphClass>(() => createExampleGraph());
-    const [source, setSource] = useState(0);
-    const [destination, setDestination] = useState(9);
+    const [graph, setGraph] = useState<GraphClass>(() => initialLink.state?.graph ?? createExampleGraph());
+    const [source, setSource] = useState(initialLink.state?.source ?? 0);
+    const [destination, setDestination] = useState(initialLink.state?.destination ?? 9);
+    const [layoutTransition, setLayoutTransition] = useState<LayoutTransition | null>(null);
 
     // Algorithm state
-    const [algorithmType, setAlgorithmType] = useState<AlgorithmType>('dijkstra');
-    const [dijkstraResult, setDijkstraResult] = useState<AlgorithmResult | null>(null);
-    const [newSSSPResult, setNewSSSPResult] = useState<AlgorithmResult | null>(null);
+    const [algorithmType, setAlgorithmType] = useState<AlgorithmType>(initialLink.state?.algorithmType ?? 'dijkstra');
+    const [results, setResults] = useState<Partial<Record<AlgorithmType, AlgorithmResult>>>({});
+    // Source and destination each stored result was run with
+    const [runEndpoints, setRunEndpoints] = useState<Partial<Record<AlgorithmType, { source: number; destination: number }>>>({});
     const [currentResult, setCurrentResult] = useState<AlgorithmResult | null>(null);
+    const [runError, setRunError] = useState<string | null>(null);
+
+    // Step recording mode; 'auto' picks one from the graph size
+    const [recordingChoice, setRecordingChoice] = useState<StepRecording | 'auto'>(
+        initialLink.state?.recording ?? 'auto'
+    );
+
+    // Priority queue used by Dijkstra runs
+    const [priorityQueue, setPriorityQueue] = useState<PriorityQueueType>(initialLink.state?.priorityQueue ?? 'binary');
+    // Debugging aid: check binary heap invariants after every queue operation
+    const [checkHeap, setCheckHeap] = useState(false);
+    const heapCheckable = priorityQueue === 'binary' || priorityQueue === 'lazy-binary';
+
+    // Split view: two runs side by side on one timeline
+    const [splitView, setSplitView] = useState(false);
+    const [showAllPairs, setShowAllPairs] = useState(false);
 
     // Animation state
     const [currentStep, setCurrentStep] = useState(0);
@@ -29,25 +70,153 @@ function App() {
     // Dark mode
     const [isDark, setIsDark] = useState(true);
 
-    // Run algorithm
-    const runAlgorithm = useCallback((type: AlgorithmType) => {
-        const g = graph.toGraph();
+    // Replace the graph and drop results computed for the previous one
+    const updateGraph = useCallback((next: GraphClass) => {
+        setGraph(next);
+        setResults({});
+        setRunEndpoints({});
+        setCurrentResult(null);
+        setRunError(null);
+        setCurrentStep(0);
+        setIsPlaying(false);
+    }, []);
 
-        if (type === 'dijkstra') {
-            const result = dijkstra(g, source, destination);
-            setDijkstraResult(result);
-            setCurrentResult(result);
-        } else {
-            const algo = new NewSSSP(g);
-            const result = algo.solve(source, destination);
-            setNewSSSPResult(result);
-            setCurrentResult(result);
+    // Apply an edit made on the canvas
+    const handleGraphEdit = (edit: GraphEdit) => {
+        const next = applyGraphEdit(graph, edit);
+
+        // Keep source/destination pointing at existing nodes; -1 while the graph is empty
+        if (!next.getNode(source)) setSource(next.nodes[0]?.id ?? -1);
+        if (!next.getNode(destination)) setDestination(next.nodes[next.nodes.length - 1]?.id ?? -1);
+
+        updateGraph(next);
+    };
+
+    // Re-run a layout on the current graph; the canvas glides nodes to their new places
+    const handleLayout = (layout: LayoutType) => {
+        const current = graph.toGraph();
+        setLayoutTransition({ from: nodePositions(current), startedAt: performance.now() });
+        updateGraph(applyLayout(graph, computeLayout(current, layout, { source })));
+    };
+
+    // Run an algorithm on the given graph and make it the animated result.
+    // Returns null if the algorithm refused the graph (e.g. negative edges
+    // or fractional weights with an integer-only priority queue).
+    const executeRun = useCallback((
+        type: AlgorithmType,
+        runGraph: GraphClass,
+        runSource: number,
+        runDestination: number,
+        options: RunOptions
+    ): AlgorithmResult | null => {
+        const algorithm = getAlgorithm(type);
+        if (!algorithm) throw new Error(`Unknown algorithm "${type}"`);
+
+        let result: AlgorithmResult;
+        try {
+            result = algorithm.run(runGraph.toGraph(), runSource, runDestination, options);
+        } catch (err) {
+            if (!(err instanceof UnsupportedGraphError || err instanceof HeapInvariantError)) throw err;
+            setRunError(err.message);
+            return null;
         }
 
+        setRunError(null);
+        setResults(prev => ({ ...prev, [type]: result }));
+        setRunEndpoints(prev => ({ ...prev, [type]: { source: runSource, destination: runDestination } }));
+
+        setCurrentResult(result);
         setCurrentStep(0);
         setIsPlaying(false);
         setAlgorithmType(type);
-    }, [graph, source, destination]);
+        return result;
+    }, []);
+
+    // Run algorithm
+    const runAlgorithm = useCallback((type: AlgorithmType) => {
+        executeRun(type, graph, source, destination, resolveRunOptions(recordingChoice, graph.nodes.length, priorityQueue, checkHeap));
+    }, [executeRun, graph, source, destination, recordingChoice, priorityQueue, checkHeap]);
+
+    // Run every algorithm that accepts the graph, finishing on the selected one so it stays animated
+    const runAll = useCallback(() => {
+        const hasNegativeEdge = findNegativeEdge(graph) !== undefined;
+        const runnable = ALGORITHMS.filter(a => a.supportsNegativeWeights || !hasNegativeEdge);
+        const order = [
+            ...runnable.filter(a => a.id !== algorithmType),
+            ...runnable.filter(a => a.id === algorithmType),
+        ];
+        for (const algorithm of order) runAlgorithm(algorithm.id);
+        setSplitView(true);
+    }, [runAlgorithm, algorithmType, graph]);
+
+    // Step through one cell of the all-pairs matrix with the matrix's algorithm,
+    // or the selected one when the matrix came from an all-pairs reference
+    const selectPair = useCallback((method: string, pairSource: number, pairDestination: number) => {
+        const type = isAlgorithmType(method) ? method : algorithmType;
+        setSource(pairSource);
+        setDestination(pairDestination);
+        setSplitView(false);
+        executeRun(type, graph, pairSource, pairDestination, resolveRunOptions(recordingChoice, graph.nodes.length, priorityQueue, checkHeap));
+    }, [executeRun, graph, algorithmType, recordingChoice, priorityQueue, checkHeap]);
+
+    // Load a shared link, re-running the algorithm if it pointed at a step
+    const applySharedState = useCallback((state: SharedState) => {
+        updateGraph(state.graph);
+        setSource(state.source);
+        setDestination(state.destination);
+        setAlgorithmType(state.algorithmType);
+        setRecordingChoice(state.recording ?? 'auto');
+        setPriorityQueue(state.priorityQueue ?? 'binary');
+
+        if (state.step !== undefined) {
+            const options = resolveRunOptions(state.recording ?? 'auto', state.graph.nodes.length, state.priorityQueue ?? 'binary');
+            const result = executeRun(state.algorithmType, state.graph, state.source, state.destination, options);
+            if (result) setCurrentStep(Math.max(0, Math.min(state.step, result.steps.length - 1)));
+        }
+    }, [updateGraph, executeRun]);
+
+    useEffect(() => {
+        if (initialLink.state) applySharedState(initialLink.state);
+    }, [initialLink, applySharedState]);
+
+    // Follow links pasted into the address bar of an already open tab
+    useEffect(() => {
+        const handleHashChange = () => {
+            const { state, warning } = decodeSharedState(window.location.hash);
+            setLinkWarning(warning);
+            if (state) {
+                applySharedState(state);
+            } else if (warning) {
+                updateGraph(createExampleGraph());
+                setSource(0);
+                setDestination(9);
+            }
+        };
+
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, [applySharedState, updateGraph]);
+
+    // Mirror the current view into the URL so it can be shared. The graph is
+    // encoded once per graph; steps only rewrite the short parameters after it.
+    const sharedGraph = useMemo(() => encodeSharedGraph(graph), [graph]);
+    useEffect(() => {
+        const hash = encodeSharedState({
+            graph,
+            source,
+            destination,
+            algorithmType,
+            recording: recordingChoice === 'auto' ? undefined : recordingChoice,
+            priorityQueue: priorityQueue === 'binary' ? undefined : priorityQueue,
+            step: currentResult ? currentStep : undefined,
+        }, sharedGraph);
+
+        // A link that could not be opened again is worse than none
+        const tooLarge = hash.length > MAX_HASH_LENGTH;
+        setLinkTooLarge(tooLarge);
+        const openable = !tooLarge && graph.nodes.length > 0;
+        window.history.replaceState(null, '', openable ? `#${hash}` : window.location.pathname + window.location.search);
+    }, [graph, sharedGraph, source, destination, algorithmType, recordingChoice, priorityQueue, currentResult, currentStep]);
 
     // Animation loop
     useEffect(() => {
@@ -93,15 +262,69 @@ function App() {
         }
     }, [isDark]);
 
+    const plainGraph = useMemo(() => graph.toGraph(), [graph]);
+
+    // Check every stored result once the reference has been run on this graph,
+    // against a full reference run from its own source, shared between results.
+    // Point-to-point runs stop at their destination, so only their path is checked.
+    const verifications = useMemo(() => {
+        const reports: Partial<Record<AlgorithmType, VerificationReport>> = {};
+        if (!results[REFERENCE_ALGORITHM]) return reports;
+        const references = new Map<number, Map<number, number>>();
+        for (const { id, pointToPoint } of ALGORITHMS) {
+            const result = results[id];
+            const endpoints = runEndpoints[id];
+            if (id === REFERENCE_ALGORITHM || !result || !endpoints) continue;
+            let reference = references.get(endpoints.source);
+            if (!reference) {
+                reference = dijkstra(plainGraph, endpoints.source, undefined, { recording: 'none' }).distances;
+                references.set(endpoints.source, reference);
+            }
+            reports[id] = pointToPoint && plainGraph.adjacencyList.has(endpoints.destination)
+                ? verifyPointToPoint(plainGraph, endpoints.source, endpoints.destination, reference, result)
+                : verifyResult(plainGraph, endpoints.source, reference, result);
+        }
+        return reports;
+    }, [results, runEndpoints, plainGraph]);
+    const flaggedNodes = useMemo(() => {
+        const reports = Object.values(verifications);
+        if (reports.length === 0) return undefined;
+        return new Set(reports.flatMap(report => [...getFlaggedNodes(report)]));
+    }, [verifications]);
+
+    const statistics = useMemo(() => {
+        const stats: Partial<Record<AlgorithmType, AlgorithmStatistics>> = {};
+        for (const { id } of ALGORITHMS) stats[id] = results[id]?.statistics;
+        return stats;
+    }, [results]);
+
     const currentStepData = currentResult?.steps[currentStep] || null;
-    const visualState = currentStepData?.visualState || {
-        nodeStates: new Map(),
-        distances: new Map(),
-        predecessors: new Map(),
-        activeEdges: new Set(),
-        pivots: new Set(),
-        frontier: new Set(),
-    };
+
+    // Split view needs two results; it starts on the reference against the selected algorithm
+    const ranIds = ALGORITHMS.map(a => a.id).filter(id => results[id]);
+    // Nothing can run until the graph has a node to start from
+    const hasSource = graph.getNode(source) !== undefined;
+    const showSplitView = splitView && ranIds.length >= 2;
+    const splitPair: [AlgorithmType, AlgorithmType] = [
+        REFERENCE_ALGORITHM,
+        algorithmType !== REFERENCE_ALGORITHM ? algorithmType : ranIds.find(id => id !== REFERENCE_ALGORITHM) ?? REFERENCE_ALGORITHM,
+    ];
+
+    // Rebuild the visual state for the current step from the delta-encoded trace
+    const visualState = useMemo<VisualizationState>(
+        () => (currentResult && currentStep < currentResult.trace.length
+            ? currentResult.trace.getState(currentStep)
+            : {
+                nodeStates: new Map(),
+                distances: new Map(),
+                predecessors: new Map(),
+                activeEdges: new Set(),
+                pivots: new Set(),
+                frontier: new Set(),
+                workingSet: new Set(),
+            }),
+        [currentResult, currentStep]
+    );
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 transition-colors">
@@ -129,34 +352,122 @@ function App() {
 
             {/* Main content */}
             <main className="max-w-7xl mx-auto px-4 py-6">
+                {/* Shared link warning */}
+                {linkWarning && (
+                    <div className="mb-6 flex items-start justify-between p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700 dark:bg-yellow-950 dark:text-yellow-200 text-sm">
+                        <span>⚠️ {linkWarning}</span>
+                        <button
+                            onClick={() => setLinkWarning(null)}
+                            className="ml-4 font-bold"
+                            title="Dismiss"
+                        >
+                            ×
+                        </button>
+                    </div>
+                )}
+
+                {linkTooLarge && (
+                    <div className="mb-6 p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800 dark:border-yellow-700 dark:bg-yellow-950 dark:text-yellow-200 text-sm">
+                        ⚠️ This graph is too large to share in the page URL; export it as a file instead.
+                    </div>
+                )}
+
+                {/* Algorithm refused to run */}
+                {runError && (
+                    <div className="mb-6 flex items-start justify-between p-3 rounded-lg border border-red-300 bg-red-50 text-red-800 dark:border-red-700 dark:bg-red-950 dark:text-red-200 text-sm">
+                        <span>⛔ {runError}</span>
+                        <button
+                            onClick={() => setRunError(null)}
+                            className="ml-4 font-bold"
+                            title="Dismiss"
+                        >
+                            ×
+                        </button>
+                    </div>
+                )}
+
                 {/* Algorithm selection */}
                 <div className="card mb-6">
-                    <div className="flex items-center justify-between">
-                        <div className="flex space-x-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="flex flex-wrap gap-3">
+                            {ALGORITHMS.map(algorithm => (
+                                <button
+                                    key={algorithm.id}
+                                    onClick={() => runAlgorithm(algorithm.id)}
+                                    disabled={!hasSource}
+                                    className={`btn ${algorithmType === algorithm.id ? 'btn-primary' : 'btn-secondary'
+                                        }`}
+                                    title={algorithm.complexity}
+                                >
+                                    Run {algorithm.shortName}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <label className="text-sm text-gray-600 dark:text-gray-400" htmlFor="recording-mode">
+                                Steps:
+                            </label>
+                            <select
+                                id="recording-mode"
+                                value={recordingChoice}
+                                onChange={(e) => setRecordingChoice(e.target.value as StepRecording | 'auto')}
+                                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                                title="How many algorithm steps to record for the animation"
+                            >
+                                <option value="auto">
+                                    Auto ({resolveRunOptions('auto', graph.nodes.length, priorityQueue).recording})
+                                </option>
+                                <option value="all">All steps</option>
+                                <option value="sampled">Sampled</option>
+                                <option value="milestones">Milestones only</option>
+                                <option value="none">None (stats only)</option>
+                            </select>
+                            <label className="text-sm text-gray-600 dark:text-gray-400" htmlFor="priority-queue">
+                                Queue:
+                            </label>
+                            <select
+                                id="priority-queue"
+                                value={priorityQueue}
+                                onChange={(e) => setPriorityQueue(e.target.value as PriorityQueueType)}
+                                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                                title={PRIORITY_QUEUES.find(queue => queue.id === priorityQueue)?.description}
+                            >
+                                {PRIORITY_QUEUES.map(queue => (
+                                    <option key={queue.id} value={queue.id}>
+                                        {queue.name}
+                                    </option>
+                                ))}
+                            </select>
+                            {heapCheckable && (
+                                <label
+                                    className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400"
+                                    title="Debugging: check the heap after every queue operation and stop the run on a violation"
+                                >
+                                    <input type="checkbox" checked={checkHeap} onChange={(e) => setCheckHeap(e.target.checked)} />
+                                    <span>Check heap</span>
+                                </label>
+                            )}
                             <button
-                                onClick={() => runAlgorithm('dijkstra')}
-                                className={`btn ${algorithmType === 'dijkstra' ? 'btn-primary' : 'btn-secondary'
-                                    }`}
+                                onClick={runAll}
+                                className="btn btn-success"
+                                disabled={!hasSource}
                             >
-                                Run Dijkstra
+                                Run All (Compare)
                             </button>
                             <button
-                                onClick={() => runAlgorithm('new-sssp')}
-                                className={`btn ${algorithmType === 'new-sssp' ? 'btn-primary' : 'btn-secondary'
-                                    }`}
+                                onClick={() => setSplitView(!splitView)}
+                                className="btn btn-secondary"
+                                disabled={ranIds.length < 2}
+                                title="Show two runs side by side on one timeline"
                             >
-                                Run New SSSP
+                                {showSplitView ? 'Single View' : 'Split View'}
                             </button>
-                        </div>
-                        <div className="flex items-center space-x-2">
                             <button
-                                onClick={() => {
-                                    runAlgorithm('dijkstra');
-                                    setTimeout(() => runAlgorithm('new-sssp'), 0);
-                                }}
-                                className="btn btn-success"
+                                onClick={() => setShowAllPairs(!showAllPairs)}
+                                className={`btn ${showAllPairs ? 'btn-primary' : 'btn-secondary'}`}
+                                title="Distances between every pair of nodes"
                             >
-                                Run Both (Compare)
+                                All Pairs
                             </button>
                         </div>
                     </div>
@@ -168,28 +479,74 @@ function App() {
                         <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
                             Graph Visualization
                         </h3>
-                        <div className="flex justify-center">
-                            <GraphCanvas
-                                graph={graph.toGraph()}
-                                visualState={visualState}
-                                width={1000}
-                                height={600}
+                        {showSplitView ? (
+                            <DualCanvasView
+                                graph={plainGraph}
+                                algorithms={ALGORITHMS}
+                                results={results}
+                                initialPair={splitPair}
+                                speed={speed}
+                                flaggedNodes={flaggedNodes}
+                                layoutTransition={layoutTransition}
                             />
-                        </div>
+                        ) : (
+                            <div className="flex justify-center gap-4">
+                                <GraphCanvas
+                                    graph={plainGraph}
+                                    visualState={visualState}
+                                    width={currentResult?.callTree ? 860 : 1000}
+                                    height={600}
+                                    onGraphEdit={handleGraphEdit}
+                                    flaggedNodes={flaggedNodes}
+                                    negativeCycle={currentResult?.negativeCycle}
+                                    layoutTransition={layoutTransition}
+                                />
+                                {currentResult?.callTree && (
+                                    <div className="w-80 shrink-0">
+                                        <RecursionTreePanel
+                                            tree={currentResult.callTree}
+                                            currentStep={currentStep}
+                                            onJump={(step) => {
+                                                setIsPlaying(false);
+                                                setCurrentStep(step);
+                                            }}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                 </div>
 
+                {/* All-pairs distance matrix */}
+                {showAllPairs && (
+                    <div className="mb-6 card">
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+                            All-Pairs Distances
+                        </h3>
+                        <AllPairsPanel
+                            graph={plainGraph}
+                            algorithms={ALGORITHMS}
+                            initialMethod={algorithmType}
+                            source={source}
+                            destination={destination}
+                            onSelectPair={selectPair}
+                        />
+                    </div>
+                )}
+
                 {/* Controls and Info Panels - Two Column Layout */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     {/* Left column - Graph selector and controls */}
                     <div className="space-y-6">
                         <GraphSelector
-                            onGraphChange={setGraph}
+                            graph={graph}
+                            onGraphChange={updateGraph}
+                            onLayout={handleLayout}
                             onSourceChange={setSource}
                             onDestinationChange={setDestination}
                             source={source}
                             destination={destination}
-                            nodeCount={graph.nodes.length}
                         />
                         <ControlPanel
                             isPlaying={isPlaying}
@@ -213,11 +570,13 @@ function App() {
                     <div className="space-y-6">
                         <InfoPanel
                             currentStep={currentStepData}
-                            algorithmType={algorithmType}
+                            algorithm={getAlgorithm(algorithmType) ?? null}
                         />
                         <ComparisonPanel
-                            dijkstraStats={dijkstraResult?.statistics || null}
-                            newSSSPStats={newSSSPResult?.statistics || null}
+                            algorithms={ALGORITHMS}
+                            statistics={statistics}
+                            verifications={verifications}
+                            referenceId={REFERENCE_ALGORITHM}
                         />
                     </div>
                 </div>
@@ -239,28 +598,16 @@ function App() {
                             and BMSSP for recursive divide-and-conquer, achieving O(m log^(2/3) n) time.
                         </p>
                         <div className="grid grid-cols-2 gap-4 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-                            <div>
-                                <div className="font-semibold text-blue-600 dark:text-blue-400">
-                                    Dijkstra's Algorithm
-                                </div>
-                                <ul className="list-disc list-inside text-xs mt-1 space-y-1">
-                                    <li>Uses priority queue (min-heap)</li>
-                                    <li>Processes vertices by distance</li>
-                                    <li>Complexity: O(m + n log n)</li>
-                                    <li>Classic, well-established approach</li>
-                                </ul>
-                            </div>
-                            <div>
-                                <div className="font-semibold text-purple-600 dark:text-purple-400">
-                                    New SSSP Algorithm
+                            {ALGORITHMS.map(algorithm => (
+                                <div key={algorithm.id}>
+                                    <div className={`font-semibold ${algorithm.accentClass}`}>
+                                        {algorithm.name}
+                                    </div>
+                                    <ul className="list-disc list-inside text-xs mt-1 space-y-1">
+                                        {algorithm.highlights.map(item => <li key={item}>{item}</li>)}
+                                    </ul>
                                 </div>
-                                <ul className="list-disc list-inside text-xs mt-1 space-y-1">
-                                    <li>Uses adaptive frontier structure</li>
-                                    <li>FindPivots reduces frontier size</li>
-                                    <li>Complexity: O(m log^(2/3) n)</li>
-                                    <li>Breakthrough on sparse graphs!</li>
-                                </ul>
-                            </div>
+                            ))}
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,237 @@
+import { Graph, Node, AlgorithmResult, AlgorithmDefinition, NodeState, RunOptions } from './types';
+import { MinHeap } from './MinHeap';
+import { StepRecorder } from './StepRecorder';
+import { requireNonNegativeWeights } from './Graph';
+import { buildPath } from './BellmanFord';
+
+export type Heuristic = 'euclidean' | 'manhattan';
+
+function geometricDistance(a: Node, b: Node, heuristic: Heuristic): number {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return heuristic === 'euclidean' ? Math.sqrt(dx * dx + dy * dy) : dx + dy;
+}
+
+/**
+ * Largest factor c such that c * (geometric distance) never overestimates.
+ * Edge weights are unrelated to the canvas layout, so the raw distance is
+ * scaled down to c = min over edges of weight / length. Both metrics obey
+ * the triangle inequality, which makes the scaled heuristic consistent.
+ */
+export function heuristicScale(graph: Graph, heuristic: Heuristic): number {
+    const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+    let scale = Infinity;
+
+    for (const edge of graph.edges) {
+        const from = nodes.get(edge.from);
+        const to = nodes.get(edge.to);
+        if (!from || !to) continue;
+
+        const length = geometricDistance(from, to, heuristic);
+        if (length > 0) scale = Math.min(scale, edge.weight / length);
+    }
+
+    // Shave a little off so rounding in h(u) - h(v) never exceeds an edge weight
+    return scale === Infinity ? 0 : scale * (1 - 1e-9);
+}
+
+/**
+ * A* Search - goal-directed Dijkstra
+ * Time Complexity: O(m + n log n), usually settling far fewer nodes
+ *
+ * Orders the queue by g(v) + h(v), where h is the scaled Euclidean or
+ * Manhattan distance to the destination. Without a destination h is zero
+ * and the run is plain Dijkstra over the whole graph.
+ */
+export function aStar(
+    graph: Graph,
+    source: number,
+    destination?: number,
+    options: RunOptions = {},
+    heuristic: Heuristic = 'euclidean'
+): AlgorithmResult {
+    requireNonNegativeWeights(graph, 'A*');
+
+    const startTime = performance.now();
+    const recorder = new StepRecorder(options, () => operations);
+
+    const dist = new Map<number, number>();
+    const pred = new Map<number, number>();
+    const settled = new Set<number>();
+    const heap = new MinHeap();
+
+    let operations = 0;
+    let heapOps = 0;
+    let relaxations = 0;
+
+    // Heuristic estimates, computed once per node
+    const target = destination !== undefined ? graph.nodes.find(node => node.id === destination) : undefined;
+    const scale = target ? heuristicScale(graph, heuristic) : 0;
+    const h = new Map<number, number>();
+    // What the visualization shows: settled nodes are drawn as forward, reached ones as visited
+    const view = recorder.state;
+    let current: number | null = null;
+    for (const node of graph.nodes) {
+        dist.set(node.id, Infinity);
+        pred.set(node.id, -1);
+        h.set(node.id, target ? scale * geometricDistance(node, target, heuristic) : 0);
+        view.nodeStates.set(node.id, NodeState.UNVISITED);
+        view.distances.set(node.id, Infinity);
+        view.predecessors.set(node.id, -1);
+    }
+
+    dist.set(source, 0);
+    heap.insert(source, h.get(source)!, h.get(source)!);
+    heapOps++;
+    view.distances.set(source, 0);
+    view.nodeStates.set(source, NodeState.VISITED);
+    view.frontier.add(source);
+
+    recorder.record('initialize', () => ({
+        description: target
+            ? `Initialize: Set distance of source node ${source} to 0 and estimate each node's remaining distance to ${destination} as ${scale.toFixed(3)} × ${heuristic} distance`
+            : `Initialize: Set distance of source node ${source} to 0; without a destination A* runs as Dijkstra`,
+        currentNode: source,
+    }));
+
+    while (!heap.isEmpty()) {
+        const u = heap.extractMin()!;
+        operations++;
+        heapOps++;
+        view.frontier.delete(u);
+
+        if (settled.has(u)) continue;
+        settled.add(u);
+        if (current !== null) view.nodeStates.set(current, NodeState.FORWARD);
+        view.nodeStates.set(u, NodeState.CURRENT);
+        view.activeEdges.replace([]);
+        current = u;
+
+        recorder.record('visit', () => ({
+            description: `Visit node ${u}: g = ${dist.get(u)}, h = ${h.get(u)!.toFixed(1)}, f = ${(dist.get(u)! + h.get(u)!).toFixed(1)}`,
+            currentNode: u,
+        }));
+
+        if (u === destination) break;
+
+        for (const { node: v, weight } of graph.adjacencyList.get(u) || []) {
+            operations++;
+            const newDist = dist.get(u)! + weight;
+            const oldDist = dist.get(v)!;
+            if (newDist >= oldDist || settled.has(v)) continue;
+
+            dist.set(v, newDist);
+            pred.set(v, u);
+            relaxations++;
+
+            // Ties on f go to the node closer to the destination
+            const f = newDist + h.get(v)!;
+            if (heap.contains(v)) {
+                heap.decreaseKey(v, f, h.get(v)!);
+            } else {
+                heap.insert(v, f, h.get(v)!);
+            }
+            heapOps++;
+            view.distances.set(v, newDist);
+            view.predecessors.set(v, u);
+            view.nodeStates.set(v, NodeState.VISITED);
+            view.frontier.add(v);
+            view.activeEdges.replace([`${u}-${v}`]);
+
+            recorder.record('relax', () => ({
+                description: `Relax edge (${u} → ${v}): distance updated from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}, f = ${f.toFixed(1)}`,
+                currentNode: u,
+                details: {
+                    distanceUpdates: [{ node: v, oldDist, newDist }],
+                    edgeRelaxed: { from: u, to: v },
+                },
+            }));
+        }
+    }
+
+    const endTime = performance.now();
+    const shortestPath = buildPath(pred, dist, destination);
+
+    if (shortestPath.length > 0) {
+        if (current !== null) view.nodeStates.set(current, NodeState.FORWARD);
+        view.activeEdges.replace([]);
+        for (const node of shortestPath) {
+            view.nodeStates.set(node, NodeState.PATH);
+        }
+        recorder.record('done', () => ({
+            description: `Shortest path found: ${shortestPath.join(' → ')} (distance: ${dist.get(destination!)}) after settling ${settled.size} nodes`,
+            currentNode: null,
+        }));
+    } else {
+        recorder.record('done', () => ({
+            description: destination !== undefined
+                ? `No path exists from node ${source} to node ${destination} (settled ${settled.size} nodes)`
+                : `All nodes reachable from node ${source} settled`,
+            currentNode: null,
+        }));
+    }
+
+    return {
+        distances: dist,
+        predecessors: pred,
+        shortestPath,
+        steps: recorder.steps,
+        trace: recorder.trace,
+        statistics: {
+            executionTime: endTime - startTime,
+            operations,
+            heapOperations: heapOps,
+            relaxations,
+            nodesProcessed: settled.size,
+            complexity: 'O(m + n log n)',
+            heuristicScale: scale,
+        },
+    };
+}
+
+const explanations: AlgorithmDefinition['explanations'] = {
+    initialize: 'Setting up distances and the distance-to-goal estimates that steer the search.',
+    visit: 'Settling the open node with the smallest f = g + h, i.e. the most promising one.',
+    relax: 'Updating a neighbor distance and its f value if a shorter path is found.',
+    done: 'The destination was settled; with a consistent heuristic its distance is final.',
+};
+
+export const aStarEuclideanAlgorithm: AlgorithmDefinition<'astar-euclidean'> = {
+    id: 'astar-euclidean',
+    name: 'A* (Euclidean)',
+    shortName: 'A* Euclid',
+    complexity: 'O(m + n log n)',
+    accentClass: 'text-cyan-600 dark:text-cyan-400',
+    pointToPoint: true,
+    highlights: [
+        'Dijkstra guided by straight-line distance',
+        'Heuristic scaled to stay admissible',
+        'Settles fewer nodes for single-pair queries',
+        'Needs node coordinates and a destination',
+    ],
+    explanations,
+    parameters: stats => [
+        { label: 'Heuristic scale', value: stats.heuristicScale?.toFixed(4) },
+    ],
+    run: (graph, source, destination, options) => aStar(graph, source, destination, options, 'euclidean'),
+};
+
+export const aStarManhattanAlgorithm: AlgorithmDefinition<'astar-manhattan'> = {
+    id: 'astar-manhattan',
+    name: 'A* (Manhattan)',
+    shortName: 'A* Manhattan',
+    complexity: 'O(m + n log n)',
+    accentClass: 'text-sky-600 dark:text-sky-400',
+    pointToPoint: true,
+    highlights: [
+        'Dijkstra guided by grid distance |dx| + |dy|',
+        'Heuristic scaled to stay admissible',
+        'Tightest on grid-like layouts',
+        'Needs node coordinates and a destination',
+    ],
+    explanations,
+    parameters: stats => [
+        { label: 'Heuristic scale', value: stats.heuristicScale?.toFixed(4) },
+    ],
+    run: (graph, source, destination, options) => aStar(graph, source, destination, options, 'manhattan'),
+};
@@ -1,3 +1,5 @@
+import { MinHeap } from './MinHeap';
+
 /**
  * Adaptive Frontier Data Structure
  * 
@@ -9,11 +11,15 @@
 export class AdaptiveFrontier {
     private elements: Map<number, number> = new Map();
     private dist: number[];
+    // Ordered by distance, then by when each vertex joined the frontier
+    private heap = new MinHeap();
+    private joinOrder: Map<number, number> = new Map();
+    private joined = 0;
 
     constructor(initialVertices: number[], dist: number[]) {
         this.dist = dist;
         for (const v of initialVertices) {
-            this.elements.set(v, dist[v]);
+            this.insert(v, dist[v]);
         }
     }
 
@@ -21,8 +27,13 @@ export class AdaptiveFrontier {
      * Insert a vertex into the frontier with its distance
      */
     insert(vertex: number, distance: number): void {
-        if (!this.elements.has(vertex) || this.elements.get(vertex)! > distance) {
+        if (!this.elements.has(vertex)) {
+            this.elements.set(vertex, distance);
+            this.joinOrder.set(vertex, this.joined);
+            this.heap.insert(vertex, distance, this.joined++);
+        } else if (this.elements.get(vertex)! > distance) {
             this.elements.set(vertex, distance);
+            this.heap.decreaseKey(vertex, distance, this.joinOrder.get(vertex)!);
         }
     }
 
@@ -37,20 +48,16 @@ export class AdaptiveFrontier {
             return { vertices: [], upperBound: Infinity };
         }
 
-        // Get smallest 'count' elements using partial sort
-        // In practice, we do sort here, but theoretically this can be optimized
-        // using selection algorithms to avoid full O(n log n) sorting
-        const sorted = Array.from(this.elements.entries())
-            .sort((a, b) => a[1] - b[1]);
-
-        const toReturn = Math.min(count, sorted.length);
-        const vertices = sorted.slice(0, toReturn).map(e => e[0]);
-        const upperBound = toReturn < sorted.length ? sorted[toReturn][1] : Infinity;
-
-        // Remove pulled vertices from frontier
-        for (const v of vertices) {
+        // Take the smallest 'count' elements from the heap rather than sorting
+        // the whole frontier; ties go to the vertex that joined first
+        const vertices: number[] = [];
+        while (vertices.length < count && !this.heap.isEmpty()) {
+            const v = this.heap.extractMin()!;
             this.elements.delete(v);
+            this.joinOrder.delete(v);
+            vertices.push(v);
         }
+        const upperBound = this.heap.peek()?.distance ?? Infinity;
 
         return { vertices, upperBound };
     }
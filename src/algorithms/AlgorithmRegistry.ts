@@ -0,0 +1,40 @@
+import { AlgorithmDefinition } from './types';
+import { dijkstraAlgorithm } from './Dijkstra';
+import { newSSSPAlgorithm } from './NewSSSP';
+import { bmsspAlgorithm } from './BMSSP';
+import { bellmanFordAlgorithm } from './BellmanFord';
+import { spfaAlgorithm } from './SPFA';
+import { aStarEuclideanAlgorithm, aStarManhattanAlgorithm } from './AStar';
+import { bidirectionalDijkstraAlgorithm } from './BidirectionalDijkstra';
+
+/**
+ * Algorithms offered by the UI, the benchmark and the differential tests,
+ * in display order. To add one, export an AlgorithmDefinition from its
+ * module and list it here.
+ */
+const DEFINITIONS = [
+    dijkstraAlgorithm,
+    newSSSPAlgorithm,
+    bmsspAlgorithm,
+    bellmanFordAlgorithm,
+    spfaAlgorithm,
+    aStarEuclideanAlgorithm,
+    aStarManhattanAlgorithm,
+    bidirectionalDijkstraAlgorithm,
+];
+
+// Id of a registered algorithm
+export type AlgorithmType = typeof DEFINITIONS[number]['id'];
+
+export const ALGORITHMS: AlgorithmDefinition[] = DEFINITIONS;
+
+// Every other algorithm is verified against this one
+export const REFERENCE_ALGORITHM: AlgorithmType = 'dijkstra';
+
+export function getAlgorithm(id: string): AlgorithmDefinition | undefined {
+    return ALGORITHMS.find(a => a.id === id);
+}
+
+export function isAlgorithmType(id: string): id is AlgorithmType {
+    return getAlgorithm(id) !== undefined;
+}
@@ -0,0 +1,149 @@
+import { Graph, AlgorithmDefinition, Edge } from './types';
+import { dijkstra } from './Dijkstra';
+import { UnsupportedGraphError, graphArcs } from './Graph';
+import { sameDistance } from './Verification';
+
+/**
+ * All-pairs shortest paths
+ *
+ * A matrix either comes from running a single-source algorithm from every
+ * node or from one of the classic all-pairs references. Rows and columns
+ * follow graph.nodes, so distances[i][j] is the distance from nodes[i]
+ * to nodes[j].
+ */
+
+export type AllPairsReference = 'floyd-warshall' | 'johnson';
+
+export interface DistanceMatrix {
+    nodes: number[]; // node ids, in row/column order
+    distances: number[][];
+    executionTime: number; // milliseconds
+}
+
+export const ALL_PAIRS_REFERENCES: Array<{ id: AllPairsReference; name: string; complexity: string }> = [
+    { id: 'floyd-warshall', name: 'Floyd–Warshall', complexity: 'O(n³)' },
+    { id: 'johnson', name: 'Johnson', complexity: 'O(nm + n² log n)' },
+];
+
+function negativeCycleError(method: string): UnsupportedGraphError {
+    return new UnsupportedGraphError(
+        `${method} found a negative cycle, so some distances are unbounded and there is no distance matrix.`
+    );
+}
+
+/**
+ * Run a single-source algorithm from every node, without recording steps.
+ * Errors from the algorithm (e.g. negative edges) propagate unchanged.
+ */
+export function runFromEverySource(graph: Graph, algorithm: AlgorithmDefinition): DistanceMatrix {
+    const startTime = performance.now();
+    const nodes = graph.nodes.map(node => node.id);
+
+    const distances = nodes.map(source => {
+        const result = algorithm.run(graph, source, undefined, { recording: 'none' });
+        if (result.negativeCycle) throw negativeCycleError(algorithm.name);
+        return nodes.map(target => result.distances.get(target) ?? Infinity);
+    });
+
+    return { nodes, distances, executionTime: performance.now() - startTime };
+}
+
+/**
+ * Floyd–Warshall: relax every pair through each intermediate node in turn
+ * Time Complexity: O(n³)
+ */
+export function floydWarshall(graph: Graph): DistanceMatrix {
+    const startTime = performance.now();
+    const nodes = graph.nodes.map(node => node.id);
+    const index = new Map(nodes.map((id, i) => [id, i]));
+    const n = nodes.length;
+
+    const dist = nodes.map((_, i) => nodes.map((__, j) => (i === j ? 0 : Infinity)));
+    for (const arc of graphArcs(graph)) {
+        const u = index.get(arc.from)!;
+        const v = index.get(arc.to)!;
+        dist[u][v] = Math.min(dist[u][v], arc.weight);
+    }
+
+    for (let k = 0; k < n; k++) {
+        const viaK = dist[k];
+        for (let i = 0; i < n; i++) {
+            const ik = dist[i][k];
+            if (ik === Infinity) continue;
+            const row = dist[i];
+            for (let j = 0; j < n; j++) {
+                if (ik + viaK[j] < row[j]) row[j] = ik + viaK[j];
+            }
+        }
+    }
+
+    // A node that reaches itself at negative cost lies on a negative cycle
+    if (dist.some((row, i) => row[i] < 0)) throw negativeCycleError('Floyd–Warshall');
+
+    return { nodes, distances: dist, executionTime: performance.now() - startTime };
+}
+
+/**
+ * Johnson: Bellman-Ford potentials make every weight non-negative, then
+ * Dijkstra runs from every node on the reweighted graph
+ * Time Complexity: O(nm + n² log n)
+ */
+export function johnson(graph: Graph): DistanceMatrix {
+    const startTime = performance.now();
+    const nodes = graph.nodes.map(node => node.id);
+
+    const arcs = graphArcs(graph);
+
+    // Potentials from a virtual source with a 0-weight edge to every node
+    const h = new Map(nodes.map(id => [id, 0]));
+    let changed = true;
+    for (let round = 0; changed && round <= nodes.length; round++) {
+        if (round === nodes.length) throw negativeCycleError('Johnson');
+        changed = false;
+        for (const arc of arcs) {
+            const candidate = h.get(arc.from)! + arc.weight;
+            if (candidate < h.get(arc.to)!) {
+                h.set(arc.to, candidate);
+                changed = true;
+            }
+        }
+    }
+
+    // w'(u, v) = w + h(u) - h(v) >= 0; clamp rounding noise below zero. The two
+    // directions of an undirected edge may reweight differently, so the
+    // reweighted graph is directed with one edge per arc.
+    const reweight = (from: number, to: number, weight: number) =>
+        Math.max(0, weight + h.get(from)! - h.get(to)!);
+    const edges: Edge[] = arcs.map((arc, id) => ({ id, ...arc, weight: reweight(arc.from, arc.to, arc.weight) }));
+    const adjacencyList = new Map(
+        [...graph.adjacencyList].map(([u, list]) => [u, list.map(({ node, weight }) => ({ node, weight: reweight(u, node, weight) }))])
+    );
+    const reweighted: Graph = { nodes: graph.nodes, edges, adjacencyList, directed: true };
+
+    const distances = nodes.map(source => {
+        const result = dijkstra(reweighted, source, undefined, { recording: 'none' });
+        return nodes.map(target => {
+            const d = result.distances.get(target) ?? Infinity;
+            return d === Infinity ? Infinity : d - h.get(source)! + h.get(target)!;
+        });
+    });
+
+    return { nodes, distances, executionTime: performance.now() - startTime };
+}
+
+export function computeReference(graph: Graph, reference: AllPairsReference): DistanceMatrix {
+    return reference === 'floyd-warshall' ? floydWarshall(graph) : johnson(graph);
+}
+
+/**
+ * Cells whose distances differ, as "row-column" index keys
+ */
+export function diffMatrices(a: DistanceMatrix, b: DistanceMatrix): Set<string> {
+    const differing = new Set<string>();
+    a.distances.forEach((row, i) => {
+        row.forEach((d, j) => {
+            if (!sameDistance(d, b.distances[i]?.[j] ?? Infinity)) differing.add(`${i}-${j}`);
+        });
+    });
+    return differing;
+}
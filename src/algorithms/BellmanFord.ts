@@ -0,0 +1,282 @@
+import { Graph, AlgorithmResult, AlgorithmDefinition, NodeState, RunOptions } from './types';
+import { StepRecorder } from './StepRecorder';
+import { LiveState } from './StepTrace';
+
+/**
+ * Bellman-Ford Algorithm - handles negative edge weights
+ * Time Complexity: O(nm)
+ *
+ * Relaxes every edge in rounds until nothing changes. Any change in
+ * round n proves a negative cycle reachable from the source, which is
+ * reported in result.negativeCycle rather than thrown.
+ */
+export function bellmanFord(
+    graph: Graph,
+    source: number,
+    destination?: number,
+    options: RunOptions = {}
+): AlgorithmResult {
+    const startTime = performance.now();
+    const recorder = new StepRecorder(options, () => operations);
+    const n = graph.nodes.length;
+
+    const dist = new Map<number, number>();
+    const pred = new Map<number, number>();
+
+    let operations = 0;
+    let relaxations = 0;
+    let rounds = 0;
+
+    for (const node of graph.nodes) {
+        dist.set(node.id, Infinity);
+        pred.set(node.id, -1);
+    }
+    dist.set(source, 0);
+    const view = new ReachView(recorder.state, graph, source);
+    // Step number of each reached node's latest improvement
+    const changedAt = new Map<number, number>([[source, recorder.stepCount]]);
+
+    recorder.record('initialize', () => ({
+        description: `Initialize: Set distance of source node ${source} to 0, all others to ∞`,
+        currentNode: source,
+    }));
+
+    // n - 1 rounds settle every shortest path; round n only looks for a negative cycle
+    let changed = true;
+    let lastUpdated = -1;
+    while (changed && rounds < Math.max(1, n)) {
+        changed = false;
+        rounds++;
+        const round = rounds;
+        view.focus(null);
+
+        recorder.record('round', () => ({
+            description: round < n
+                ? `Round ${round}: relax every edge out of a reached node`
+                : `Round ${round}: any further improvement proves a negative cycle`,
+            currentNode: null,
+            details: { round },
+        }));
+
+        for (const node of graph.nodes) {
+            const u = node.id;
+            const du = dist.get(u)!;
+            if (du === Infinity) continue;
+
+            for (const { node: v, weight } of graph.adjacencyList.get(u) || []) {
+                operations++;
+                const newDist = du + weight;
+                const oldDist = dist.get(v)!;
+                if (newDist >= oldDist) continue;
+
+                dist.set(v, newDist);
+                pred.set(v, u);
+                relaxations++;
+                changed = true;
+                lastUpdated = v;
+                changedAt.set(v, recorder.stepCount);
+                view.relax(u, v, newDist);
+
+                recorder.record('relax', () => ({
+                    description: `Relax edge (${u} → ${v}): distance updated from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}`,
+                    currentNode: u,
+                    details: {
+                        distanceUpdates: [{ node: v, oldDist, newDist }],
+                        edgeRelaxed: { from: u, to: v },
+                        round,
+                    },
+                }));
+            }
+        }
+    }
+
+    const negativeCycle = changed
+        ? findPredecessorCycle(pred, [lastUpdated, ...graph.nodes.map(node => node.id)]) ?? undefined
+        : undefined;
+
+    const endTime = performance.now();
+    const shortestPath = negativeCycle ? [] : buildPath(pred, dist, destination);
+
+    recordOutcome(recorder, view, graph, dist, shortestPath, destination, negativeCycle);
+    recorder.settleByFinalDistance(changedAt.values());
+
+    return {
+        distances: dist,
+        predecessors: pred,
+        shortestPath,
+        steps: recorder.steps,
+        trace: recorder.trace,
+        negativeCycle,
+        statistics: {
+            executionTime: endTime - startTime,
+            operations,
+            relaxations,
+            rounds,
+            nodesProcessed: Array.from(dist.values()).filter(d => d !== Infinity).length,
+            complexity: 'O(nm)',
+        },
+    };
+}
+
+/**
+ * Look for a cycle in the predecessor graph, walking back from each start
+ * in turn. Predecessor edges only ever come from relaxations, so any cycle
+ * among them has negative total weight. Returns the cycle in edge order
+ * (each node is followed by its successor on the cycle).
+ */
+export function findPredecessorCycle(pred: Map<number, number>, starts: Iterable<number>): number[] | null {
+    const seenOnWalk = new Map<number, number>();
+    let walk = 0;
+
+    for (const start of starts) {
+        walk++;
+        let v = start;
+        while (v !== -1 && !seenOnWalk.has(v)) {
+            seenOnWalk.set(v, walk);
+            v = pred.get(v) ?? -1;
+        }
+        if (v === -1 || seenOnWalk.get(v) !== walk) continue;
+
+        // v is on a cycle; follow predecessors around it once
+        const cycle = [v];
+        for (let u = pred.get(v)!; u !== v; u = pred.get(u)!) cycle.push(u);
+        return cycle.reverse();
+    }
+
+    return null;
+}
+
+/**
+ * Total weight of a cycle given in edge order, using the lightest parallel edge
+ */
+export function cycleWeight(graph: Graph, cycle: number[]): number {
+    let total = 0;
+    cycle.forEach((u, i) => {
+        const v = cycle[(i + 1) % cycle.length];
+        const weights = (graph.adjacencyList.get(u) || []).filter(e => e.node === v).map(e => e.weight);
+        total += Math.min(...weights);
+    });
+    return total;
+}
+
+/**
+ * Follow predecessors back from the destination, if it was reached
+ */
+export function buildPath(pred: Map<number, number>, dist: Map<number, number>, destination?: number): number[] {
+    const path: number[] = [];
+    if (destination === undefined || (dist.get(destination) ?? Infinity) === Infinity) return path;
+
+    let current = destination;
+    while (current !== -1) {
+        path.unshift(current);
+        current = pred.get(current)!;
+    }
+    return path;
+}
+
+/**
+ * Record the final step: the negative cycle if one was found, otherwise the
+ * path, or that there is none
+ */
+export function recordOutcome(
+    recorder: StepRecorder,
+    view: ReachView,
+    graph: Graph,
+    dist: Map<number, number>,
+    shortestPath: number[],
+    destination: number | undefined,
+    negativeCycle: number[] | undefined
+): void {
+    if (negativeCycle) {
+        view.finish(negativeCycle.map((u, i) => `${u}-${negativeCycle[(i + 1) % negativeCycle.length]}`), negativeCycle);
+        recorder.record('negative_cycle', () => ({
+            description: `Negative cycle detected: ${[...negativeCycle, negativeCycle[0]].join(' → ')} ` +
+                `(total weight ${cycleWeight(graph, negativeCycle)}). Shortest distances are undefined.`,
+            currentNode: null,
+            details: { cycle: negativeCycle },
+        }));
+        return;
+    }
+
+    view.finish([], shortestPath);
+    recorder.record('done', () => ({
+        description: shortestPath.length > 0
+            ? `Shortest path found: ${shortestPath.join(' → ')} (distance: ${dist.get(destination!)})`
+            : destination !== undefined
+                ? `No path exists to node ${destination}`
+                : 'No edge can be improved any more; all distances are final',
+        currentNode: null,
+    }));
+}
+
+/**
+ * The visual state Bellman-Ford and SPFA keep up to date: nodes with a
+ * finite distance are drawn as visited, except the one being scanned
+ */
+export class ReachView {
+    private current: number | null = null;
+
+    constructor(readonly state: LiveState, graph: Graph, source: number) {
+        for (const node of graph.nodes) {
+            state.nodeStates.set(node.id, NodeState.UNVISITED);
+            state.distances.set(node.id, Infinity);
+            state.predecessors.set(node.id, -1);
+        }
+        state.distances.set(source, 0);
+        state.nodeStates.set(source, NodeState.VISITED);
+    }
+
+    /**
+     * Highlight the node being scanned (or none) and clear the active edge
+     */
+    focus(u: number | null): void {
+        if (this.current !== null && this.current !== u) this.state.nodeStates.set(this.current, NodeState.VISITED);
+        if (u !== null) this.state.nodeStates.set(u, NodeState.CURRENT);
+        this.current = u;
+        this.state.activeEdges.replace([]);
+    }
+
+    relax(u: number, v: number, distance: number): void {
+        this.state.distances.set(v, distance);
+        this.state.predecessors.set(v, u);
+        this.state.nodeStates.set(v, NodeState.VISITED);
+        this.focus(u);
+        this.state.activeEdges.replace([`${u}-${v}`]);
+    }
+
+    /**
+     * Final picture: nothing scanned or queued, the given edges and nodes marked
+     */
+    finish(edges: string[], marked: number[]): void {
+        this.focus(null);
+        this.state.frontier.replace([]);
+        this.state.activeEdges.replace(edges);
+        for (const node of marked) this.state.nodeStates.set(node, NodeState.PATH);
+    }
+}
+
+export const bellmanFordAlgorithm: AlgorithmDefinition<'bellman-ford'> = {
+    id: 'bellman-ford',
+    name: 'Bellman-Ford',
+    shortName: 'Bellman-Ford',
+    complexity: 'O(nm)',
+    accentClass: 'text-orange-600 dark:text-orange-400',
+    supportsNegativeWeights: true,
+    highlights: [
+        'Relaxes every edge in up to n rounds',
+        'Handles negative edge weights',
+        'Complexity: O(nm)',
+        'Reports reachable negative cycles',
+    ],
+    explanations: {
+        initialize: 'Setting up initial distances. Bellman-Ford needs no priority queue.',
+        round: 'Starting another pass over every edge. After n - 1 passes all shortest paths are settled.',
+        relax: 'Updating a neighbor distance because a shorter path was found. Negative weights are fine.',
+        negative_cycle: 'An edge still improved in round n, so a cycle of negative total weight is reachable and distances are unbounded.',
+        done: 'No edge can be improved any more; all distances are final.',
+    },
+    parameters: stats => [
+        { label: 'Rounds', value: stats.rounds },
+    ],
+    run: bellmanFord,
+};
@@ -0,0 +1,284 @@
+import { Graph, AlgorithmResult, AlgorithmDefinition, NodeState, RunOptions } from './types';
+import { MinHeap } from './MinHeap';
+import { StepRecorder } from './StepRecorder';
+import { requireNonNegativeWeights } from './Graph';
+
+type Adjacency = Map<number, Array<{ node: number; weight: number }>>;
+
+/**
+ * Incoming edges of every node, so the backward search can walk edges in reverse
+ */
+export function reverseAdjacency(graph: Graph): Adjacency {
+    const reverse: Adjacency = new Map(graph.nodes.map(node => [node.id, []]));
+    for (const [from, neighbors] of graph.adjacencyList) {
+        for (const { node: to, weight } of neighbors) {
+            reverse.get(to)?.push({ node: from, weight });
+        }
+    }
+    return reverse;
+}
+
+/**
+ * One side of the search: Dijkstra from the source over outgoing edges,
+ * or from the destination over incoming edges
+ */
+interface SearchSide {
+    direction: 'forward' | 'backward';
+    adjacency: Adjacency;
+    dist: Map<number, number>;
+    parent: Map<number, number>; // toward this side's root
+    settled: Set<number>;
+    heap: MinHeap;
+}
+
+/**
+ * Bidirectional Dijkstra - meet-in-the-middle point-to-point search
+ * Time Complexity: O(m + n log n), settling roughly two half-radius balls
+ *
+ * Alternates a forward search from the source with a backward search from
+ * the destination over the reverse adjacency list. mu tracks the best
+ * dist_f(v) + dist_b(v) seen so far; once some node is settled by both
+ * sides, mu is the shortest distance. Without a destination only the
+ * forward search runs, which is plain Dijkstra.
+ */
+export function bidirectionalDijkstra(
+    graph: Graph,
+    source: number,
+    destination?: number,
+    options: RunOptions = {}
+): AlgorithmResult {
+    requireNonNegativeWeights(graph, 'Bidirectional Dijkstra');
+
+    const startTime = performance.now();
+    const recorder = new StepRecorder(options, () => operations);
+
+    const createSide = (direction: SearchSide['direction'], adjacency: Adjacency, root: number | null): SearchSide => {
+        const side: SearchSide = {
+            direction,
+            adjacency,
+            dist: new Map(),
+            parent: new Map(),
+            settled: new Set(),
+            heap: new MinHeap(),
+        };
+        for (const node of graph.nodes) {
+            side.dist.set(node.id, Infinity);
+            side.parent.set(node.id, -1);
+        }
+        if (root !== null) {
+            side.dist.set(root, 0);
+            side.heap.insert(root, 0);
+        }
+        return side;
+    };
+
+    const bidirectional = destination !== undefined && destination !== source && graph.adjacencyList.has(destination);
+    const forward = createSide('forward', graph.adjacencyList, source);
+    const backward = bidirectional
+        ? createSide('backward', reverseAdjacency(graph), destination)
+        : createSide('backward', new Map(), null);
+
+    let operations = 0;
+    let heapOps = bidirectional ? 2 : 1;
+    let relaxations = 0;
+
+    // Best connection found so far
+    let mu = Infinity;
+    let meeting = -1;
+
+    // What the visualization shows; highlighted is the node marked current
+    const view = recorder.state;
+    let highlighted: number | null = null;
+
+    const paint = (id: number) => {
+        if (id === highlighted) {
+            view.nodeStates.set(id, NodeState.CURRENT);
+        } else if (id === meeting) {
+            view.nodeStates.set(id, NodeState.MEETING);
+        } else if (forward.settled.has(id)) {
+            view.nodeStates.set(id, NodeState.FORWARD);
+        } else if (backward.settled.has(id)) {
+            view.nodeStates.set(id, NodeState.BACKWARD);
+        } else if (forward.dist.get(id) !== Infinity || backward.dist.get(id) !== Infinity) {
+            view.nodeStates.set(id, NodeState.VISITED);
+        } else {
+            view.nodeStates.set(id, NodeState.UNVISITED);
+        }
+    };
+    const focus = (u: number | null) => {
+        const previous = highlighted;
+        highlighted = u;
+        if (previous !== null) paint(previous);
+        if (u !== null) paint(u);
+        view.activeEdges.replace([]);
+    };
+
+    for (const { id } of graph.nodes) {
+        paint(id);
+        // Show each node's distance from whichever side reached it
+        const d = forward.dist.get(id)!;
+        view.distances.set(id, d !== Infinity ? d : backward.dist.get(id)!);
+        view.predecessors.set(id, -1);
+        if (forward.heap.contains(id) || backward.heap.contains(id)) view.frontier.add(id);
+    }
+
+    recorder.record('initialize', () => ({
+        description: bidirectional
+            ? `Initialize: Start a forward search from node ${source} and a backward search from node ${destination}`
+            : `Initialize: Set distance of source node ${source} to 0; without a separate destination only the forward search runs`,
+        currentNode: source,
+    }));
+
+    let side = forward;
+    while (!forward.heap.isEmpty() && (!bidirectional || !backward.heap.isEmpty())) {
+        const other = side === forward ? backward : forward;
+        const u = side.heap.extractMin()!;
+        operations++;
+        heapOps++;
+        if (!other.heap.contains(u)) view.frontier.delete(u);
+
+        if (!side.settled.has(u)) {
+            side.settled.add(u);
+            const current = side;
+            focus(u);
+
+            recorder.record('visit', () => ({
+                description: `${current.direction === 'forward' ? 'Forward' : 'Backward'} search settles node ${u} at distance ${current.dist.get(u)}`,
+                currentNode: u,
+                details: { direction: current.direction },
+            }));
+
+            // Settled from both sides: mu can no longer improve
+            if (other.settled.has(u)) {
+                const meetingNode = meeting;
+                focus(null);
+                recorder.record('meet', () => ({
+                    description: `Searches meet at node ${u}; shortest distance is ${mu}, through node ${meetingNode}`,
+                    currentNode: meetingNode,
+                }));
+                break;
+            }
+
+            for (const { node: v, weight } of side.adjacency.get(u) || []) {
+                operations++;
+                const newDist = side.dist.get(u)! + weight;
+                const oldDist = side.dist.get(v)!;
+                if (newDist >= oldDist) continue;
+
+                side.dist.set(v, newDist);
+                side.parent.set(v, u);
+                relaxations++;
+                if (side.heap.contains(v)) {
+                    side.heap.decreaseKey(v, newDist);
+                } else {
+                    side.heap.insert(v, newDist);
+                }
+                heapOps++;
+
+                const through = newDist + other.dist.get(v)!;
+                if (through < mu) {
+                    const previous = meeting;
+                    mu = through;
+                    meeting = v;
+                    if (previous !== -1) paint(previous);
+                }
+
+                // Report edges in their original direction
+                const [from, to] = side === forward ? [u, v] : [v, u];
+                paint(v);
+                const d = forward.dist.get(v)!;
+                view.distances.set(v, d !== Infinity ? d : backward.dist.get(v)!);
+                if (side === forward) view.predecessors.set(v, u);
+                view.frontier.add(v);
+                view.activeEdges.replace([`${from}-${to}`]);
+                const direction = side.direction;
+                recorder.record('relax', () => ({
+                    description: `${direction === 'forward' ? 'Forward' : 'Backward'} relax edge (${from} → ${to}): distance updated from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}`,
+                    currentNode: u,
+                    details: {
+                        distanceUpdates: [{ node: v, oldDist, newDist }],
+                        edgeRelaxed: { from, to },
+                        direction,
+                    },
+                }));
+            }
+        }
+
+        if (bidirectional) side = other;
+    }
+
+    const endTime = performance.now();
+
+    // Forward distances, completed along the path found through the meeting node
+    const distances = new Map(forward.dist);
+    const predecessors = new Map(forward.parent);
+    const shortestPath: number[] = [];
+
+    if (destination !== undefined && (bidirectional ? mu !== Infinity : (forward.dist.get(destination) ?? Infinity) !== Infinity)) {
+        const join = bidirectional ? meeting : destination;
+        for (let v = join; v !== -1; v = forward.parent.get(v)!) shortestPath.unshift(v);
+        focus(null);
+        for (let v = backward.parent.get(join) ?? -1; v !== -1; v = backward.parent.get(v)!) {
+            predecessors.set(v, shortestPath[shortestPath.length - 1]);
+            view.predecessors.set(v, shortestPath[shortestPath.length - 1]);
+            distances.set(v, mu - backward.dist.get(v)!);
+            shortestPath.push(v);
+        }
+
+        const pathDistance = distances.get(destination)!;
+        for (const node of shortestPath) {
+            if (node !== meeting) view.nodeStates.set(node, NodeState.PATH);
+        }
+        recorder.record('done', () => ({
+            description: `Shortest path found: ${shortestPath.join(' → ')} (distance: ${pathDistance}) after settling ${forward.settled.size + backward.settled.size} nodes`,
+            currentNode: null,
+        }));
+    } else {
+        focus(null);
+        recorder.record('done', () => ({
+            description: destination !== undefined
+                ? `No path exists from node ${source} to node ${destination} (settled ${forward.settled.size + backward.settled.size} nodes)`
+                : `All nodes reachable from node ${source} settled`,
+            currentNode: null,
+        }));
+    }
+
+    return {
+        distances,
+        predecessors,
+        shortestPath,
+        steps: recorder.steps,
+        trace: recorder.trace,
+        statistics: {
+            executionTime: endTime - startTime,
+            operations,
+            heapOperations: heapOps,
+            relaxations,
+            nodesProcessed: forward.settled.size + backward.settled.size,
+            complexity: 'O(m + n log n)',
+        },
+    };
+}
+
+export const bidirectionalDijkstraAlgorithm: AlgorithmDefinition<'bidirectional'> = {
+    id: 'bidirectional',
+    name: 'Bidirectional Dijkstra',
+    shortName: 'Bidirectional',
+    complexity: 'O(m + n log n)',
+    accentClass: 'text-emerald-600 dark:text-emerald-400',
+    pointToPoint: true,
+    highlights: [
+        'Searches from both ends at once',
+        'Backward search uses the reverse adjacency list',
+        'Stops when the two searches meet',
+        'Settles fewer nodes for single-pair queries',
+    ],
+    explanations: {
+        initialize: 'Starting one Dijkstra search from the source and another, over reversed edges, from the destination.',
+        visit: 'Settling the closest unsettled node of the current side; the sides take turns.',
+        relax: 'Updating a distance on the current side and checking whether it offers a shorter source-to-destination connection.',
+        meet: 'A node has been settled by both searches, so the best connection found so far is the shortest path.',
+        done: 'Path assembled from the forward half and the backward half.',
+    },
+    run: bidirectionalDijkstra,
+};
@@ -0,0 +1,274 @@
+/**
+ * Block-based partial sorting structure D from Lemma 3.3 of the paper
+ *
+ * Holds key/value pairs (vertex, tentative distance), each key at most once
+ * with its smallest value. Values live in blocks of at most M elements:
+ * - D0 holds blocks created by BatchPrepend, newest (smallest) first
+ * - D1 holds blocks created by Insert, ordered by an upper bound per block
+ *
+ * Blocks are only partially sorted: every value in one block is <= every
+ * value in the next, but the values inside a block are unordered. Splits
+ * use median selection instead of sorting, which is what keeps Insert at
+ * O(max(1, log(N/M))) and Pull at O(M) amortized.
+ *
+ * D1's block bounds are kept in a sorted array and searched with binary
+ * search, standing in for the paper's balanced binary search tree.
+ */
+
+/**
+ * Path length with a tie-break, compared lexicographically, so that
+ * distinct vertices never share a value (the paper's Assumption 2.1)
+ */
+export type PathKey = readonly [number, number];
+
+export const INFINITE_KEY: PathKey = [Infinity, 0];
+
+export function compareKeys(a: PathKey, b: PathKey): number {
+    if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+    return a[1] - b[1];
+}
+
+function minKey(a: PathKey, b: PathKey): PathKey {
+    return compareKeys(a, b) <= 0 ? a : b;
+}
+
+interface Block {
+    items: Map<number, PathKey>;
+    upperBound: PathKey; // only meaningful for D1 blocks
+    prepended: boolean; // true for D0 blocks
+}
+
+type Entry = [number, PathKey];
+
+export class BlockList {
+    private M: number;
+    private B: PathKey;
+    private d0: Block[] = []; // last element is the front of the list
+    private d1: Block[] = []; // ascending by upper bound, last bound is B
+    private blockOf = new Map<number, Block>();
+    operations = 0;
+
+    /**
+     * Initialize(M, B): an empty structure whose values are all below B
+     */
+    constructor(M: number, B: PathKey) {
+        this.M = Math.max(1, Math.floor(M));
+        this.B = B;
+        this.d1.push({ items: new Map(), upperBound: B, prepended: false });
+    }
+
+    get size(): number {
+        return this.blockOf.size;
+    }
+
+    isEmpty(): boolean {
+        return this.blockOf.size === 0;
+    }
+
+    /**
+     * Insert a key/value pair, keeping only the smaller value for a known key
+     */
+    insert(key: number, value: PathKey): void {
+        if (!this.replaceable(key, value)) return;
+
+        const index = this.findD1Block(value);
+        const block = this.d1[index];
+        block.items.set(key, value);
+        this.blockOf.set(key, block);
+        this.operations++;
+
+        if (block.items.size > this.M) {
+            this.splitD1Block(index);
+        }
+    }
+
+    /**
+     * BatchPrepend a list of pairs whose values are all smaller than
+     * every value currently stored
+     */
+    batchPrepend(entries: Entry[]): void {
+        const smallest = new Map<number, PathKey>();
+        for (const [key, value] of entries) {
+            const seen = smallest.get(key);
+            if (seen === undefined || compareKeys(value, seen) < 0) smallest.set(key, value);
+        }
+
+        const list: Entry[] = [];
+        for (const [key, value] of smallest) {
+            if (this.replaceable(key, value)) list.push([key, value]);
+        }
+        if (list.length === 0) return;
+        this.operations += list.length;
+
+        // Blocks of at most ceil(M/2) from repeated median splits, smallest first
+        const blocks = list.length <= this.M ? [list] : this.partition(list, Math.ceil(this.M / 2));
+        for (let i = blocks.length - 1; i >= 0; i--) {
+            const block: Block = { items: new Map(blocks[i]), upperBound: this.B, prepended: true };
+            for (const [key] of blocks[i]) this.blockOf.set(key, block);
+            this.d0.push(block);
+        }
+    }
+
+    /**
+     * Pull the (at most) M smallest keys, together with a bound that is
+     * <= every value left behind, or B once the structure is empty
+     */
+    pull(): { bound: PathKey; keys: number[] } {
+        const visited: Block[] = [];
+
+        // Prefix of D0 with at least M elements
+        let d0Index = this.d0.length - 1;
+        for (let count = 0; d0Index >= 0 && count < this.M; d0Index--) {
+            visited.push(this.d0[d0Index]);
+            count += this.d0[d0Index].items.size;
+        }
+
+        // Prefix of D1 with at least M elements
+        let d1Index = 0;
+        for (let count = 0; d1Index < this.d1.length && count < this.M; d1Index++) {
+            visited.push(this.d1[d1Index]);
+            count += this.d1[d1Index].items.size;
+        }
+
+        // Values outside both prefixes are no smaller than the next non-empty
+        // block's values (Insert can empty a D0 block anywhere in the list)
+        while (d0Index >= 0 && this.d0[d0Index].items.size === 0) d0Index--;
+        const following = [this.d0[d0Index], this.d1[d1Index]].filter(Boolean);
+
+        const candidates: Entry[] = [];
+        for (const block of visited) {
+            for (const entry of block.items) candidates.push(entry);
+        }
+        this.operations += candidates.length;
+
+        const take = Math.min(this.M, candidates.length);
+        if (take < candidates.length) {
+            selectSmallest(candidates, take);
+        }
+
+        const keys: number[] = [];
+        for (let i = 0; i < take; i++) {
+            keys.push(candidates[i][0]);
+            this.delete(candidates[i][0]);
+        }
+        this.dropEmptyD0Blocks();
+
+        if (this.isEmpty()) {
+            return { bound: this.B, keys };
+        }
+
+        let bound = INFINITE_KEY;
+        for (let i = take; i < candidates.length; i++) {
+            bound = minKey(bound, candidates[i][1]);
+        }
+        for (const block of following) {
+            for (const value of block.items.values()) bound = minKey(bound, value);
+        }
+        return { bound, keys };
+    }
+
+    private delete(key: number): void {
+        const block = this.blockOf.get(key);
+        if (!block) return;
+        block.items.delete(key);
+        this.blockOf.delete(key);
+
+        // Empty D1 blocks lose their bound, except the last one holding B
+        if (!block.prepended && block.items.size === 0 && block !== this.d1[this.d1.length - 1]) {
+            this.d1.splice(this.d1.indexOf(block), 1);
+        }
+    }
+
+    /**
+     * True when the key is new or its stored value is larger; the stale
+     * entry is removed so the caller can store the new value
+     */
+    private replaceable(key: number, value: PathKey): boolean {
+        const block = this.blockOf.get(key);
+        if (!block) return true;
+        if (compareKeys(block.items.get(key)!, value) <= 0) return false;
+        this.delete(key);
+        return true;
+    }
+
+    private findD1Block(value: PathKey): number {
+        let lo = 0;
+        let hi = this.d1.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (compareKeys(this.d1[mid].upperBound, value) >= 0) hi = mid;
+            else lo = mid + 1;
+        }
+        return lo;
+    }
+
+    private splitD1Block(index: number): void {
+        const block = this.d1[index];
+        const entries = Array.from(block.items);
+        const half = Math.ceil(entries.length / 2);
+        selectSmallest(entries, half);
+        this.operations += entries.length;
+
+        const lower: Block = { items: new Map(), upperBound: [-Infinity, 0], prepended: false };
+        for (let i = 0; i < half; i++) {
+            const [key, value] = entries[i];
+            block.items.delete(key);
+            lower.items.set(key, value);
+            if (compareKeys(value, lower.upperBound) > 0) lower.upperBound = value;
+            this.blockOf.set(key, lower);
+        }
+        this.d1.splice(index, 0, lower);
+    }
+
+    private dropEmptyD0Blocks(): void {
+        while (this.d0.length > 0 && this.d0[this.d0.length - 1].items.size === 0) {
+            this.d0.pop();
+        }
+    }
+
+    private partition(list: Entry[], capacity: number): Entry[][] {
+        if (list.length <= capacity) return [list];
+        const half = Math.ceil(list.length / 2);
+        selectSmallest(list, half);
+        this.operations += list.length;
+        return [
+            ...this.partition(list.slice(0, half), capacity),
+            ...this.partition(list.slice(half), capacity),
+        ];
+    }
+}
+
+/**
+ * Reorder entries in place so the first `count` hold the smallest values.
+ * Quickselect with a median-of-three pivot: expected linear time.
+ */
+function selectSmallest(entries: Entry[], count: number): void {
+    let lo = 0;
+    let hi = entries.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        const pivot = medianOfThree(entries[lo][1], entries[mid][1], entries[hi][1]);
+
+        let i = lo;
+        let j = hi;
+        while (i <= j) {
+            while (compareKeys(entries[i][1], pivot) < 0) i++;
+            while (compareKeys(entries[j][1], pivot) > 0) j--;
+            if (i <= j) {
+                [entries[i], entries[j]] = [entries[j], entries[i]];
+                i++;
+                j--;
+            }
+        }
+
+        if (count - 1 <= j) hi = j;
+        else if (count - 1 >= i) lo = i;
+        else return;
+    }
+}
+
+function medianOfThree(a: PathKey, b: PathKey, c: PathKey): PathKey {
+    if (compareKeys(a, b) > 0) [a, b] = [b, a];
+    if (compareKeys(b, c) > 0) b = c;
+    return compareKeys(a, b) > 0 ? a : b;
+}
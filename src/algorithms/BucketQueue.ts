@@ -0,0 +1,105 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
+/**
+ * Dial's Bucket Queue - monotone priority queue for integer keys
+ * With edge weights at most C, every tentative distance in Dijkstra's
+ * queue lies within C of the last extracted one, so C + 1 buckets used
+ * circularly are enough. extractMin scans forward to the next non-empty
+ * bucket: O(m + n C) over a whole run, fast when C is small. Buckets are
+ * allocated on first use, so memory stays proportional to the queued keys.
+ */
+
+// Above this the O(n C) scan dominates; createPriorityQueue refuses such graphs
+export const MAX_BUCKET_WEIGHT = 1 << 20;
+
+export class BucketQueue implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    private buckets: Map<number, Set<number>> = new Map(); // slot (key mod C + 1) -> vertices
+    private keys: Map<number, number> = new Map();
+    private current = 0;
+
+    constructor(private maxWeight: number) {
+        if (!Number.isInteger(maxWeight) || maxWeight < 1 || maxWeight > MAX_BUCKET_WEIGHT) {
+            throw new RangeError(
+                `Bucket queue needs an integer maximum weight between 1 and ${MAX_BUCKET_WEIGHT}, got ${maxWeight}`
+            );
+        }
+    }
+
+    insert(vertex: number, distance: number): void {
+        this.counters.inserts++;
+        this.checkKey(distance);
+        this.keys.set(vertex, distance);
+        this.bucketOf(distance).add(vertex);
+    }
+
+    extractMin(): number | null {
+        if (this.keys.size === 0) return null;
+        this.counters.extractMins++;
+
+        while (!this.buckets.has(this.slot(this.current))) {
+            this.counters.work++;
+            this.current++;
+        }
+
+        const bucket = this.buckets.get(this.slot(this.current))!;
+        const vertex: number = bucket.values().next().value!;
+        this.removeFromBucket(vertex, this.current);
+        this.keys.delete(vertex);
+        return vertex;
+    }
+
+    decreaseKey(vertex: number, newDistance: number): void {
+        const oldDistance = this.keys.get(vertex);
+        if (oldDistance === undefined) return;
+        this.counters.decreaseKeys++;
+        this.checkKey(newDistance);
+
+        this.removeFromBucket(vertex, oldDistance);
+        this.keys.set(vertex, newDistance);
+        this.bucketOf(newDistance).add(vertex);
+    }
+
+    contains(vertex: number): boolean {
+        return this.keys.has(vertex);
+    }
+
+    isEmpty(): boolean {
+        return this.keys.size === 0;
+    }
+
+    size(): number {
+        return this.keys.size;
+    }
+
+    private slot(key: number): number {
+        return key % (this.maxWeight + 1);
+    }
+
+    // Bucket for the key, created if missing
+    private bucketOf(key: number): Set<number> {
+        const slot = this.slot(key);
+        let bucket = this.buckets.get(slot);
+        if (!bucket) {
+            bucket = new Set();
+            this.buckets.set(slot, bucket);
+        }
+        return bucket;
+    }
+
+    // Empty buckets are dropped so extractMin can skip them by a map lookup
+    private removeFromBucket(vertex: number, key: number): void {
+        const slot = this.slot(key);
+        const bucket = this.buckets.get(slot)!;
+        bucket.delete(vertex);
+        if (bucket.size === 0) this.buckets.delete(slot);
+    }
+
+    private checkKey(key: number): void {
+        if (!Number.isInteger(key) || key < this.current || key > this.current + this.maxWeight) {
+            throw new RangeError(
+                `Bucket queue keys must be integers between ${this.current} and ${this.current + this.maxWeight}, got ${key}`
+            );
+        }
+    }
+}
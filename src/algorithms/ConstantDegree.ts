@@ -0,0 +1,61 @@
+import { Graph } from './types';
+
+/**
+ * Constant-degree transformation assumed by the paper (Section 2)
+ *
+ * Every vertex v is replaced by a zero-weight directed cycle with one copy
+ * of v per incident arc. Each original arc (u, v, w) becomes an arc of
+ * weight w from u's copy for that arc to v's copy for that arc. Every
+ * resulting vertex has in- and out-degree at most 2, the graph has O(m)
+ * vertices, and all copies of v share v's shortest-path distance.
+ */
+
+export interface ConstantDegreeGraph {
+    size: number; // number of vertices after the transformation
+    adjacency: Array<Array<{ node: number; weight: number }>>;
+    owner: number[]; // original node id of each vertex
+    representative: Map<number, number>; // original node id -> one of its copies
+}
+
+export function toConstantDegree(graph: Graph): ConstantDegreeGraph {
+    const owner: number[] = [];
+    const adjacency: Array<Array<{ node: number; weight: number }>> = [];
+    const ports = new Map<number, number[]>();
+
+    const addVertex = (originalId: number): number => {
+        const id = owner.length;
+        owner.push(originalId);
+        adjacency.push([]);
+        ports.get(originalId)!.push(id);
+        return id;
+    };
+
+    for (const node of graph.nodes) {
+        ports.set(node.id, []);
+    }
+
+    // One copy at each endpoint of every arc, joined by the arc itself
+    for (const node of graph.nodes) {
+        for (const { node: to, weight } of graph.adjacencyList.get(node.id) || []) {
+            if (to === node.id || !ports.has(to)) continue; // self-loops never shorten a path
+            const outCopy = addVertex(node.id);
+            const inCopy = addVertex(to);
+            adjacency[outCopy].push({ node: inCopy, weight });
+        }
+    }
+
+    // Close each vertex's copies into a zero-weight cycle
+    const representative = new Map<number, number>();
+    for (const node of graph.nodes) {
+        const copies = ports.get(node.id)!;
+        if (copies.length === 0) {
+            addVertex(node.id); // isolated vertex keeps a single copy
+        }
+        for (let i = 0; i < copies.length && copies.length > 1; i++) {
+            adjacency[copies[i]].push({ node: copies[(i + 1) % copies.length], weight: 0 });
+        }
+        representative.set(node.id, copies[0]);
+    }
+
+    return { size: owner.length, adjacency, owner, representative };
+}
@@ -0,0 +1,59 @@
+import { Graph } from './types';
+
+/**
+ * Compressed sparse row (CSR) form of a Graph
+ *
+ * Vertices are dense positions 0..n-1, since node ids have gaps once nodes
+ * are removed. The arcs leaving position u are targets[e] / weights[e] for
+ * offsets[u] <= e < offsets[u + 1], in adjacency-list order. Typed arrays
+ * keep million-edge graphs to a few flat buffers instead of an object per arc.
+ */
+export interface CsrGraph {
+    ids: number[]; // position -> node id
+    indexOf: Map<number, number>; // node id -> position
+    offsets: Int32Array; // length n + 1
+    targets: Int32Array; // target positions, length m
+    weights: Float64Array; // length m
+}
+
+// Plain graphs are never edited (GraphClass.toGraph hands out copies), so each one is converted at most once
+const cache = new WeakMap<Graph, CsrGraph>();
+
+/**
+ * CSR form of the graph, cached per Graph object. Arcs to nodes that are
+ * not in graph.nodes are dropped.
+ */
+export function toCsr(graph: Graph): CsrGraph {
+    const cached = cache.get(graph);
+    if (cached) return cached;
+
+    const ids = graph.nodes.map(node => node.id);
+    const indexOf = new Map(ids.map((id, i) => [id, i]));
+    const n = ids.length;
+
+    const offsets = new Int32Array(n + 1);
+    for (let u = 0; u < n; u++) {
+        let degree = 0;
+        for (const { node } of graph.adjacencyList.get(ids[u]) || []) {
+            if (indexOf.has(node)) degree++;
+        }
+        offsets[u + 1] = offsets[u] + degree;
+    }
+
+    const targets = new Int32Array(offsets[n]);
+    const weights = new Float64Array(offsets[n]);
+    for (let u = 0; u < n; u++) {
+        let e = offsets[u];
+        for (const { node, weight } of graph.adjacencyList.get(ids[u]) || []) {
+            const v = indexOf.get(node);
+            if (v === undefined) continue;
+            targets[e] = v;
+            weights[e] = weight;
+            e++;
+        }
+    }
+
+    const csr = { ids, indexOf, offsets, targets, weights };
+    cache.set(graph, csr);
+    return csr;
+}
@@ -0,0 +1,111 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
+/**
+ * d-ary Heap - a binary heap generalized to d children per node
+ * Insert and decreaseKey take O(log_d n), extractMin O(d log_d n).
+ * Dijkstra does many more decrease-keys than extract-mins on dense
+ * graphs, so a shallower heap (d = 4 or more) often does less work.
+ */
+
+interface HeapNode {
+    vertex: number;
+    distance: number;
+}
+
+export class DaryHeap implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    private heap: HeapNode[] = [];
+    private positions: Map<number, number> = new Map();
+
+    constructor(private arity: number = 4) {
+        if (!Number.isInteger(arity) || arity < 2) {
+            throw new RangeError(`Heap arity must be an integer of at least 2, got ${arity}`);
+        }
+    }
+
+    insert(vertex: number, distance: number): void {
+        this.counters.inserts++;
+        this.heap.push({ vertex, distance });
+        this.positions.set(vertex, this.heap.length - 1);
+        this.bubbleUp(this.heap.length - 1);
+    }
+
+    extractMin(): number | null {
+        if (this.heap.length === 0) return null;
+        this.counters.extractMins++;
+
+        const min = this.heap[0].vertex;
+        const last = this.heap.pop()!;
+        this.positions.delete(min);
+
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+            this.positions.set(last.vertex, 0);
+            this.bubbleDown(0);
+        }
+
+        return min;
+    }
+
+    decreaseKey(vertex: number, newDistance: number): void {
+        const idx = this.positions.get(vertex);
+        if (idx !== undefined) {
+            this.counters.decreaseKeys++;
+            this.heap[idx].distance = newDistance;
+            this.bubbleUp(idx);
+        }
+    }
+
+    contains(vertex: number): boolean {
+        return this.positions.has(vertex);
+    }
+
+    isEmpty(): boolean {
+        return this.heap.length === 0;
+    }
+
+    size(): number {
+        return this.heap.length;
+    }
+
+    private bubbleUp(idx: number): void {
+        while (idx > 0) {
+            const parent = Math.floor((idx - 1) / this.arity);
+            if (!this.less(idx, parent)) break;
+
+            this.swap(idx, parent);
+            idx = parent;
+        }
+    }
+
+    private bubbleDown(idx: number): void {
+        while (true) {
+            const first = this.arity * idx + 1;
+            const end = Math.min(first + this.arity, this.heap.length);
+            let smallest = idx;
+
+            for (let child = first; child < end; child++) {
+                if (this.less(child, smallest)) smallest = child;
+            }
+
+            if (smallest === idx) break;
+
+            this.swap(idx, smallest);
+            idx = smallest;
+        }
+    }
+
+    private less(i: number, j: number): boolean {
+        this.counters.work++;
+        return this.heap[i].distance < this.heap[j].distance;
+    }
+
+    private swap(i: number, j: number): void {
+        const temp = this.heap[i];
+        this.heap[i] = this.heap[j];
+        this.heap[j] = temp;
+
+        this.positions.set(this.heap[i].vertex, i);
+        this.positions.set(this.heap[j].vertex, j);
+    }
+}
@@ -1,72 +1,81 @@
-import { Graph, AlgorithmResult, AlgorithmStep, VisualizationState, NodeState } from './types';
-import { MinHeap } from './MinHeap';
+import { Graph, AlgorithmResult, AlgorithmDefinition, NodeState, RunOptions, PriorityQueueType } from './types';
+import { createPriorityQueue, PRIORITY_QUEUES } from './PriorityQueue';
+import { StepRecorder } from './StepRecorder';
+import { requireNonNegativeWeights } from './Graph';
+import { toCsr } from './CsrGraph';
 
 /**
  * Dijkstra's Algorithm - Traditional approach
  * Time Complexity: O(m + n log n) with binary heap
  * 
  * Returns step-by-step execution for visualization
+ * (options.recording controls how many steps are kept).
+ * options.priorityQueue picks the queue; its operation counts are reported
+ * in the statistics. Throws a NegativeWeightError on graphs with negative
+ * edges, and an UnsupportedGraphError if the queue cannot handle the weights.
+ * With recording off it runs on the graph's CSR form (see dijkstraCsr).
  */
 export function dijkstra(
     graph: Graph,
     source: number,
-    destination?: number
+    destination?: number,
+    options: RunOptions = {}
 ): AlgorithmResult {
+    requireNonNegativeWeights(graph, "Dijkstra's algorithm");
+    if (options.recording === 'none') return dijkstraCsr(graph, source, destination, options);
+
     const startTime = performance.now();
-    const n = graph.nodes.length;
-    const steps: AlgorithmStep[] = [];
+    const recorder = new StepRecorder(options, () => operations);
 
     // Initialize
     const dist = new Map<number, number>();
     const visited = new Map<number, boolean>();
     const pred = new Map<number, number>();
-    const heap = new MinHeap();
+    const queueType = options.priorityQueue ?? 'binary';
+    const heap = createPriorityQueue(queueType, graph, options.heapArity, options.checkHeapInvariants);
 
     let operations = 0;
-    let heapOps = 0;
     let relaxations = 0;
 
+    // What the visualization shows; highlighted is the node marked current or complete
+    const view = recorder.state;
+    let highlighted: number | null = null;
+
     // Initialize distances
     for (const node of graph.nodes) {
         dist.set(node.id, Infinity);
         visited.set(node.id, false);
         pred.set(node.id, -1);
+        view.nodeStates.set(node.id, NodeState.UNVISITED);
+        view.distances.set(node.id, Infinity);
+        view.predecessors.set(node.id, -1);
     }
 
     dist.set(source, 0);
+    view.distances.set(source, 0);
     heap.insert(source, 0);
-    heapOps++;
 
     // Initial step
-    const initialState = createVisState(dist, pred, visited, new Set(), new Set(), new Set());
-    steps.push({
-        stepNumber: 0,
+    recorder.record('initialize', () => ({
         description: `Initialize: Set distance of source node ${source} to 0, all others to ∞`,
         currentNode: source,
-        action: 'initialize',
-        visualState: initialState,
-    });
-
-    let stepNum = 1;
+    }));
 
     while (!heap.isEmpty()) {
         const u = heap.extractMin()!;
         operations++;
-        heapOps++;
 
         if (visited.get(u)) continue;
         visited.set(u, true);
+        if (highlighted !== null) view.nodeStates.set(highlighted, NodeState.VISITED);
+        view.nodeStates.set(u, NodeState.CURRENT);
+        highlighted = u;
 
         // Log visit step
-        const activeEdges = new Set<string>();
-        const currentState = createVisState(dist, pred, visited, activeEdges, new Set([u]), new Set());
-        steps.push({
-            stepNumber: stepNum++,
+        recorder.record('visit', () => ({
             description: `Visit node ${u} with distance ${dist.get(u)}`,
             currentNode: u,
-            action: 'visit',
-            visualState: currentState,
-        });
+        }));
 
         // Early termination if destination reached
         if (destination !== undefined && u === destination) {
@@ -87,123 +96,222 @@ export function dijkstra(
 
                 if (heap.contains(v)) {
                     heap.decreaseKey(v, newDist);
-                    heapOps++;
                 } else if (!visited.get(v)) {
                     heap.insert(v, newDist);
-                    heapOps++;
                 }
 
+                view.distances.set(v, newDist);
+                view.predecessors.set(v, u);
+                view.activeEdges.replace([`${u}-${v}`]);
+
                 // Log relaxation step
-                const relaxEdges = new Set<string>([`${u}-${v}`]);
-                const relaxState = createVisState(dist, pred, visited, relaxEdges, new Set([u]), new Set());
-                steps.push({
-                    stepNumber: stepNum++,
+                recorder.record('relax', () => ({
                     description: `Relax edge (${u} → ${v}): distance updated from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}`,
                     currentNode: u,
-                    action: 'relax',
-                    visualState: relaxState,
                     details: {
                         distanceUpdates: [{ node: v, oldDist, newDist }],
                         edgeRelaxed: { from: u, to: v },
                     },
-                });
+                }));
             }
         }
 
         // Mark complete
-        const completeState = createVisState(dist, pred, visited, new Set(), new Set(), new Set([u]));
-        completeState.nodeStates.set(u, NodeState.COMPLETE);
-        steps.push({
-            stepNumber: stepNum++,
+        view.activeEdges.replace([]);
+        view.nodeStates.set(u, NodeState.COMPLETE);
+        recorder.record('complete', () => ({
             description: `Node ${u} completed - final distance is ${dist.get(u)}`,
             currentNode: u,
-            action: 'complete',
-            visualState: completeState,
-        });
+        }));
     }
 
     const endTime = performance.now();
+    const { inserts, extractMins, decreaseKeys, work } = heap.counters;
 
     // Build shortest path
     const shortestPath: number[] = [];
-    if (destination !== undefined && dist.get(destination) !== Infinity) {
+    if (destination !== undefined && (dist.get(destination) ?? Infinity) !== Infinity) {
         let current = destination;
         while (current !== -1) {
             shortestPath.unshift(current);
-            current = pred.get(current)!;
+            current = pred.get(current) ?? -1;
         }
     }
 
-    // Mark path in final state
+    // Mark path in final state; the run always ends on a done step
     if (shortestPath.length > 0) {
-        const finalState = cloneVisState(steps[steps.length - 1].visualState);
+        if (highlighted !== null) view.nodeStates.set(highlighted, NodeState.VISITED);
+        view.activeEdges.replace([]);
         for (const node of shortestPath) {
-            finalState.nodeStates.set(node, NodeState.PATH);
+            view.nodeStates.set(node, NodeState.PATH);
         }
-        steps.push({
-            stepNumber: stepNum++,
+        recorder.record('done', () => ({
             description: `Shortest path found: ${shortestPath.join(' → ')} (distance: ${dist.get(destination!)})`,
             currentNode: null,
-            action: 'done',
-            visualState: finalState,
-        });
+        }));
+    } else {
+        recorder.record('done', () => ({
+            description: destination !== undefined
+                ? `No path exists from node ${source} to node ${destination}`
+                : `All nodes reachable from node ${source} settled`,
+            currentNode: null,
+        }));
     }
 
     return {
         distances: dist,
         predecessors: pred,
         shortestPath,
-        steps,
+        steps: recorder.steps,
+        trace: recorder.trace,
         statistics: {
             executionTime: endTime - startTime,
             operations,
-            heapOperations: heapOps,
+            heapOperations: inserts + extractMins + decreaseKeys,
             relaxations,
             nodesProcessed: Array.from(visited.values()).filter(v => v).length,
             complexity: 'O(m + n log n)',
+            priorityQueue: queueName(queueType, options.heapArity),
+            queueInserts: inserts,
+            queueExtracts: extractMins,
+            queueDecreaseKeys: decreaseKeys,
+            queueWork: work,
         },
     };
 }
 
-function createVisState(
-    dist: Map<number, number>,
-    pred: Map<number, number>,
-    visited: Map<number, boolean>,
-    activeEdges: Set<string>,
-    current: Set<number>,
-    complete: Set<number>
-): VisualizationState {
-    const nodeStates = new Map<number, NodeState>();
-
-    for (const [node, isVisited] of visited.entries()) {
-        if (complete.has(node)) {
-            nodeStates.set(node, NodeState.COMPLETE);
-        } else if (current.has(node)) {
-            nodeStates.set(node, NodeState.CURRENT);
-        } else if (isVisited) {
-            nodeStates.set(node, NodeState.VISITED);
-        } else {
-            nodeStates.set(node, NodeState.UNVISITED);
+/**
+ * Headless fast path: the same loop over CSR positions with typed arrays,
+ * for benchmarking large graphs. Results and statistics match the recorded
+ * path; on sparse ids, ties may break differently.
+ */
+function dijkstraCsr(
+    graph: Graph,
+    source: number,
+    destination: number | undefined,
+    options: RunOptions
+): AlgorithmResult {
+    const startTime = performance.now();
+    const recorder = new StepRecorder(options);
+    const { ids, indexOf, offsets, targets, weights } = toCsr(graph);
+    const n = ids.length;
+
+    const dist = new Float64Array(n).fill(Infinity);
+    const pred = new Int32Array(n).fill(-1);
+    const visited = new Uint8Array(n);
+    const queueType = options.priorityQueue ?? 'binary';
+    const heap = createPriorityQueue(queueType, graph, options.heapArity, options.checkHeapInvariants);
+
+    let operations = 0;
+    let relaxations = 0;
+    let nodesProcessed = 0;
+
+    const s = indexOf.get(source);
+    const t = destination !== undefined ? indexOf.get(destination) : undefined;
+    if (s !== undefined) {
+        dist[s] = 0;
+        heap.insert(s, 0);
+    }
+
+    while (!heap.isEmpty()) {
+        const u = heap.extractMin()!;
+        operations++;
+
+        if (visited[u]) continue;
+        visited[u] = 1;
+        nodesProcessed++;
+
+        if (u === t) break;
+
+        for (let e = offsets[u]; e < offsets[u + 1]; e++) {
+            operations++;
+            const v = targets[e];
+            const newDist = dist[u] + weights[e];
+
+            if (newDist < dist[v]) {
+                dist[v] = newDist;
+                pred[v] = u;
+                relaxations++;
+
+                if (heap.contains(v)) {
+                    heap.decreaseKey(v, newDist);
+                } else if (!visited[v]) {
+                    heap.insert(v, newDist);
+                }
+            }
+        }
+    }
+
+    const endTime = performance.now();
+    const { inserts, extractMins, decreaseKeys, work } = heap.counters;
+
+    const shortestPath: number[] = [];
+    if (t !== undefined && dist[t] !== Infinity) {
+        for (let current = t; current !== -1; current = pred[current]) {
+            shortestPath.unshift(ids[current]);
         }
     }
 
+    const distances = new Map<number, number>();
+    const predecessors = new Map<number, number>();
+    for (let i = 0; i < n; i++) {
+        distances.set(ids[i], dist[i]);
+        predecessors.set(ids[i], pred[i] === -1 ? -1 : ids[pred[i]]);
+    }
+
     return {
-        nodeStates,
-        distances: new Map(dist),
-        predecessors: new Map(pred),
-        activeEdges: new Set(activeEdges),
-        pivots: new Set(),
-        frontier: new Set(),
+        distances,
+        predecessors,
+        shortestPath,
+        steps: recorder.steps,
+        trace: recorder.trace,
+        statistics: {
+            executionTime: endTime - startTime,
+            operations,
+            heapOperations: inserts + extractMins + decreaseKeys,
+            relaxations,
+            nodesProcessed,
+            complexity: 'O(m + n log n)',
+            priorityQueue: queueName(queueType, options.heapArity),
+            queueInserts: inserts,
+            queueExtracts: extractMins,
+            queueDecreaseKeys: decreaseKeys,
+            queueWork: work,
+        },
     };
 }
 
-function cloneVisState(state: VisualizationState): VisualizationState {
-    return {
-        nodeStates: new Map(state.nodeStates),
-        distances: new Map(state.distances),
-        predecessors: new Map(state.predecessors),
-        activeEdges: new Set(state.activeEdges),
-        pivots: new Set(state.pivots),
-        frontier: new Set(state.frontier),
-    };
+function queueName(type: PriorityQueueType, arity: number = 4): string {
+    const name = PRIORITY_QUEUES.find(queue => queue.id === type)!.name;
+    return type === 'd-ary' ? name.replace('d-ary', `${arity}-ary`) : name;
 }
+
+export const dijkstraAlgorithm: AlgorithmDefinition<'dijkstra'> = {
+    id: 'dijkstra',
+    name: "Dijkstra's Algorithm",
+    shortName: 'Dijkstra',
+    complexity: 'O(m + n log n)',
+    accentClass: 'text-blue-600 dark:text-blue-400',
+    pointToPoint: true,
+    highlights: [
+        'Uses priority queue (min-heap)',
+        'Processes vertices by distance',
+        'Complexity: O(m + n log n)',
+        'Classic, well-established approach',
+    ],
+    explanations: {
+        initialize: 'Setting up initial distances and priority queue.',
+        visit: 'Visiting the node with minimum distance from the priority queue.',
+        relax: 'Updating neighbor distances if a shorter path is found.',
+        complete: 'Node processing complete, final distance determined.',
+        done: 'All reachable nodes have been processed.',
+    },
+    parameters: stats => [
+        { label: 'Priority queue', value: stats.priorityQueue },
+        { label: 'Inserts', value: stats.queueInserts },
+        { label: 'Extract-min', value: stats.queueExtracts },
+        { label: 'Decrease-key', value: stats.queueDecreaseKeys },
+        { label: 'Queue work', value: stats.queueWork },
+    ],
+    run: dijkstra,
+};
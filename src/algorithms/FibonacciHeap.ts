@@ -0,0 +1,181 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
+/**
+ * Fibonacci Heap - lazy collection of heap-ordered trees
+ * Insert and decreaseKey are O(1) amortized, extractMin O(log n) amortized,
+ * which gives Dijkstra its textbook O(m + n log n) bound. Trees are only
+ * consolidated by degree during extractMin; decreaseKey cuts a node to the
+ * root list and cascades cuts up through marked ancestors.
+ */
+
+interface FibonacciNode {
+    vertex: number;
+    distance: number;
+    parent: FibonacciNode | null;
+    child: FibonacciNode | null;
+    left: FibonacciNode; // circular doubly linked sibling list
+    right: FibonacciNode;
+    degree: number;
+    marked: boolean;
+}
+
+export class FibonacciHeap implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    private min: FibonacciNode | null = null;
+    private nodes: Map<number, FibonacciNode> = new Map();
+
+    insert(vertex: number, distance: number): void {
+        this.counters.inserts++;
+        // addRoot links left and right
+        const node = { vertex, distance, parent: null, child: null, degree: 0, marked: false } as FibonacciNode;
+        this.nodes.set(vertex, node);
+        this.addRoot(node);
+    }
+
+    extractMin(): number | null {
+        const z = this.min;
+        if (!z) return null;
+        this.counters.extractMins++;
+
+        // Promote the children to roots
+        for (const child of siblings(z.child)) {
+            child.parent = null;
+            child.marked = false;
+            splice(z, child);
+        }
+        z.child = null;
+
+        const next = z.right === z ? null : z.right;
+        unlink(z);
+        this.nodes.delete(z.vertex);
+        this.min = next;
+        if (next) this.consolidate();
+        return z.vertex;
+    }
+
+    decreaseKey(vertex: number, newDistance: number): void {
+        const node = this.nodes.get(vertex);
+        if (!node) return;
+        this.counters.decreaseKeys++;
+        node.distance = newDistance;
+
+        const parent = node.parent;
+        this.counters.work++;
+        if (parent && node.distance < parent.distance) {
+            this.cut(node, parent);
+            this.cascadingCut(parent);
+        }
+        this.counters.work++;
+        if (node.distance < this.min!.distance) this.min = node;
+    }
+
+    contains(vertex: number): boolean {
+        return this.nodes.has(vertex);
+    }
+
+    isEmpty(): boolean {
+        return this.min === null;
+    }
+
+    size(): number {
+        return this.nodes.size;
+    }
+
+    private addRoot(node: FibonacciNode): void {
+        if (!this.min) {
+            node.left = node;
+            node.right = node;
+            this.min = node;
+            return;
+        }
+        splice(this.min, node);
+        this.counters.work++;
+        if (node.distance < this.min.distance) this.min = node;
+    }
+
+    // Link roots of equal degree until every degree appears once
+    private consolidate(): void {
+        const byDegree: Array<FibonacciNode | undefined> = [];
+
+        for (const root of siblings(this.min)) {
+            let x = root;
+            let degree = x.degree;
+            while (byDegree[degree]) {
+                let y = byDegree[degree]!;
+                this.counters.work++;
+                if (y.distance < x.distance) [x, y] = [y, x];
+                this.link(y, x);
+                byDegree[degree] = undefined;
+                degree++;
+            }
+            byDegree[degree] = x;
+        }
+
+        this.min = null;
+        for (const root of byDegree) {
+            if (!root) continue;
+            unlink(root);
+            this.addRoot(root);
+        }
+    }
+
+    // Make root y a child of root x
+    private link(y: FibonacciNode, x: FibonacciNode): void {
+        unlink(y);
+        y.parent = x;
+        y.marked = false;
+        if (x.child) {
+            splice(x.child, y);
+        } else {
+            x.child = y;
+        }
+        x.degree++;
+    }
+
+    private cut(node: FibonacciNode, parent: FibonacciNode): void {
+        if (parent.child === node) parent.child = node.right === node ? null : node.right;
+        unlink(node);
+        parent.degree--;
+        node.parent = null;
+        node.marked = false;
+        splice(this.min!, node);
+    }
+
+    private cascadingCut(node: FibonacciNode): void {
+        for (let parent = node.parent; parent; node = parent, parent = node.parent) {
+            if (!node.marked) {
+                node.marked = true;
+                return;
+            }
+            this.cut(node, parent);
+        }
+    }
+}
+
+// Snapshot of a circular sibling list, safe to iterate while relinking
+function siblings(start: FibonacciNode | null): FibonacciNode[] {
+    const list: FibonacciNode[] = [];
+    if (!start) return list;
+    let node = start;
+    do {
+        list.push(node);
+        node = node.right;
+    } while (node !== start);
+    return list;
+}
+
+// Insert node to the right of anchor
+function splice(anchor: FibonacciNode, node: FibonacciNode): void {
+    node.left = anchor;
+    node.right = anchor.right;
+    anchor.right.left = node;
+    anchor.right = node;
+}
+
+// Remove node from its sibling list, leaving it a singleton
+function unlink(node: FibonacciNode): void {
+    node.left.right = node.right;
+    node.right.left = node.left;
+    node.left = node;
+    node.right = node;
+}
@@ -0,0 +1,368 @@
+import { GraphClass } from './Graph';
+import { createRng, randomSeed, Rng } from './Random';
+
+/**
+ * Parameterised graph families for the graph selector
+ *
+ * Each family targets a case where Dijkstra and the new SSSP algorithm
+ * behave differently: degree skew, geometric weights, long hop paths,
+ * constant degree and decrease-key heavy inputs. Every generator is
+ * seeded, and places the natural source at the first node and a far
+ * destination at the last, so a fresh graph is ready to run.
+ */
+
+export type GraphGeneratorId =
+    | 'gnm'
+    | 'barabasi-albert'
+    | 'geometric'
+    | 'dag'
+    | 'regular'
+    | 'chain'
+    | 'decrease-key';
+
+export type GeneratorParams = Record<string, number>;
+
+export interface GeneratorParameter {
+    id: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    defaultValue: number;
+}
+
+export interface GraphGeneratorDefinition {
+    id: GraphGeneratorId;
+    name: string;
+    description: string;
+    parameters: GeneratorParameter[];
+    generate(params: GeneratorParams, seed?: number, width?: number, height?: number): GraphClass;
+}
+
+const MAX_WEIGHT = 20;
+const PADDING = 60;
+
+function randomWeight(rng: Rng): number {
+    return Math.floor(rng() * MAX_WEIGHT) + 1;
+}
+
+function pickInt(rng: Rng, n: number): number {
+    return Math.floor(rng() * n);
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = pickInt(rng, i + 1);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
+
+function addCircle(graph: GraphClass, n: number, width: number, height: number) {
+    const radius = Math.min(width, height) * 0.4;
+    for (let i = 0; i < n; i++) {
+        const angle = (2 * Math.PI * i) / n;
+        graph.addNode(width / 2 + radius * Math.cos(angle), height / 2 + radius * Math.sin(angle), `${i}`);
+    }
+}
+
+/**
+ * Lay nodes out row by row, reversing every other row, so consecutive
+ * ids stay next to each other
+ */
+function addSnake(graph: GraphClass, n: number, width: number, height: number) {
+    const cols = Math.max(1, Math.ceil(Math.sqrt((n * (width - 2 * PADDING)) / (height - 2 * PADDING))));
+    const rows = Math.ceil(n / cols);
+    const dx = cols > 1 ? (width - 2 * PADDING) / (cols - 1) : 0;
+    const dy = rows > 1 ? (height - 2 * PADDING) / (rows - 1) : 0;
+    for (let i = 0; i < n; i++) {
+        const row = Math.floor(i / cols);
+        const col = row % 2 === 0 ? i % cols : cols - 1 - (i % cols);
+        graph.addNode(PADDING + col * dx, PADDING + row * dy, `${i}`);
+    }
+}
+
+/**
+ * Erdős–Rényi G(n, m): m distinct arcs chosen uniformly at random
+ */
+export function generateGnmGraph(
+    n: number,
+    m: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass();
+    const rng = createRng(seed);
+    addCircle(graph, n, width, height);
+
+    const target = Math.min(m, n * (n - 1));
+    while (graph.edges.length < target) {
+        const from = pickInt(rng, n);
+        const to = pickInt(rng, n);
+        if (from !== to && !graph.getEdge(from, to)) {
+            graph.addEdge(from, to, randomWeight(rng));
+        }
+    }
+    return graph;
+}
+
+/**
+ * Barabási–Albert scale-free graph: starts from a clique on k + 1 nodes,
+ * then each new node links to k distinct nodes chosen in proportion to
+ * their degree, which grows a few high-degree hubs
+ */
+export function generateBarabasiAlbertGraph(
+    n: number,
+    k: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass({ directed: false });
+    const rng = createRng(seed);
+    addCircle(graph, n, width, height);
+
+    // Each node appears once per incident edge, so a uniform pick is degree-proportional
+    const endpoints: number[] = [];
+    const core = Math.min(k + 1, n);
+    for (let u = 0; u < core; u++) {
+        for (let v = u + 1; v < core; v++) {
+            graph.addEdge(u, v, randomWeight(rng));
+            endpoints.push(u, v);
+        }
+    }
+
+    for (let v = core; v < n; v++) {
+        const targets = new Set<number>();
+        while (targets.size < Math.min(k, v)) {
+            targets.add(endpoints.length > 0 ? endpoints[pickInt(rng, endpoints.length)] : pickInt(rng, v));
+        }
+        for (const u of targets) {
+            graph.addEdge(v, u, randomWeight(rng));
+            endpoints.push(u, v);
+        }
+    }
+    return graph;
+}
+
+/**
+ * Random geometric graph: nodes scattered over the canvas, joined when
+ * they are within radius (a fraction of the shorter side) of each other.
+ * Each weight is the edge's Euclidean length in pixels, rounded.
+ */
+export function generateGeometricGraph(
+    n: number,
+    radius: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass({ directed: false });
+    const rng = createRng(seed);
+    for (let i = 0; i < n; i++) {
+        const x = PADDING + rng() * (width - 2 * PADDING);
+        const y = PADDING + rng() * (height - 2 * PADDING);
+        graph.addNode(x, y, `${i}`);
+    }
+
+    const reach = radius * Math.min(width, height);
+    for (let u = 0; u < n; u++) {
+        for (let v = u + 1; v < n; v++) {
+            const a = graph.nodes[u];
+            const b = graph.nodes[v];
+            const length = Math.hypot(a.x - b.x, a.y - b.y);
+            if (length <= reach) graph.addEdge(u, v, Math.max(1, Math.round(length)));
+        }
+    }
+    return graph;
+}
+
+/**
+ * Random DAG: every arc goes from a lower id to a higher one, present
+ * with the given probability. Nodes are laid out left to right in id
+ * order, which is a topological order.
+ */
+export function generateDagGraph(
+    n: number,
+    probability: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass();
+    const rng = createRng(seed);
+    const dx = n > 1 ? (width - 2 * PADDING) / (n - 1) : 0;
+    for (let i = 0; i < n; i++) {
+        graph.addNode(PADDING + i * dx, PADDING + rng() * (height - 2 * PADDING), `${i}`);
+    }
+
+    for (let u = 0; u < n; u++) {
+        for (let v = u + 1; v < n; v++) {
+            if (rng() < probability) graph.addEdge(u, v, randomWeight(rng));
+        }
+    }
+    return graph;
+}
+
+/**
+ * Random k-regular digraph, the constant-degree input the paper assumes:
+ * the union of k random permutations, so every node has out-degree and
+ * in-degree k. Self-loops and repeated arcs are repaired by swapping
+ * targets; a node falls short of k only when no swap can fix it.
+ */
+export function generateRegularGraph(
+    n: number,
+    k: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass();
+    const rng = createRng(seed);
+    addCircle(graph, n, width, height);
+
+    const fits = (from: number, to: number) => from !== to && !graph.getEdge(from, to);
+    for (let round = 0; round < Math.min(k, n - 1); round++) {
+        const target = shuffle(Array.from({ length: n }, (_, i) => i), rng);
+        for (let v = 0; v < n; v++) {
+            for (let attempt = 0; attempt < 4 * n && !fits(v, target[v]); attempt++) {
+                const u = pickInt(rng, n);
+                if (fits(v, target[u]) && fits(u, target[v])) {
+                    [target[u], target[v]] = [target[v], target[u]];
+                }
+            }
+        }
+        for (let v = 0; v < n; v++) {
+            if (fits(v, target[v])) graph.addEdge(v, target[v], randomWeight(rng));
+        }
+    }
+    return graph;
+}
+
+/**
+ * Long chain 0 → 1 → … → n-1 with forward shortcuts that are always a
+ * little longer than the chain they skip, so every shortest path takes
+ * the maximum number of hops
+ */
+export function generateChainGraph(
+    n: number,
+    shortcuts: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass();
+    const rng = createRng(seed);
+    addSnake(graph, n, width, height);
+
+    // prefix[i] is the chain distance from node 0 to node i
+    const prefix = [0];
+    for (let i = 0; i + 1 < n; i++) {
+        const weight = randomWeight(rng);
+        graph.addEdge(i, i + 1, weight);
+        prefix.push(prefix[i] + weight);
+    }
+
+    for (let s = 0; s < shortcuts && n > 2; s++) {
+        const from = pickInt(rng, n - 2);
+        const to = from + 2 + pickInt(rng, n - from - 2);
+        if (!graph.getEdge(from, to)) {
+            graph.addEdge(from, to, prefix[to] - prefix[from] + 1 + pickInt(rng, 5));
+        }
+    }
+    return graph;
+}
+
+/**
+ * Worst case for decrease-key: a chain u_0 → … → u_{k-1} of weight-1 arcs,
+ * and an arc from every u_j to each of t targets, weighted so the path
+ * through u_j always beats the one through u_{j-1}. Dijkstra settles the
+ * chain first and lowers every target's key once per chain node,
+ * (k - 1) · t decrease-keys in all.
+ */
+export function generateDecreaseKeyGraph(
+    k: number,
+    t: number,
+    width: number = 800,
+    height: number = 600,
+    seed: number = randomSeed()
+): GraphClass {
+    const graph = new GraphClass();
+    const rng = createRng(seed);
+    const chainStep = k > 1 ? (height - 2 * PADDING) / (k - 1) : 0;
+    const targetStep = t > 1 ? (height - 2 * PADDING) / (t - 1) : 0;
+    for (let j = 0; j < k; j++) graph.addNode(PADDING + width * 0.15, PADDING + j * chainStep, `${j}`);
+    for (let i = 0; i < t; i++) graph.addNode(width - PADDING - width * 0.15, PADDING + i * targetStep, `${k + i}`);
+
+    // Via u_j a target is reached at j + 2(k - j) + offset = 2k - j + offset
+    const offsets = Array.from({ length: t }, () => 1 + pickInt(rng, 10));
+    for (let j = 0; j < k; j++) {
+        if (j + 1 < k) graph.addEdge(j, j + 1, 1);
+        for (let i = 0; i < t; i++) graph.addEdge(j, k + i, 2 * (k - j) + offsets[i]);
+    }
+    return graph;
+}
+
+function parameter(id: string, label: string, min: number, max: number, step: number, defaultValue: number): GeneratorParameter {
+    return { id, label, min, max, step, defaultValue };
+}
+
+export const GRAPH_GENERATORS: GraphGeneratorDefinition[] = [
+    {
+        id: 'gnm',
+        name: 'Erdős–Rényi G(n, m)',
+        description: 'm arcs between uniformly random node pairs',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 20), parameter('m', 'Edges', 5, 500, 5, 50)],
+        generate: (p, seed, width, height) => generateGnmGraph(p.n, p.m, width, height, seed),
+    },
+    {
+        id: 'barabasi-albert',
+        name: 'Barabási–Albert',
+        description: 'Scale-free: new nodes attach to high-degree hubs',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 30), parameter('k', 'Links per node', 1, 5, 1, 2)],
+        generate: (p, seed, width, height) => generateBarabasiAlbertGraph(p.n, p.k, width, height, seed),
+    },
+    {
+        id: 'geometric',
+        name: 'Random geometric',
+        description: 'Nearby points joined, weighted by Euclidean length',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 30), parameter('radius', 'Radius', 0.1, 0.6, 0.05, 0.25)],
+        generate: (p, seed, width, height) => generateGeometricGraph(p.n, p.radius, width, height, seed),
+    },
+    {
+        id: 'dag',
+        name: 'Random DAG',
+        description: 'Arcs only point forward in a topological order',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 20), parameter('p', 'Arc probability', 0.05, 0.8, 0.05, 0.2)],
+        generate: (p, seed, width, height) => generateDagGraph(p.n, p.p, width, height, seed),
+    },
+    {
+        id: 'regular',
+        name: 'k-regular',
+        description: 'Every node has in- and out-degree k, as the paper assumes',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 20), parameter('k', 'Degree', 1, 6, 1, 3)],
+        generate: (p, seed, width, height) => generateRegularGraph(p.n, p.k, width, height, seed),
+    },
+    {
+        id: 'chain',
+        name: 'Long chain',
+        description: 'A path with longer shortcuts: shortest paths use every hop',
+        parameters: [parameter('n', 'Nodes', 5, 100, 1, 30), parameter('shortcuts', 'Shortcuts', 0, 100, 1, 10)],
+        generate: (p, seed, width, height) => generateChainGraph(p.n, p.shortcuts, width, height, seed),
+    },
+    {
+        id: 'decrease-key',
+        name: 'Decrease-key adversary',
+        description: 'Each chain node lowers the distance of every target',
+        parameters: [parameter('k', 'Chain nodes', 2, 30, 1, 6), parameter('t', 'Targets', 1, 60, 1, 8)],
+        generate: (p, seed, width, height) => generateDecreaseKeyGraph(p.k, p.t, width, height, seed),
+    },
+];
+
+/**
+ * Parameter values a family starts with
+ */
+export function defaultParams(generator: GraphGeneratorDefinition): GeneratorParams {
+    return Object.fromEntries(generator.parameters.map(p => [p.id, p.defaultValue]));
+}
@@ -1,18 +1,55 @@
-import { Node, Edge, Graph } from './types';
+import { Node, Edge, Graph, GraphEdit } from './types';
+import { createRng, randomSeed } from './Random';
+
+export interface GraphOptions {
+    directed?: boolean; // default true; an undirected edge can be travelled both ways
+    multigraph?: boolean; // default false; allow parallel edges between the same nodes
+}
+
+type Arc = { node: number; weight: number };
 
 /**
  * Graph class with adjacency list representation
- * Supports weighted directed graphs
+ * Supports weighted directed and undirected graphs, optionally with
+ * parallel edges. Every edge has its own id. An undirected edge appears
+ * once in edges and as an arc in both endpoints' adjacency lists, so
+ * algorithms that follow adjacencyList need no special handling.
+ *
+ * Nodes and edges are also indexed by id and by endpoints, so lookups
+ * and edits of a single node or edge are O(1).
  */
 export class GraphClass {
+    readonly directed: boolean;
+    readonly multigraph: boolean;
     private nodeIdCounter = 0;
+    private edgeIdCounter = 0;
     nodes: Node[] = [];
     edges: Edge[] = [];
-    adjacencyList: Map<number, Array<{ node: number; weight: number }>> = new Map();
+    adjacencyList: Map<number, Arc[]> = new Map();
+    private nodeIndex = new Map<number, Node>();
+    // Edge id -> the edge and its arcs: from -> to, then to -> from if undirected
+    private edgeIndex = new Map<number, { edge: Edge; arcs: Arc[] }>();
+    // Endpoint key -> edges joining those nodes, oldest first
+    private pairIndex = new Map<string, Edge[]>();
+
+    constructor(options: GraphOptions = {}) {
+        this.directed = options.directed ?? true;
+        this.multigraph = options.multigraph ?? false;
+    }
 
-    addNode(x: number, y: number, label?: string): number {
-        const id = this.nodeIdCounter++;
-        this.nodes.push({ id, x, y, label: label || `${id}` });
+    /**
+     * Add a node and return its id. An explicit id must be unused; later
+     * nodes are numbered after the largest id so far.
+     */
+    addNode(x: number, y: number, label?: string, explicitId?: number): number {
+        if (explicitId !== undefined && this.nodeIndex.has(explicitId)) {
+            throw new Error(`Node ${explicitId} already exists`);
+        }
+        const id = explicitId ?? this.nodeIdCounter;
+        this.nodeIdCounter = Math.max(this.nodeIdCounter, id + 1);
+        const node = { id, x, y, label: label || `${id}` };
+        this.nodes.push(node);
+        this.nodeIndex.set(id, node);
         this.adjacencyList.set(id, []);
         return id;
     }
@@ -20,9 +57,14 @@ export class GraphClass {
     removeNode(id: number): void {
         // Remove the node
         this.nodes = this.nodes.filter(n => n.id !== id);
+        this.nodeIndex.delete(id);
 
         // Remove all edges connected to this node
-        this.edges = this.edges.filter(e => e.from !== id && e.to !== id);
+        this.edges = this.edges.filter(e => {
+            if (e.from !== id && e.to !== id) return true;
+            this.unindexEdge(e);
+            return false;
+        });
 
         // Update adjacency list
         this.adjacencyList.delete(id);
@@ -34,82 +76,258 @@ export class GraphClass {
         }
     }
 
-    addEdge(from: number, to: number, weight: number): void {
-        // Check if edge already exists
-        const existingEdge = this.edges.find(e => e.from === from && e.to === to);
-        if (existingEdge) {
-            existingEdge.weight = weight;
-            // Update adjacency list
-            const neighbors = this.adjacencyList.get(from) || [];
-            const neighbor = neighbors.find(n => n.node === to);
-            if (neighbor) neighbor.weight = weight;
-        } else {
-            this.edges.push({ from, to, weight });
-            const neighbors = this.adjacencyList.get(from) || [];
-            neighbors.push({ node: to, weight });
-            this.adjacencyList.set(from, neighbors);
+    /**
+     * Add an edge and return its id. Unless the graph allows parallel
+     * edges, an existing edge between the same nodes gets the new weight.
+     */
+    addEdge(from: number, to: number, weight: number): number {
+        const existing = this.multigraph ? undefined : this.getEdge(from, to);
+        if (existing) {
+            this.updateEdgeWeight(existing.id, weight);
+            return existing.id;
         }
+
+        const edge = { id: this.edgeIdCounter++, from, to, weight };
+        const arcs = [this.addArc(from, to, weight)];
+        if (!this.directed && from !== to) arcs.push(this.addArc(to, from, weight));
+        this.edges.push(edge);
+        this.indexEdge(edge, arcs);
+        return edge.id;
     }
 
-    removeEdge(from: number, to: number): void {
-        this.edges = this.edges.filter(e => !(e.from === from && e.to === to));
-        const neighbors = this.adjacencyList.get(from) || [];
-        this.adjacencyList.set(
-            from,
-            neighbors.filter(n => n.node !== to)
-        );
+    removeEdge(id: number): void {
+        const entry = this.edgeIndex.get(id);
+        if (!entry) return;
+
+        const { edge, arcs } = entry;
+        this.unindexEdge(edge);
+        this.edges = this.edges.filter(e => e !== edge);
+        const owners = [edge.from, edge.to];
+        arcs.forEach((arc, i) => {
+            const neighbors = this.adjacencyList.get(owners[i]) || [];
+            this.adjacencyList.set(owners[i], neighbors.filter(n => n !== arc));
+        });
+    }
+
+    updateEdgeWeight(id: number, weight: number): void {
+        const entry = this.edgeIndex.get(id);
+        if (entry) {
+            entry.edge.weight = weight;
+            for (const arc of entry.arcs) arc.weight = weight;
+        }
     }
 
-    updateEdgeWeight(from: number, to: number, weight: number): void {
-        const edge = this.edges.find(e => e.from === from && e.to === to);
-        if (edge) {
-            edge.weight = weight;
-            const neighbors = this.adjacencyList.get(from) || [];
-            const neighbor = neighbors.find(n => n.node === to);
-            if (neighbor) neighbor.weight = weight;
+    moveNode(id: number, x: number, y: number): void {
+        const node = this.getNode(id);
+        if (node) {
+            node.x = x;
+            node.y = y;
         }
     }
 
     getNode(id: number): Node | undefined {
-        return this.nodes.find(n => n.id === id);
+        return this.nodeIndex.get(id);
     }
 
+    /**
+     * The oldest edge joining the nodes; either way round if undirected
+     */
     getEdge(from: number, to: number): Edge | undefined {
-        return this.edges.find(e => e.from === from && e.to === to);
+        return this.pairIndex.get(this.pairKey(from, to))?.[0];
+    }
+
+    getEdgeById(id: number): Edge | undefined {
+        return this.edgeIndex.get(id)?.edge;
+    }
+
+    /**
+     * Every edge joining the nodes, oldest first
+     */
+    edgesBetween(from: number, to: number): Edge[] {
+        return [...(this.pairIndex.get(this.pairKey(from, to)) ?? [])];
     }
 
+    /**
+     * Plain snapshot of the graph. Nodes, edges and arcs are copied, since
+     * edits such as updateEdgeWeight change them in place.
+     */
     toGraph(): Graph {
         return {
-            nodes: [...this.nodes],
-            edges: [...this.edges],
-            adjacencyList: new Map(this.adjacencyList),
+            nodes: this.nodes.map(node => ({ ...node })),
+            edges: this.edges.map(edge => ({ ...edge })),
+            adjacencyList: new Map([...this.adjacencyList].map(([id, arcs]) => [id, arcs.map(arc => ({ ...arc }))])),
+            directed: this.directed,
         };
     }
 
     clone(): GraphClass {
-        const g = new GraphClass();
+        const g = new GraphClass({ directed: this.directed, multigraph: this.multigraph });
         g.nodeIdCounter = this.nodeIdCounter;
-        g.nodes = this.nodes.map(n => ({ ...n }));
-        g.edges = this.edges.map(e => ({ ...e }));
-        g.adjacencyList = new Map();
+        g.edgeIdCounter = this.edgeIdCounter;
+        for (const n of this.nodes) {
+            const node = { ...n };
+            g.nodes.push(node);
+            g.nodeIndex.set(node.id, node);
+        }
+        const copies = new Map<Arc, Arc>();
         for (const [key, value] of this.adjacencyList.entries()) {
-            g.adjacencyList.set(key, value.map(v => ({ ...v })));
+            g.adjacencyList.set(key, value.map(v => {
+                const arc = { ...v };
+                copies.set(v, arc);
+                return arc;
+            }));
+        }
+        for (const e of this.edges) {
+            const edge = { ...e };
+            g.edges.push(edge);
+            g.indexEdge(edge, this.edgeIndex.get(e.id)!.arcs.map(arc => copies.get(arc)!));
+        }
+        return g;
+    }
+
+    /**
+     * Copy with other options, keeping node ids. Edges are added again in
+     * order, so without parallel edges a later edge between the same nodes
+     * replaces an earlier one.
+     */
+    withOptions(options: GraphOptions): GraphClass {
+        const g = new GraphClass({ directed: this.directed, multigraph: this.multigraph, ...options });
+        g.nodeIdCounter = this.nodeIdCounter;
+        for (const n of this.nodes) {
+            const node = { ...n };
+            g.nodes.push(node);
+            g.nodeIndex.set(node.id, node);
+            g.adjacencyList.set(node.id, []);
+        }
+        for (const e of this.edges) {
+            g.addEdge(e.from, e.to, e.weight);
         }
         return g;
     }
+
+    private addArc(from: number, to: number, weight: number): Arc {
+        const arc = { node: to, weight };
+        const neighbors = this.adjacencyList.get(from) || [];
+        neighbors.push(arc);
+        this.adjacencyList.set(from, neighbors);
+        return arc;
+    }
+
+    private indexEdge(edge: Edge, arcs: Arc[]): void {
+        this.edgeIndex.set(edge.id, { edge, arcs });
+        const key = this.pairKey(edge.from, edge.to);
+        const between = this.pairIndex.get(key);
+        if (between) between.push(edge);
+        else this.pairIndex.set(key, [edge]);
+    }
+
+    private unindexEdge(edge: Edge): void {
+        this.edgeIndex.delete(edge.id);
+        const key = this.pairKey(edge.from, edge.to);
+        const between = (this.pairIndex.get(key) ?? []).filter(e => e !== edge);
+        if (between.length > 0) this.pairIndex.set(key, between);
+        else this.pairIndex.delete(key);
+    }
+
+    private pairKey(from: number, to: number): string {
+        return this.directed || from <= to ? `${from}-${to}` : `${to}-${from}`;
+    }
+}
+
+/**
+ * Every arc of the graph: directed edges once, undirected edges both ways
+ */
+export function graphArcs(graph: Graph): Array<{ from: number; to: number; weight: number }> {
+    const arcs: Array<{ from: number; to: number; weight: number }> = [];
+    for (const [from, neighbors] of graph.adjacencyList) {
+        for (const { node, weight } of neighbors) arcs.push({ from, to: node, weight });
+    }
+    return arcs;
+}
+
+/**
+ * Apply a canvas edit to a copy of the graph, leaving the original untouched
+ */
+export function applyGraphEdit(graph: GraphClass, edit: GraphEdit): GraphClass {
+    const g = graph.clone();
+    switch (edit.type) {
+        case 'add_node':
+            g.addNode(edit.x, edit.y);
+            break;
+        case 'move_node':
+            g.moveNode(edit.id, edit.x, edit.y);
+            break;
+        case 'remove_node':
+            g.removeNode(edit.id);
+            break;
+        case 'add_edge':
+            g.addEdge(edit.from, edit.to, edit.weight);
+            break;
+        case 'update_edge_weight':
+            g.updateEdgeWeight(edit.id, edit.weight);
+            break;
+        case 'remove_edge':
+            g.removeEdge(edit.id);
+            break;
+    }
+    return g;
+}
+
+/**
+ * Raised when a run cannot handle the current graph; the message is shown to the user
+ */
+export class UnsupportedGraphError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedGraphError';
+    }
+}
+
+/**
+ * Raised by algorithms that only work with non-negative edge weights
+ */
+export class NegativeWeightError extends UnsupportedGraphError {
+    edge: Edge;
+
+    constructor(algorithm: string, edge: Edge) {
+        super(
+            `${algorithm} requires non-negative edge weights, but edge ${edge.from} → ${edge.to} has weight ${edge.weight}. ` +
+            'Use Bellman-Ford or SPFA on graphs with negative edges.'
+        );
+        this.name = 'NegativeWeightError';
+        this.edge = edge;
+    }
+}
+
+/**
+ * First edge with a negative weight, if any
+ */
+export function findNegativeEdge(graph: Graph): Edge | undefined {
+    return graph.edges.find(e => e.weight < 0);
+}
+
+/**
+ * Throw a NegativeWeightError naming the algorithm if the graph has a negative edge
+ */
+export function requireNonNegativeWeights(graph: Graph, algorithm: string): void {
+    const edge = findNegativeEdge(graph);
+    if (edge) throw new NegativeWeightError(algorithm, edge);
 }
 
 /**
  * Generate a random graph with specified number of nodes and density
+ * Pass a seed to get the same graph every time
  */
 export function generateRandomGraph(
     nodeCount: number,
     density: number = 0.3,
     maxWeight: number = 20,
     width: number = 800,
-    height: number = 600
+    height: number = 600,
+    seed: number = randomSeed()
 ): GraphClass {
     const graph = new GraphClass();
+    const rng = createRng(seed);
 
     // Add nodes in a circular layout
     const centerX = width / 2;
@@ -131,11 +349,11 @@ export function generateRandomGraph(
     const attempts = targetEdges * 3; // Limit attempts to avoid infinite loop
 
     for (let attempt = 0; attempt < attempts && edgesAdded < targetEdges; attempt++) {
-        const from = Math.floor(Math.random() * nodeCount);
-        const to = Math.floor(Math.random() * nodeCount);
+        const from = Math.floor(rng() * nodeCount);
+        const to = Math.floor(rng() * nodeCount);
 
         if (from !== to && !graph.getEdge(from, to)) {
-            const weight = Math.floor(Math.random() * maxWeight) + 1;
+            const weight = Math.floor(rng() * maxWeight) + 1;
             graph.addEdge(from, to, weight);
             edgesAdded++;
         }
@@ -145,15 +363,18 @@ export function generateRandomGraph(
 }
 
 /**
- * Generate a grid graph
+ * Generate an undirected grid graph
+ * Pass a seed to get the same edge weights every time
  */
 export function generateGridGraph(
     rows: number,
     cols: number,
     width: number = 800,
-    height: number = 600
+    height: number = 600,
+    seed: number = randomSeed()
 ): GraphClass {
-    const graph = new GraphClass();
+    const graph = new GraphClass({ directed: false });
+    const rng = createRng(seed);
     const padding = 100;
     const cellWidth = (width - 2 * padding) / (cols - 1);
     const cellHeight = (height - 2 * padding) / (rows - 1);
@@ -170,25 +391,16 @@ export function generateGridGraph(
         }
     }
 
-    // Add edges (bidirectional: up, down, left, right)
+    // Add undirected edges to the right and down neighbours
     for (let row = 0; row < rows; row++) {
         for (let col = 0; col < cols; col++) {
             const currentId = nodeIds[row][col];
 
-            // Right edge (bidirectional)
             if (col < cols - 1) {
-                const rightId = nodeIds[row][col + 1];
-                const weight = Math.floor(Math.random() * 10) + 1;
-                graph.addEdge(currentId, rightId, weight);
-                graph.addEdge(rightId, currentId, weight); // Reverse edge
+                graph.addEdge(currentId, nodeIds[row][col + 1], Math.floor(rng() * 10) + 1);
             }
-
-            // Down edge (bidirectional)
             if (row < rows - 1) {
-                const downId = nodeIds[row + 1][col];
-                const weight = Math.floor(Math.random() * 10) + 1;
-                graph.addEdge(currentId, downId, weight);
-                graph.addEdge(downId, currentId, weight); // Reverse edge
+                graph.addEdge(currentId, nodeIds[row + 1][col], Math.floor(rng() * 10) + 1);
             }
         }
     }
@@ -0,0 +1,454 @@
+import { GraphClass } from './Graph';
+import { FORCE_LAYOUT_LIMIT, forceDirectedLayout } from './Layout';
+
+/**
+ * Graph serialization in common benchmark formats
+ *
+ * - DIMACS shortest-path (.gr): "p sp n m" header and 1-indexed "a u v w" arcs
+ * - Edge list (.csv/.txt): one "from to weight" per line, comma or whitespace separated,
+ *   with an optional "# nodes <n>" or "# node ids <id> ..." line so isolated nodes
+ *   and ids with gaps survive
+ * - JSON: nodes with x/y/label and weighted edges, round-trips the canvas layout
+ *   and whether the graph is directed and allows parallel edges
+ *
+ * DIMACS and edge lists are directed, so an undirected edge is written as
+ * an arc in each direction. DIMACS numbers nodes densely, so exporting a
+ * graph whose node ids have gaps renumbers the nodes in node-list order.
+ */
+
+export type GraphFormat = 'dimacs' | 'edgelist' | 'json';
+
+export const GRAPH_FORMATS: Array<{ id: GraphFormat; name: string; extension: string }> = [
+    { id: 'dimacs', name: 'DIMACS (.gr)', extension: 'gr' },
+    { id: 'edgelist', name: 'Edge List (.csv)', extension: 'csv' },
+    { id: 'json', name: 'JSON (.json)', extension: 'json' },
+];
+
+// Imports allocate a node per id, so untrusted counts and ids are capped
+export const MAX_IMPORT_NODES = 1_000_000;
+
+/**
+ * Raised when an input file cannot be turned into a graph.
+ * Parsing never returns a partially built graph.
+ */
+export class GraphParseError extends Error {
+    line?: number;
+
+    constructor(message: string, line?: number) {
+        super(line !== undefined ? `Line ${line}: ${message}` : message);
+        this.name = 'GraphParseError';
+        this.line = line;
+    }
+}
+
+interface JsonGraph {
+    directed?: boolean; // absent means directed
+    multigraph?: boolean; // absent means no parallel edges
+    nodes: Array<{ id: number; x: number; y: number; label?: string }>;
+    edges: Array<{ from: number; to: number; weight: number }>;
+}
+
+/**
+ * Guess the format from a file name, defaulting to an edge list
+ */
+export function detectFormat(fileName: string): GraphFormat {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'gr' || ext === 'dimacs') return 'dimacs';
+    if (ext === 'json') return 'json';
+    return 'edgelist';
+}
+
+export function parseGraph(text: string, format: GraphFormat): GraphClass {
+    switch (format) {
+        case 'dimacs':
+            return parseDimacs(text);
+        case 'edgelist':
+            return parseEdgeList(text);
+        case 'json':
+            return parseGraphJson(text);
+    }
+}
+
+export function serializeGraph(graph: GraphClass, format: GraphFormat): string {
+    switch (format) {
+        case 'dimacs':
+            return toDimacs(graph);
+        case 'edgelist':
+            return toEdgeList(graph);
+        case 'json':
+            return toGraphJson(graph);
+    }
+}
+
+/**
+ * Parse DIMACS shortest-path format. Node ids 1..n become 0..n-1.
+ */
+export function parseDimacs(text: string): GraphClass {
+    const lines = text.split(/\r?\n/);
+    let nodeCount = -1;
+    let expectedArcs = 0;
+    let headerLine = 0;
+    const arcs: Array<{ from: number; to: number; weight: number }> = [];
+
+    lines.forEach((raw, i) => {
+        const lineNo = i + 1;
+        const line = raw.trim();
+        if (line === '' || line.startsWith('c')) return;
+
+        const tokens = line.split(/\s+/);
+        if (tokens[0] === 'p') {
+            if (nodeCount !== -1) {
+                throw new GraphParseError('Duplicate problem line', lineNo);
+            }
+            if (tokens.length !== 4 || tokens[1] !== 'sp') {
+                throw new GraphParseError(`Expected "p sp <nodes> <arcs>", got "${line}"`, lineNo);
+            }
+            nodeCount = parseCount(tokens[2], 'node count', lineNo);
+            if (nodeCount > MAX_IMPORT_NODES) {
+                throw new GraphParseError(`Node count ${nodeCount} exceeds the maximum of ${MAX_IMPORT_NODES}`, lineNo);
+            }
+            expectedArcs = parseCount(tokens[3], 'arc count', lineNo);
+            headerLine = lineNo;
+        } else if (tokens[0] === 'a') {
+            if (nodeCount === -1) {
+                throw new GraphParseError('Arc before problem line "p sp <nodes> <arcs>"', lineNo);
+            }
+            if (tokens.length < 4) {
+                throw new GraphParseError(`Expected "a <from> <to> <weight>", got "${line}"`, lineNo);
+            }
+            if (tokens.length > 4) {
+                throw new GraphParseError(`Unexpected trailing values in "${line}"`, lineNo);
+            }
+            const from = parseNodeId(tokens[1], lineNo, 1);
+            const to = parseNodeId(tokens[2], lineNo, 1);
+            if (from > nodeCount || to > nodeCount) {
+                throw new GraphParseError(`Node id out of range 1..${nodeCount}`, lineNo);
+            }
+            arcs.push({ from: from - 1, to: to - 1, weight: parseWeight(tokens[3], lineNo) });
+        } else {
+            throw new GraphParseError(`Unknown line type "${tokens[0]}"`, lineNo);
+        }
+    });
+
+    if (nodeCount === -1) {
+        throw new GraphParseError('Missing problem line "p sp <nodes> <arcs>"');
+    }
+    if (arcs.length !== expectedArcs) {
+        throw new GraphParseError(`Header declares ${expectedArcs} arcs but ${arcs.length} were found`, headerLine);
+    }
+
+    return buildGraph(Array.from({ length: nodeCount }, (_, i) => i), arcs);
+}
+
+/**
+ * Parse a "from to weight" edge list. Node ids are 0-indexed; the node
+ * count is one more than the largest id seen, or the "# nodes <n>" line
+ * if that is larger. A "# node ids" line instead keeps exactly the listed
+ * ids and those the edges use. A non-numeric first row is treated as a CSV header.
+ */
+export function parseEdgeList(text: string): GraphClass {
+    const lines = text.split(/\r?\n/);
+    const arcs: Array<{ from: number; to: number; weight: number }> = [];
+    let maxId = -1;
+    let declaredNodes: number | undefined;
+    let declaredIds: Set<number> | undefined;
+    let seenData = false;
+
+    lines.forEach((raw, i) => {
+        const lineNo = i + 1;
+        const line = raw.trim();
+        const nodesLine = /^#\s*nodes\s+(\S+)$/.exec(line);
+        if (nodesLine) {
+            declaredNodes = parseCount(nodesLine[1], 'node count', lineNo);
+            if (declaredNodes > MAX_IMPORT_NODES) {
+                throw new GraphParseError(`Node count ${declaredNodes} exceeds the maximum of ${MAX_IMPORT_NODES}`, lineNo);
+            }
+            return;
+        }
+        const idsLine = /^#\s*node ids\s+(.*)$/.exec(line);
+        if (idsLine) {
+            declaredIds = new Set();
+            for (const token of idsLine[1].split(/[\s,;]+/).filter(t => t !== '')) {
+                const id = parseNodeId(token, lineNo, 0);
+                if (id >= MAX_IMPORT_NODES) {
+                    throw new GraphParseError(`Node id ${id} exceeds the maximum of ${MAX_IMPORT_NODES - 1}`, lineNo);
+                }
+                if (declaredIds.has(id)) {
+                    throw new GraphParseError(`Duplicate node id ${id}`, lineNo);
+                }
+                declaredIds.add(id);
+            }
+            return;
+        }
+        if (line === '' || line.startsWith('#') || line.startsWith('%')) return;
+
+        const tokens = line.split(/[\s,;]+/).filter(t => t !== '');
+        if (!seenData && tokens.every(t => Number.isNaN(Number(t)))) {
+            // Header row such as "from,to,weight"
+            seenData = true;
+            return;
+        }
+        seenData = true;
+
+        if (tokens.length < 2) {
+            throw new GraphParseError(`Expected "from to weight", got "${line}"`, lineNo);
+        }
+        if (tokens.length < 3) {
+            throw new GraphParseError('Missing weight', lineNo);
+        }
+        if (tokens.length > 3) {
+            throw new GraphParseError(`Unexpected trailing values in "${line}"`, lineNo);
+        }
+
+        const from = parseNodeId(tokens[0], lineNo, 0);
+        const to = parseNodeId(tokens[1], lineNo, 0);
+        if (from >= MAX_IMPORT_NODES || to >= MAX_IMPORT_NODES) {
+            throw new GraphParseError(`Node id ${Math.max(from, to)} exceeds the maximum of ${MAX_IMPORT_NODES - 1}`, lineNo);
+        }
+        arcs.push({ from, to, weight: parseWeight(tokens[2], lineNo) });
+        maxId = Math.max(maxId, from, to);
+    });
+
+    if (arcs.length === 0 && declaredNodes === undefined && declaredIds === undefined) {
+        throw new GraphParseError('No edges found');
+    }
+
+    if (declaredIds) {
+        const ids = new Set(declaredIds);
+        for (const { from, to } of arcs) ids.add(from).add(to);
+        return buildGraph([...ids].sort((a, b) => a - b), arcs);
+    }
+    return buildGraph(Array.from({ length: Math.max(maxId + 1, declaredNodes ?? 0) }, (_, i) => i), arcs);
+}
+
+/**
+ * Parse the JSON format written by toGraphJson
+ */
+export function parseGraphJson(text: string): GraphClass {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const position = Number(/position (\d+)/.exec(message)?.[1]);
+        const line = Number.isNaN(position) ? undefined : text.slice(0, position).split('\n').length;
+        throw new GraphParseError(`Invalid JSON: ${message}`, line);
+    }
+
+    if (!isRecord(data) || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+        throw new GraphParseError('Expected an object with "nodes" and "edges" arrays');
+    }
+
+    for (const flag of ['directed', 'multigraph'] as const) {
+        if (data[flag] !== undefined && typeof data[flag] !== 'boolean') {
+            throw new GraphParseError(`"${flag}" must be true or false`);
+        }
+    }
+
+    const json = data as unknown as JsonGraph;
+    const graph = new GraphClass({ directed: json.directed ?? true, multigraph: json.multigraph ?? false });
+    const idMap = new Map<number, number>();
+
+    json.nodes.forEach((node, i) => {
+        if (!isRecord(node) || !isNonNegativeInteger(node.id)) {
+            throw new GraphParseError(`nodes[${i}]: "id" must be a non-negative integer`);
+        }
+        if (typeof node.x !== 'number' || typeof node.y !== 'number') {
+            throw new GraphParseError(`nodes[${i}]: "x" and "y" must be numbers`);
+        }
+        if (idMap.has(node.id)) {
+            throw new GraphParseError(`nodes[${i}]: duplicate node id ${node.id}`);
+        }
+        idMap.set(node.id, graph.addNode(node.x, node.y, node.label !== undefined ? String(node.label) : `${node.id}`));
+    });
+
+    json.edges.forEach((edge, i) => {
+        if (!isRecord(edge)) {
+            throw new GraphParseError(`edges[${i}]: expected an object`);
+        }
+        const from = idMap.get(edge.from);
+        const to = idMap.get(edge.to);
+        if (from === undefined || to === undefined) {
+            throw new GraphParseError(`edges[${i}]: references unknown node`);
+        }
+        if (typeof edge.weight !== 'number' || !Number.isFinite(edge.weight)) {
+            throw new GraphParseError(`edges[${i}]: missing or invalid weight`);
+        }
+        graph.addEdge(from, to, edge.weight);
+    });
+
+    return graph;
+}
+
+export function toDimacs(graph: GraphClass): string {
+    // DIMACS ids are dense and 1-indexed, so map by position in the node list
+    const index = new Map(graph.nodes.map((n, i) => [n.id, i + 1]));
+    const arcs = directedArcs(graph);
+    const lines = [
+        'c Exported from SSSP vs Dijkstra Visualization',
+        `p sp ${graph.nodes.length} ${arcs.length}`,
+    ];
+    for (const arc of arcs) {
+        lines.push(`a ${index.get(arc.from)} ${index.get(arc.to)} ${arc.weight}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function toEdgeList(graph: GraphClass): string {
+    // Ids are kept as they are; only ids with gaps need listing one by one
+    const dense = graph.nodes.every((n, i) => n.id === i);
+    const lines = [
+        dense ? `# nodes ${graph.nodes.length}` : `# node ids ${graph.nodes.map(n => n.id).join(' ')}`,
+        'from,to,weight',
+    ];
+    for (const arc of directedArcs(graph)) {
+        lines.push(`${arc.from},${arc.to},${arc.weight}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function toGraphJson(graph: GraphClass): string {
+    const json: JsonGraph = {
+        directed: graph.directed,
+        multigraph: graph.multigraph,
+        nodes: graph.nodes.map(n => ({ id: n.id, x: n.x, y: n.y, label: n.label })),
+        edges: graph.edges.map(e => ({ from: e.from, to: e.to, weight: e.weight })),
+    };
+    return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Compact single-line encoding used in shareable links:
+ * "x,y[,label];..." for nodes and "from,to,weight;..." for edges, plus
+ * the graph kind: "u" if undirected and "m" if parallel edges are allowed.
+ * Node ids are renumbered to their position in the node list.
+ */
+export function encodeCompactGraph(graph: GraphClass): { nodes: string; edges: string; kind: string } {
+    const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+    const nodes = graph.nodes
+        .map((n, i) => {
+            const coords = `${Math.round(n.x)},${Math.round(n.y)}`;
+            return n.label !== undefined && n.label !== `${i}` ? `${coords},${encodeURIComponent(n.label)}` : coords;
+        })
+        .join(';');
+    const edges = graph.edges.map(e => `${index.get(e.from)},${index.get(e.to)},${e.weight}`).join(';');
+    const kind = `${graph.directed ? '' : 'u'}${graph.multigraph ? 'm' : ''}`;
+    return { nodes, edges, kind };
+}
+
+export function decodeCompactGraph(nodes: string, edges: string, kind: string = ''): GraphClass {
+    if (!/^u?m?$/.test(kind)) {
+        throw new GraphParseError(`Invalid graph kind "${kind}"`);
+    }
+    const graph = new GraphClass({ directed: !kind.includes('u'), multigraph: kind.includes('m') });
+
+    const nodeEntries = nodes === '' ? [] : nodes.split(';');
+    nodeEntries.forEach((entry, i) => {
+        const [x, y, label, ...rest] = entry.split(',');
+        const nx = Number(x);
+        const ny = Number(y);
+        if (rest.length > 0 || y === undefined || !Number.isFinite(nx) || !Number.isFinite(ny)) {
+            throw new GraphParseError(`Invalid node entry ${i}: "${entry}"`);
+        }
+        graph.addNode(nx, ny, label !== undefined ? decodeURIComponent(label) : `${i}`);
+    });
+
+    const edgeEntries = edges === '' ? [] : edges.split(';');
+    edgeEntries.forEach((entry, i) => {
+        const tokens = entry.split(',');
+        if (tokens.length !== 3) {
+            throw new GraphParseError(`Invalid edge entry ${i}: "${entry}"`);
+        }
+        const from = Number(tokens[0]);
+        const to = Number(tokens[1]);
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < 0 ||
+            from >= nodeEntries.length || to >= nodeEntries.length) {
+            throw new GraphParseError(`Edge entry ${i} references unknown node: "${entry}"`);
+        }
+        const weight = Number(tokens[2]);
+        if (tokens[2] === '' || !Number.isFinite(weight)) {
+            throw new GraphParseError(`Edge entry ${i} has invalid weight: "${entry}"`);
+        }
+        graph.addEdge(from, to, weight);
+    });
+
+    return graph;
+}
+
+/**
+ * Arcs in edge order, with an undirected edge in both directions
+ */
+function directedArcs(graph: GraphClass): Array<{ from: number; to: number; weight: number }> {
+    return graph.edges.flatMap(({ from, to, weight }) =>
+        graph.directed || from === to ? [{ from, to, weight }] : [{ from, to, weight }, { from: to, to: from, weight }]
+    );
+}
+
+/**
+ * Build a graph from validated arcs. These formats carry no coordinates,
+ * so nodes start on a circle and small graphs are then spread out by the
+ * force-directed layout.
+ */
+function buildGraph(
+    nodeIds: number[],
+    arcs: Array<{ from: number; to: number; weight: number }>,
+    width: number = 800,
+    height: number = 600
+): GraphClass {
+    const graph = new GraphClass();
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = Math.min(width, height) * 0.35;
+
+    nodeIds.forEach((id, i) => {
+        const angle = (2 * Math.PI * i) / nodeIds.length;
+        graph.addNode(centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle), `${id}`, id);
+    });
+    for (const { from, to, weight } of arcs) {
+        graph.addEdge(from, to, weight);
+    }
+    if (nodeIds.length <= FORCE_LAYOUT_LIMIT) {
+        for (const [id, { x, y }] of forceDirectedLayout(graph.toGraph(), { width, height })) {
+            graph.moveNode(id, x, y);
+        }
+    }
+    return graph;
+}
+
+function parseNodeId(token: string, line: number, minId: number): number {
+    const id = Number(token);
+    if (!Number.isInteger(id)) {
+        throw new GraphParseError(`Invalid node id "${token}"`, line);
+    }
+    if (id < minId) {
+        throw new GraphParseError(
+            id < 0 ? `Negative node id ${id}` : `Node id ${id} is below the minimum of ${minId}`,
+            line
+        );
+    }
+    return id;
+}
+
+function parseWeight(token: string, line: number): number {
+    const weight = Number(token);
+    if (!Number.isFinite(weight)) {
+        throw new GraphParseError(`Invalid weight "${token}"`, line);
+    }
+    return weight;
+}
+
+function parseCount(token: string, what: string, line: number): number {
+    const value = Number(token);
+    if (!isNonNegativeInteger(value)) {
+        throw new GraphParseError(`Invalid ${what} "${token}"`, line);
+    }
+    return value;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,272 @@
+import { Graph } from './types';
+import { GraphClass } from './Graph';
+import { createRng } from './Random';
+
+/**
+ * Automatic node placement
+ *
+ * Each layout maps node ids to new canvas coordinates inside a
+ * width × height box and leaves the graph itself untouched; applyLayout
+ * turns the positions into a new GraphClass. Layouts are deterministic:
+ * the same graph and options always give the same positions.
+ */
+
+export type LayoutType = 'force' | 'hierarchical' | 'grid';
+
+export type NodePositions = Map<number, { x: number; y: number }>;
+
+export interface LayoutOptions {
+    source?: number; // root of the hierarchical layout, the first node by default
+    width?: number;
+    height?: number;
+    iterations?: number; // force-directed simulation steps
+}
+
+export const LAYOUTS: Array<{ id: LayoutType; name: string; description: string }> = [
+    { id: 'force', name: 'Force-directed', description: 'Edges pull their nodes together while all nodes push apart' },
+    { id: 'hierarchical', name: 'Hierarchical', description: 'Columns by BFS hop distance from the source; unreachable nodes last' },
+    { id: 'grid', name: 'Grid-snapped', description: 'Moves each node to the nearest free cell of a grid' },
+];
+
+const PADDING = 60;
+const DEFAULT_ITERATIONS = 200;
+
+// Larger graphs are not offered the force layout; it is quadratic per step
+export const FORCE_LAYOUT_LIMIT = 300;
+
+/**
+ * Positions for every node of the graph under the chosen layout
+ */
+export function computeLayout(graph: Graph, layout: LayoutType, options: LayoutOptions = {}): NodePositions {
+    switch (layout) {
+        case 'force':
+            return forceDirectedLayout(graph, options);
+        case 'hierarchical':
+            return hierarchicalLayout(graph, options);
+        case 'grid':
+            return gridLayout(graph, options);
+    }
+}
+
+/**
+ * Copy of the graph with nodes moved to the given positions; nodes
+ * missing from positions stay where they are
+ */
+export function applyLayout(graph: GraphClass, positions: NodePositions): GraphClass {
+    const g = graph.clone();
+    for (const [id, { x, y }] of positions) g.moveNode(id, x, y);
+    return g;
+}
+
+/**
+ * Current positions of the graph's nodes, e.g. to animate away from
+ */
+export function nodePositions(graph: Graph): NodePositions {
+    return new Map(graph.nodes.map(n => [n.id, { x: n.x, y: n.y }]));
+}
+
+/**
+ * Fruchterman–Reingold: every pair of nodes repels, every edge (in either
+ * direction) attracts, and the step size cools linearly. Starts from the
+ * current positions, nudged apart by a seeded jitter so coincident nodes
+ * separate. Each step is O(n² + m), meant for graphs that fit on the canvas.
+ */
+export function forceDirectedLayout(graph: Graph, options: LayoutOptions = {}): NodePositions {
+    const { width = 800, height = 600, iterations = DEFAULT_ITERATIONS } = options;
+    const n = graph.nodes.length;
+    const index = new Map(graph.nodes.map((node, i) => [node.id, i]));
+    const rng = createRng(n);
+    const x = graph.nodes.map(node => node.x + rng() - 0.5);
+    const y = graph.nodes.map(node => node.y + rng() - 0.5);
+
+    const springs: Array<[number, number]> = [];
+    for (const edge of graph.edges) {
+        const u = index.get(edge.from);
+        const v = index.get(edge.to);
+        if (u !== undefined && v !== undefined && u !== v) springs.push([u, v]);
+    }
+
+    // Ideal edge length for n nodes spread over the box
+    const k = Math.sqrt(((width - 2 * PADDING) * (height - 2 * PADDING)) / Math.max(1, n));
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+
+    for (let step = 0; step < iterations; step++) {
+        dx.fill(0);
+        dy.fill(0);
+
+        for (let u = 0; u < n; u++) {
+            for (let v = u + 1; v < n; v++) {
+                const ox = x[u] - x[v];
+                const oy = y[u] - y[v];
+                const distance = Math.max(0.01, Math.hypot(ox, oy));
+                const force = (k * k) / distance / distance;
+                dx[u] += ox * force;
+                dy[u] += oy * force;
+                dx[v] -= ox * force;
+                dy[v] -= oy * force;
+            }
+        }
+
+        for (const [u, v] of springs) {
+            const ox = x[u] - x[v];
+            const oy = y[u] - y[v];
+            const force = Math.hypot(ox, oy) / k;
+            dx[u] -= ox * force;
+            dy[u] -= oy * force;
+            dx[v] += ox * force;
+            dy[v] += oy * force;
+        }
+
+        const temperature = (k * (iterations - step)) / iterations;
+        for (let u = 0; u < n; u++) {
+            const length = Math.hypot(dx[u], dy[u]);
+            if (length === 0) continue;
+            const move = Math.min(length, temperature) / length;
+            x[u] += dx[u] * move;
+            y[u] += dy[u] * move;
+        }
+    }
+
+    return fitToBox(graph, x, y, width, height);
+}
+
+/**
+ * Columns by BFS hop distance from the source, following arcs in their
+ * direction; nodes the source cannot reach form one last column. Within
+ * a column, nodes are ordered by the mean row of their parents in the
+ * previous column to keep arcs from crossing.
+ */
+export function hierarchicalLayout(graph: Graph, options: LayoutOptions = {}): NodePositions {
+    const { width = 800, height = 600 } = options;
+    const source = options.source ?? graph.nodes[0]?.id;
+    const depth = new Map<number, number>();
+    const parents = new Map<number, number[]>();
+
+    if (source !== undefined && graph.nodes.some(node => node.id === source)) {
+        depth.set(source, 0);
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+            const u = queue[head];
+            for (const { node: v } of graph.adjacencyList.get(u) || []) {
+                if (!depth.has(v)) {
+                    depth.set(v, depth.get(u)! + 1);
+                    queue.push(v);
+                }
+                if (depth.get(v) === depth.get(u)! + 1) {
+                    parents.set(v, [...(parents.get(v) || []), u]);
+                }
+            }
+        }
+    }
+
+    const reachableLayers = depth.size > 0 ? Math.max(...depth.values()) + 1 : 0;
+    const layers: number[][] = Array.from({ length: reachableLayers }, () => []);
+    const unreachable: number[] = [];
+    for (const node of graph.nodes) {
+        const d = depth.get(node.id);
+        if (d === undefined) unreachable.push(node.id);
+        else layers[d].push(node.id);
+    }
+    if (unreachable.length > 0) layers.push(unreachable);
+
+    const row = new Map<number, number>();
+    for (const layer of layers) {
+        const barycenter = (id: number) => {
+            const rows = (parents.get(id) || []).map(p => row.get(p)!);
+            return rows.length > 0 ? rows.reduce((a, b) => a + b, 0) / rows.length : Infinity;
+        };
+        const keys = new Map(layer.map(id => [id, barycenter(id)]));
+        layer.sort((a, b) => keys.get(a)! - keys.get(b)! || a - b);
+        layer.forEach((id, i) => row.set(id, (i + 0.5) / layer.length));
+    }
+
+    const positions: NodePositions = new Map();
+    const columnGap = layers.length > 1 ? (width - 2 * PADDING) / (layers.length - 1) : 0;
+    layers.forEach((layer, column) => {
+        for (const id of layer) {
+            positions.set(id, {
+                x: layers.length > 1 ? PADDING + column * columnGap : width / 2,
+                y: PADDING + row.get(id)! * (height - 2 * PADDING),
+            });
+        }
+    });
+    return positions;
+}
+
+/**
+ * Snap the current positions onto a grid with about one cell per node,
+ * shaped like the box. Nodes are placed top to bottom, left to right, each
+ * in the free cell nearest to where it was.
+ */
+export function gridLayout(graph: Graph, options: LayoutOptions = {}): NodePositions {
+    const { width = 800, height = 600 } = options;
+    const n = graph.nodes.length;
+    const innerWidth = width - 2 * PADDING;
+    const innerHeight = height - 2 * PADDING;
+    const cols = Math.max(1, Math.round(Math.sqrt((n * innerWidth) / innerHeight)));
+    const rows = Math.max(1, Math.ceil(n / cols));
+    const cellWidth = cols > 1 ? innerWidth / (cols - 1) : 0;
+    const cellHeight = rows > 1 ? innerHeight / (rows - 1) : 0;
+
+    // Current positions scaled into the box first, so the grid covers the whole graph
+    const fitted = fitToBox(graph, graph.nodes.map(node => node.x), graph.nodes.map(node => node.y), width, height);
+    const cells = Array.from({ length: rows * cols }, (_, i) => ({
+        x: PADDING + (i % cols) * cellWidth + (cols > 1 ? 0 : innerWidth / 2),
+        y: PADDING + Math.floor(i / cols) * cellHeight + (rows > 1 ? 0 : innerHeight / 2),
+        taken: false,
+    }));
+
+    const order = [...graph.nodes].sort((a, b) => {
+        const p = fitted.get(a.id)!;
+        const q = fitted.get(b.id)!;
+        return p.y - q.y || p.x - q.x || a.id - b.id;
+    });
+
+    const positions: NodePositions = new Map();
+    for (const node of order) {
+        const at = fitted.get(node.id)!;
+        let best = -1;
+        for (let i = 0; i < cells.length; i++) {
+            if (cells[i].taken) continue;
+            if (best < 0 || Math.hypot(cells[i].x - at.x, cells[i].y - at.y) < Math.hypot(cells[best].x - at.x, cells[best].y - at.y)) {
+                best = i;
+            }
+        }
+        cells[best].taken = true;
+        positions.set(node.id, { x: cells[best].x, y: cells[best].y });
+    }
+    return positions;
+}
+
+/**
+ * Scale and centre positions (indexed like graph.nodes) into the box,
+ * keeping their aspect ratio
+ */
+function fitToBox(graph: Graph, x: ArrayLike<number>, y: ArrayLike<number>, width: number, height: number): NodePositions {
+    const n = graph.nodes.length;
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+        minX = Math.min(minX, x[i]);
+        maxX = Math.max(maxX, x[i]);
+        minY = Math.min(minY, y[i]);
+        maxY = Math.max(maxY, y[i]);
+    }
+
+    const spanX = maxX - minX;
+    const spanY = maxY - minY;
+    const scale = Math.min(
+        spanX > 0 ? (width - 2 * PADDING) / spanX : Infinity,
+        spanY > 0 ? (height - 2 * PADDING) / spanY : Infinity
+    );
+    const s = Number.isFinite(scale) ? scale : 1;
+
+    const positions: NodePositions = new Map();
+    for (let i = 0; i < n; i++) {
+        positions.set(graph.nodes[i].id, {
+            x: width / 2 + (x[i] - (minX + maxX) / 2) * s,
+            y: height / 2 + (y[i] - (minY + maxY) / 2) * s,
+        });
+    }
+    return positions;
+}
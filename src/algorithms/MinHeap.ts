@@ -1,63 +1,234 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
 /**
  * Min-Heap implementation for Dijkstra's algorithm
- * Provides O(log n) insert, extractMin, and decreaseKey operations
+ * Provides O(log n) insert, extractMin, decreaseKey, increaseKey and delete
+ * Entries with equal distance are ordered by an optional tie-break value
+ *
+ * In lazy mode key changes push a fresh entry and leave the old one in
+ * place; stale entries are skipped when they reach the top. That trades
+ * memory for cheaper updates, like the common "insert duplicates" Dijkstra.
  */
 
+export interface HeapEntry {
+    vertex: number;
+    distance: number;
+    tie?: number;
+}
+
+export interface MinHeapOptions {
+    lazy?: boolean; // keep duplicate entries and skip stale ones
+    checkInvariants?: boolean; // run checkInvariants() after every operation and throw on a violation
+}
+
+/**
+ * Thrown by a heap built with checkInvariants when an operation breaks heap order
+ */
+export class HeapInvariantError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`MinHeap invariant violated: ${issues.join('; ')}`);
+        this.name = 'HeapInvariantError';
+    }
+}
+
 interface HeapNode {
     vertex: number;
     distance: number;
+    tie: number;
+    index: number; // position in the heap array
 }
 
-export class MinHeap {
+export class MinHeap implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    readonly lazy: boolean;
     private heap: HeapNode[] = [];
-    private positions: Map<number, number> = new Map();
+    private live: Map<number, HeapNode> = new Map(); // current entry of each queued vertex
+    private checking: boolean;
+
+    /**
+     * Build a heap from initial entries in O(n) (bottom-up heapify)
+     */
+    constructor(entries: Iterable<HeapEntry> = [], options: MinHeapOptions = {}) {
+        this.lazy = options.lazy ?? false;
+        this.checking = options.checkInvariants ?? false;
+
+        for (const { vertex, distance, tie = 0 } of entries) {
+            if (this.live.has(vertex)) throw new Error(`Vertex ${vertex} appears more than once in the initial entries`);
+            const node: HeapNode = { vertex, distance, tie, index: this.heap.length };
+            this.heap.push(node);
+            this.live.set(vertex, node);
+        }
+        for (let i = Math.floor(this.heap.length / 2) - 1; i >= 0; i--) {
+            this.bubbleDown(i);
+        }
+        this.verify();
+    }
 
-    insert(vertex: number, distance: number): void {
-        this.heap.push({ vertex, distance });
-        this.positions.set(vertex, this.heap.length - 1);
-        this.bubbleUp(this.heap.length - 1);
+    insert(vertex: number, distance: number, tie = 0): void {
+        if (this.live.has(vertex)) {
+            throw new Error(`Vertex ${vertex} is already in the heap; use decreaseKey or increaseKey`);
+        }
+        this.counters.inserts++;
+        this.push(vertex, distance, tie);
+        this.verify();
     }
 
     extractMin(): number | null {
+        this.dropStale();
         if (this.heap.length === 0) return null;
+        this.counters.extractMins++;
 
         const min = this.heap[0].vertex;
-        const last = this.heap.pop()!;
-        this.positions.delete(min);
+        this.removeAt(0);
+        this.live.delete(min);
+        this.verify();
+        return min;
+    }
 
-        if (this.heap.length > 0) {
-            this.heap[0] = last;
-            this.positions.set(last.vertex, 0);
-            this.bubbleDown(0);
+    /**
+     * Smallest entry without removing it
+     */
+    peek(): Required<HeapEntry> | null {
+        this.dropStale();
+        if (this.heap.length === 0) return null;
+        const { vertex, distance, tie } = this.heap[0];
+        return { vertex, distance, tie };
+    }
+
+    /**
+     * Lower a queued vertex's key. Throws if the vertex is not queued or
+     * the new key is larger than the current one.
+     */
+    decreaseKey(vertex: number, newDistance: number, tie = 0): void {
+        const node = this.require(vertex, 'decreaseKey');
+        if (compare(newDistance, tie, node.distance, node.tie) > 0) {
+            throw new RangeError(
+                `decreaseKey would raise vertex ${vertex} from ${node.distance} to ${newDistance}; use increaseKey`
+            );
         }
+        this.counters.decreaseKeys++;
 
-        return min;
+        if (this.lazy) {
+            this.push(vertex, newDistance, tie);
+        } else {
+            node.distance = newDistance;
+            node.tie = tie;
+            this.bubbleUp(node.index);
+        }
+        this.verify();
     }
 
-    decreaseKey(vertex: number, newDistance: number): void {
-        const idx = this.positions.get(vertex);
-        if (idx !== undefined) {
-            this.heap[idx].distance = newDistance;
-            this.bubbleUp(idx);
+    /**
+     * Raise a queued vertex's key. Throws if the vertex is not queued or
+     * the new key is smaller than the current one.
+     */
+    increaseKey(vertex: number, newDistance: number, tie = 0): void {
+        const node = this.require(vertex, 'increaseKey');
+        if (compare(newDistance, tie, node.distance, node.tie) < 0) {
+            throw new RangeError(
+                `increaseKey would lower vertex ${vertex} from ${node.distance} to ${newDistance}; use decreaseKey`
+            );
         }
+
+        if (this.lazy) {
+            this.push(vertex, newDistance, tie);
+        } else {
+            node.distance = newDistance;
+            node.tie = tie;
+            this.bubbleDown(node.index);
+        }
+        this.verify();
+    }
+
+    /**
+     * Remove a vertex wherever it sits in the heap. Returns false if it was not queued.
+     */
+    delete(vertex: number): boolean {
+        const node = this.live.get(vertex);
+        if (!node) return false;
+
+        this.live.delete(vertex);
+        if (!this.lazy) this.removeAt(node.index);
+        this.verify();
+        return true;
     }
 
     contains(vertex: number): boolean {
-        return this.positions.has(vertex);
+        return this.live.has(vertex);
     }
 
     isEmpty(): boolean {
-        return this.heap.length === 0;
+        return this.live.size === 0;
     }
 
     size(): number {
-        return this.heap.length;
+        return this.live.size;
+    }
+
+    /**
+     * Check heap order and the vertex index. Returns a description of
+     * every violation found (empty when the heap is consistent).
+     */
+    checkInvariants(): string[] {
+        const issues: string[] = [];
+
+        this.heap.forEach((node, i) => {
+            if (node.index !== i) {
+                issues.push(`Entry at ${i} (vertex ${node.vertex}) records index ${node.index}`);
+            }
+            const parent = Math.floor((i - 1) / 2);
+            if (i > 0 && compare(node.distance, node.tie, this.heap[parent].distance, this.heap[parent].tie) < 0) {
+                issues.push(`Vertex ${node.vertex} (key ${node.distance}) is smaller than its parent, vertex ${this.heap[parent].vertex} (key ${this.heap[parent].distance})`);
+            }
+        });
+
+        for (const [vertex, node] of this.live) {
+            if (this.heap[node.index] !== node) {
+                issues.push(`Vertex ${vertex} is queued but its entry is not in the heap`);
+            }
+        }
+
+        if (!this.lazy && this.heap.length !== this.live.size) {
+            issues.push(`Heap holds ${this.heap.length} entries for ${this.live.size} queued vertices`);
+        }
+
+        return issues;
+    }
+
+    private require(vertex: number, operation: string): HeapNode {
+        const node = this.live.get(vertex);
+        if (!node) throw new Error(`${operation}: vertex ${vertex} is not in the heap`);
+        return node;
+    }
+
+    private push(vertex: number, distance: number, tie: number): void {
+        const node: HeapNode = { vertex, distance, tie, index: this.heap.length };
+        this.heap.push(node);
+        this.live.set(vertex, node);
+        this.bubbleUp(node.index);
+    }
+
+    // Lazy mode: discard superseded or deleted entries sitting at the top
+    private dropStale(): void {
+        while (this.heap.length > 0 && this.live.get(this.heap[0].vertex) !== this.heap[0]) {
+            this.removeAt(0);
+        }
+    }
+
+    private removeAt(idx: number): void {
+        const last = this.heap.pop()!;
+        if (idx === this.heap.length) return;
+
+        this.heap[idx] = last;
+        last.index = idx;
+        this.bubbleDown(idx);
+        this.bubbleUp(last.index);
     }
 
     private bubbleUp(idx: number): void {
         while (idx > 0) {
             const parent = Math.floor((idx - 1) / 2);
-            if (this.heap[parent].distance <= this.heap[idx].distance) break;
+            if (!this.less(idx, parent)) break;
 
             this.swap(idx, parent);
             idx = parent;
@@ -70,10 +241,10 @@ export class MinHeap {
             const right = 2 * idx + 2;
             let smallest = idx;
 
-            if (left < this.heap.length && this.heap[left].distance < this.heap[smallest].distance) {
+            if (left < this.heap.length && this.less(left, smallest)) {
                 smallest = left;
             }
-            if (right < this.heap.length && this.heap[right].distance < this.heap[smallest].distance) {
+            if (right < this.heap.length && this.less(right, smallest)) {
                 smallest = right;
             }
 
@@ -84,12 +255,30 @@ export class MinHeap {
         }
     }
 
+    private less(i: number, j: number): boolean {
+        this.counters.work++;
+        const a = this.heap[i];
+        const b = this.heap[j];
+        return compare(a.distance, a.tie, b.distance, b.tie) < 0;
+    }
+
     private swap(i: number, j: number): void {
         const temp = this.heap[i];
         this.heap[i] = this.heap[j];
         this.heap[j] = temp;
 
-        this.positions.set(this.heap[i].vertex, i);
-        this.positions.set(this.heap[j].vertex, j);
+        this.heap[i].index = i;
+        this.heap[j].index = j;
     }
+
+    private verify(): void {
+        if (!this.checking) return;
+        const issues = this.checkInvariants();
+        if (issues.length > 0) throw new HeapInvariantError(issues);
+    }
+}
+
+function compare(distanceA: number, tieA: number, distanceB: number, tieB: number): number {
+    if (distanceA !== distanceB) return distanceA < distanceB ? -1 : 1;
+    return tieA < tieB ? -1 : tieA > tieB ? 1 : 0;
 }
@@ -1,6 +1,10 @@
-import { Graph, AlgorithmResult, AlgorithmStep, VisualizationState, NodeState } from './types';
+import { Graph, AlgorithmResult, AlgorithmDefinition, AlgorithmStep, NodeState, RunOptions } from './types';
+import { StepRecorder } from './StepRecorder';
 import { MinHeap } from './MinHeap';
 import { AdaptiveFrontier } from './AdaptiveFrontier';
+import { UnsupportedGraphError, requireNonNegativeWeights } from './Graph';
+import { CsrGraph, toCsr } from './CsrGraph';
+import { CallTreeBuilder } from './RecursionTree';
 
 /**
  * New SSSP Algorithm - Breaking the Sorting Barrier
@@ -11,25 +15,40 @@ import { AdaptiveFrontier } from './AdaptiveFrontier';
  * 1. FindPivots: Reduces frontier size from |S| to ~|S|/k
  * 2. BMSSP: Bounded Multi-Source Shortest Path with recursive divide-and-conquer
  * 3. Adaptive partitioning avoids full O(n log n) sorting
+ *
+ * Vertices are dense positions 0..n-1 of the graph's CSR form internally;
+ * node ids appear only in steps and results.
  */
 export class NewSSSP {
     private graph: Graph;
     private n: number;
+    private ids: number[]; // position -> node id
+    private indexOf: Map<number, number>; // node id -> position
+    private csr: CsrGraph;
     private k: number;
     private t: number;
     private dist: number[];
     private pred: number[];
     private complete: boolean[];
-    private steps: AlgorithmStep[] = [];
-    private stepNum = 0;
+    private recorder = new StepRecorder();
+    private calls = new CallTreeBuilder(() => this.recorder.steps.length);
     private operations = 0;
     private relaxations = 0;
     private pivotsCount = 0;
     private frontierReductions = 0;
+    // Pivots, W and frontier of each active non-base call, innermost last
+    private active: Array<{ pivots: Set<number>; W: Set<number>; frontier: AdaptiveFrontier | null }> = [];
+    // Positions whose distance, predecessor or completion changed since the view was last updated
+    private changed = new Set<number>();
+    // Current node and pivots as last drawn in the view
+    private shownCurrent: number | null = null;
+    private shownPivots = new Set<number>();
 
     constructor(graph: Graph) {
         this.graph = graph;
-        this.n = graph.nodes.length;
+        this.csr = toCsr(graph);
+        ({ ids: this.ids, indexOf: this.indexOf } = this.csr);
+        this.n = this.ids.length;
 
         // Algorithm parameters from the paper
         this.k = Math.max(2, Math.floor(Math.pow(this.n, 1 / 3))); // k = ⌊n^(1/3)⌋
@@ -40,16 +59,23 @@ export class NewSSSP {
         this.complete = new Array(this.n).fill(false);
     }
 
-    solve(source: number, destination?: number): AlgorithmResult {
+    // Throws a NegativeWeightError on graphs with negative edges
+    solve(source: number, destination?: number, options: RunOptions = {}): AlgorithmResult {
+        requireNonNegativeWeights(this.graph, 'New SSSP');
+
         const startTime = performance.now();
+        this.recorder = new StepRecorder(options, () => this.operations);
+        for (let i = 0; i < this.n; i++) this.changed.add(i);
 
-        this.dist[source] = 0;
-        this.complete[source] = true;
+        const s = this.indexOf.get(source);
+        if (s === undefined) throw new UnsupportedGraphError(`Source node ${source} is not in the graph.`);
+        this.dist[s] = 0;
+        this.complete[s] = true;
 
         // Initial step
         this.addStep(
             `Initialize: Set distance of source node ${source} to 0. Parameters: k=${this.k}, t=${this.t}`,
-            source,
+            s,
             'initialize',
             { k: this.k, t: this.t }
         );
@@ -65,7 +91,7 @@ export class NewSSSP {
 
 
         // Run the BMSSP algorithm
-        this.BMSSP(levels, Infinity, [source]);
+        this.BMSSP(levels, Infinity, [s]);
 
         const endTime = performance.now();
 
@@ -73,30 +99,30 @@ export class NewSSSP {
         this.addStep(
             `Algorithm completed - processed ${this.complete.filter(c => c).length} nodes`,
             null,
-            'complete',
+            destination === undefined ? 'done' : 'complete', // the last step unless a path step follows
             {}
         );
 
         // Build shortest path
         const shortestPath: number[] = [];
-        if (destination !== undefined && this.dist[destination] !== Infinity) {
-            let current = destination;
+        const target = destination !== undefined ? this.indexOf.get(destination) : undefined;
+        if (target !== undefined && this.dist[target] !== Infinity) {
+            let current = target;
             while (current !== -1) {
-                shortestPath.unshift(current);
+                shortestPath.unshift(this.ids[current]);
                 current = this.pred[current];
             }
 
             // Mark path in final state
-            const finalState = this.createVisState(new Set(), new Set(), new Set());
-            for (const node of shortestPath) {
-                finalState.nodeStates.set(node, NodeState.PATH);
-            }
-            this.steps.push({
-                stepNumber: this.stepNum++,
-                description: `Shortest path found: ${shortestPath.join(' → ')} (distance: ${this.dist[destination].toFixed(1)})`,
-                currentNode: null,
-                action: 'done',
-                visualState: finalState,
+            this.recorder.record('done', () => {
+                this.updateView(new Set(), [], [], null);
+                for (const node of shortestPath) {
+                    this.recorder.state.nodeStates.set(node, NodeState.PATH);
+                }
+                return {
+                    description: `Shortest path found: ${shortestPath.join(' → ')} (distance: ${this.dist[target].toFixed(1)})`,
+                    currentNode: null,
+                };
             });
         } else if (destination !== undefined) {
             // Destination not reachable
@@ -112,15 +138,17 @@ export class NewSSSP {
         const distMap = new Map<number, number>();
         const predMap = new Map<number, number>();
         for (let i = 0; i < this.n; i++) {
-            distMap.set(i, this.dist[i]);
-            predMap.set(i, this.pred[i]);
+            distMap.set(this.ids[i], this.dist[i]);
+            predMap.set(this.ids[i], this.pred[i] === -1 ? -1 : this.ids[this.pred[i]]);
         }
 
         return {
             distances: distMap,
             predecessors: predMap,
             shortestPath,
-            steps: this.steps,
+            steps: this.recorder.steps,
+            trace: this.recorder.trace,
+            callTree: this.calls.root,
             statistics: {
                 executionTime: endTime - startTime,
                 operations: this.operations,
@@ -141,30 +169,39 @@ export class NewSSSP {
      * Core innovation: Recursive divide-and-conquer on bounded frontier
      */
     private BMSSP(l: number, B: number, S: number[]): { B_prime: number; U: number[] } {
+        const frame = this.calls.enter(l, B, S.length);
+
         // Base case: use mini-Dijkstra for small problems
         if (l === 0) {
-            return this.baseCase(B, S);
+            const base = this.baseCase(B, S);
+            this.calls.exit(frame, base.B_prime, base.U.length);
+            return base;
         }
 
         // KEY INNOVATION 1: Find Pivots to reduce frontier size
         const { pivots, W } = this.findPivots(B, S);
+        frame.pivots = pivots.map(v => this.ids[v]);
+        const call = { pivots: new Set(pivots), W: new Set(W), frontier: null as AdaptiveFrontier | null };
+        this.active.push(call);
 
         this.addStep(
-            `Level ${l}: FindPivots reduced frontier from ${S.length} to ${pivots.length} pivots`,
+            `Level ${l}: FindPivots reduced frontier from ${S.length} to ${pivots.length} pivots (|W| = ${W.length})`,
             null,
             'find_pivots',
             {
-                pivotsFound: pivots,
+                pivotsFound: frame.pivots,
                 frontierSize: pivots.length,
+                bound: B,
                 recursionLevel: l,
             }
         );
 
-        let U: number[] = [];
+        const U: number[] = [];
         let B_prime = B;
 
         // Adaptive partitioning data structure
         const frontier = new AdaptiveFrontier(pivots, this.dist);
+        call.frontier = frontier;
 
         // KEY INNOVATION 2: Recursive divide-and-conquer
         while (U.length < this.k * Math.pow(2, l * this.t) && frontier.hasElements()) {
@@ -176,7 +213,7 @@ export class NewSSSP {
                 `Level ${l}: Pull ${Si.length} vertices from frontier (bound: ${Bi === Infinity ? '∞' : Bi.toFixed(1)})`,
                 null,
                 'frontier_pull',
-                { frontierSize: frontier.size(), recursionLevel: l }
+                { frontierSize: frontier.size(), bound: Bi, recursionLevel: l }
             );
 
             if (Si.length === 0) break;
@@ -184,7 +221,7 @@ export class NewSSSP {
             // Recursively solve smaller subproblem
             const subResult = this.BMSSP(l - 1, Bi, Si);
 
-            U = U.concat(subResult.U);
+            for (const v of subResult.U) U.push(v);
             B_prime = Math.min(B_prime, subResult.B_prime);
 
             // Relax edges from newly completed vertices
@@ -197,12 +234,15 @@ export class NewSSSP {
         }
 
         // Include vertices from W that are within bounds
+        const inU = new Set(U);
         for (const v of W) {
-            if (this.dist[v] < B_prime && !U.includes(v)) {
+            if (this.dist[v] < B_prime && !inU.has(v)) {
                 U.push(v);
             }
         }
 
+        this.active.pop();
+        this.calls.exit(frame, B_prime, U.length);
         return { B_prime, U };
     }
 
@@ -222,16 +262,18 @@ export class NewSSSP {
             for (const u of layers[i]) {
                 if (!this.complete[u]) continue;
 
-                const neighbors = this.graph.adjacencyList.get(u) || [];
-                for (const { node: v, weight } of neighbors) {
+                const { offsets, targets, weights } = this.csr;
+                for (let e = offsets[u]; e < offsets[u + 1]; e++) {
+                    const v = targets[e];
                     this.operations++;
-                    const newDist = this.dist[u] + weight;
+                    const newDist = this.dist[u] + weights[e];
 
                     if (newDist <= this.dist[v] && newDist < B) {
                         if (newDist < this.dist[v]) {
                             this.dist[v] = newDist;
                             this.pred[v] = u;
                             this.relaxations++;
+                            this.changed.add(v);
                         }
                         nextLayer.add(v);
                         W.add(v);
@@ -303,25 +345,28 @@ export class NewSSSP {
             inHeap.delete(u);
             U.push(u);
             this.complete[u] = true;
+            this.changed.add(u);
             this.operations++;
 
             this.addStep(
-                `Base case: Visit node ${u} (distance: ${this.dist[u].toFixed(1)})`,
+                `Base case: Visit node ${this.ids[u]} (distance: ${this.dist[u].toFixed(1)})`,
                 u,
                 'visit',
                 { recursionLevel: 0 }
             );
 
-            const neighbors = this.graph.adjacencyList.get(u) || [];
-            for (const { node: v, weight } of neighbors) {
+            const { offsets, targets, weights } = this.csr;
+            for (let e = offsets[u]; e < offsets[u + 1]; e++) {
+                const v = targets[e];
                 this.operations++;
-                const newDist = this.dist[u] + weight;
+                const newDist = this.dist[u] + weights[e];
 
                 if (newDist < this.dist[v] && newDist < B) {
                     const oldDist = this.dist[v];
                     this.dist[v] = newDist;
                     this.pred[v] = u;
                     this.relaxations++;
+                    this.changed.add(v);
 
                     if (inHeap.has(v)) {
                         heap.decreaseKey(v, newDist);
@@ -331,12 +376,12 @@ export class NewSSSP {
                     }
 
                     this.addStep(
-                        `Base case: Relax edge (${u} → ${v}): ${oldDist === Infinity ? '∞' : oldDist.toFixed(1)} → ${newDist.toFixed(1)}`,
+                        `Base case: Relax edge (${this.ids[u]} → ${this.ids[v]}): ${oldDist === Infinity ? '∞' : oldDist.toFixed(1)} → ${newDist.toFixed(1)}`,
                         u,
                         'relax',
                         {
-                            edgeRelaxed: { from: u, to: v },
-                            distanceUpdates: [{ node: v, oldDist, newDist }],
+                            edgeRelaxed: { from: this.ids[u], to: this.ids[v] },
+                            distanceUpdates: [{ node: this.ids[v], oldDist, newDist }],
                         }
                     );
                 }
@@ -353,17 +398,20 @@ export class NewSSSP {
     private relaxEdges(vertices: number[], Bi: number, B: number, frontier: AdaptiveFrontier): void {
         for (const u of vertices) {
             this.complete[u] = true;
+            this.changed.add(u);
 
-            const neighbors = this.graph.adjacencyList.get(u) || [];
-            for (const { node: v, weight } of neighbors) {
+            const { offsets, targets, weights } = this.csr;
+            for (let e = offsets[u]; e < offsets[u + 1]; e++) {
+                const v = targets[e];
                 this.operations++;
-                const newDist = this.dist[u] + weight;
+                const newDist = this.dist[u] + weights[e];
 
                 if (newDist <= this.dist[v] && newDist < B) {
                     if (newDist < this.dist[v]) {
                         this.dist[v] = newDist;
                         this.pred[v] = u;
                         this.relaxations++;
+                        this.changed.add(v);
                     }
 
                     // Add to frontier if not already complete
@@ -382,57 +430,98 @@ export class NewSSSP {
         action: AlgorithmStep['action'],
         details?: AlgorithmStep['details']
     ): void {
-        const pivots = new Set<number>();
-        const frontier = new Set<number>();
-        const current = currentNode !== null ? new Set([currentNode]) : new Set<number>();
-
-        const visualState = this.createVisState(pivots, frontier, current);
-
-        this.steps.push({
-            stepNumber: this.stepNum++,
-            description,
-            currentNode,
-            action,
-            visualState,
-            details,
+        this.recorder.record(action, () => {
+            // Show the innermost call's pivots and frontier; W only where FindPivots builds it
+            const call = this.active[this.active.length - 1];
+            this.updateView(
+                call?.pivots ?? new Set(),
+                call?.frontier?.getVertices() ?? [],
+                action === 'find_pivots' && call ? call.W : [],
+                currentNode
+            );
+
+            return {
+                description,
+                currentNode: currentNode !== null ? this.ids[currentNode] : null,
+                details,
+            };
         });
     }
 
-    private createVisState(
+    /**
+     * Bring the recorder's visual state up to date, touching only the nodes
+     * that changed since the last recorded step. Takes positions; the state
+     * is keyed by node id.
+     */
+    private updateView(
         pivots: Set<number>,
-        frontier: Set<number>,
-        current: Set<number>
-    ): VisualizationState {
-        const nodeStates = new Map<number, NodeState>();
+        frontier: Iterable<number>,
+        workingSet: Iterable<number>,
+        current: number | null
+    ): void {
+        const view = this.recorder.state;
+        const repaint = new Set(this.changed);
+        for (const v of this.shownPivots) repaint.add(v);
+        for (const v of pivots) repaint.add(v);
+        if (this.shownCurrent !== null) repaint.add(this.shownCurrent);
+        if (current !== null) repaint.add(current);
+
+        for (const i of this.changed) {
+            view.distances.set(this.ids[i], this.dist[i]);
+            view.predecessors.set(this.ids[i], this.pred[i] === -1 ? -1 : this.ids[this.pred[i]]);
+        }
+        this.changed.clear();
 
-        for (let i = 0; i < this.n; i++) {
-            if (current.has(i)) {
-                nodeStates.set(i, NodeState.CURRENT);
+        for (const i of repaint) {
+            const id = this.ids[i];
+            if (i === current) {
+                view.nodeStates.set(id, NodeState.CURRENT);
             } else if (pivots.has(i)) {
-                nodeStates.set(i, NodeState.PIVOT);
+                view.nodeStates.set(id, NodeState.PIVOT);
             } else if (this.complete[i]) {
-                nodeStates.set(i, NodeState.COMPLETE);
+                view.nodeStates.set(id, NodeState.COMPLETE);
             } else if (this.dist[i] !== Infinity) {
-                nodeStates.set(i, NodeState.VISITED);
+                view.nodeStates.set(id, NodeState.VISITED);
             } else {
-                nodeStates.set(i, NodeState.UNVISITED);
+                view.nodeStates.set(id, NodeState.UNVISITED);
             }
         }
+        this.shownPivots = pivots;
+        this.shownCurrent = current;
 
-        const distMap = new Map<number, number>();
-        const predMap = new Map<number, number>();
-        for (let i = 0; i < this.n; i++) {
-            distMap.set(i, this.dist[i]);
-            predMap.set(i, this.pred[i]);
-        }
-
-        return {
-            nodeStates,
-            distances: distMap,
-            predecessors: predMap,
-            activeEdges: new Set(),
-            pivots,
-            frontier,
-        };
+        const toIds = (positions: Iterable<number>) => Array.from(positions, v => this.ids[v]);
+        view.pivots.replace(toIds(pivots));
+        view.frontier.replace(toIds(frontier));
+        view.workingSet.replace(toIds(workingSet));
     }
 }
+
+export const newSSSPAlgorithm: AlgorithmDefinition<'new-sssp'> = {
+    id: 'new-sssp',
+    name: 'New SSSP Algorithm',
+    shortName: 'New SSSP',
+    complexity: 'O(m log^(2/3) n)',
+    accentClass: 'text-purple-600 dark:text-purple-400',
+    highlights: [
+        'Uses adaptive frontier structure',
+        'FindPivots reduces frontier size',
+        'Complexity: O(m log^(2/3) n)',
+        'Breakthrough on sparse graphs!',
+    ],
+    explanations: {
+        initialize: 'Setting up algorithm parameters k and t for optimal complexity.',
+        find_pivots: 'Reducing frontier by finding vertices with large shortest-path trees.',
+        bmssp_call: 'Recursive bounded multi-source shortest path call.',
+        frontier_pull: 'Pulling next batch of vertices from adaptive frontier.',
+        visit: 'Processing node in base case mini-Dijkstra.',
+        relax: 'Updating distances through edge relaxation.',
+        done: 'Algorithm complete - achieved O(m log^(2/3) n) complexity!',
+    },
+    parameters: stats => [
+        { label: 'k', value: stats.k },
+        { label: 't', value: stats.t },
+        { label: 'Levels', value: stats.levels },
+        { label: 'Pivots', value: stats.pivotsCount },
+    ],
+    run: (graph, source, destination, options) => new NewSSSP(graph).solve(source, destination, options),
+};
@@ -0,0 +1,107 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
+/**
+ * Pairing Heap - a heap-ordered multiway tree
+ * Insert and meld are O(1); extractMin is amortized O(log n) using the
+ * two-pass pairing of the root's children; decreaseKey cuts the node's
+ * subtree and melds it back with the root.
+ */
+
+interface PairingNode {
+    vertex: number;
+    distance: number;
+    child: PairingNode | null;
+    sibling: PairingNode | null;
+    prev: PairingNode | null; // parent if first child, otherwise left sibling
+}
+
+export class PairingHeap implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    private root: PairingNode | null = null;
+    private nodes: Map<number, PairingNode> = new Map();
+
+    insert(vertex: number, distance: number): void {
+        this.counters.inserts++;
+        const node: PairingNode = { vertex, distance, child: null, sibling: null, prev: null };
+        this.nodes.set(vertex, node);
+        this.root = this.meld(this.root, node);
+    }
+
+    extractMin(): number | null {
+        const min = this.root;
+        if (!min) return null;
+        this.counters.extractMins++;
+
+        this.nodes.delete(min.vertex);
+        this.root = this.mergePairs(min.child);
+        return min.vertex;
+    }
+
+    decreaseKey(vertex: number, newDistance: number): void {
+        const node = this.nodes.get(vertex);
+        if (!node) return;
+        this.counters.decreaseKeys++;
+        node.distance = newDistance;
+        if (node === this.root) return;
+
+        // Cut the subtree out of its sibling list and meld it with the root
+        if (node.prev!.child === node) {
+            node.prev!.child = node.sibling;
+        } else {
+            node.prev!.sibling = node.sibling;
+        }
+        if (node.sibling) node.sibling.prev = node.prev;
+        node.prev = null;
+        node.sibling = null;
+        this.root = this.meld(this.root, node);
+    }
+
+    contains(vertex: number): boolean {
+        return this.nodes.has(vertex);
+    }
+
+    isEmpty(): boolean {
+        return this.root === null;
+    }
+
+    size(): number {
+        return this.nodes.size;
+    }
+
+    // Link two roots: the larger becomes the first child of the smaller
+    private meld(a: PairingNode | null, b: PairingNode | null): PairingNode | null {
+        if (!a) return b;
+        if (!b) return a;
+        this.counters.work++;
+        if (b.distance < a.distance) [a, b] = [b, a];
+
+        b.prev = a;
+        b.sibling = a.child;
+        if (a.child) a.child.prev = b;
+        a.child = b;
+        return a;
+    }
+
+    // Two-pass pairing: meld neighbours left to right, then fold right to left
+    private mergePairs(first: PairingNode | null): PairingNode | null {
+        const trees: PairingNode[] = [];
+        for (let node = first; node; ) {
+            const next = node.sibling;
+            node.prev = null;
+            node.sibling = null;
+            trees.push(node);
+            node = next;
+        }
+
+        const paired: PairingNode[] = [];
+        for (let i = 0; i < trees.length; i += 2) {
+            paired.push(this.meld(trees[i], trees[i + 1] ?? null)!);
+        }
+
+        let root: PairingNode | null = null;
+        for (let i = paired.length - 1; i >= 0; i--) {
+            root = this.meld(paired[i], root);
+        }
+        return root;
+    }
+}
@@ -0,0 +1,104 @@
+import { Graph, PriorityQueueType } from './types';
+import { UnsupportedGraphError } from './Graph';
+import { MinHeap } from './MinHeap';
+import { DaryHeap } from './DaryHeap';
+import { PairingHeap } from './PairingHeap';
+import { FibonacciHeap } from './FibonacciHeap';
+import { RadixHeap } from './RadixHeap';
+import { BucketQueue, MAX_BUCKET_WEIGHT } from './BucketQueue';
+
+/**
+ * How often each queue operation ran, plus the elementary work behind them
+ * (key comparisons, links, bucket scans and moves) so queues with very
+ * different internals can be compared on one number.
+ */
+export interface QueueCounters {
+    inserts: number;
+    extractMins: number;
+    decreaseKeys: number;
+    work: number;
+}
+
+export function createCounters(): QueueCounters {
+    return { inserts: 0, extractMins: 0, decreaseKeys: 0, work: 0 };
+}
+
+/**
+ * Addressable min-priority queue of vertices keyed by tentative distance
+ */
+export interface PriorityQueue {
+    readonly counters: QueueCounters;
+    insert(vertex: number, distance: number): void;
+    extractMin(): number | null;
+    decreaseKey(vertex: number, newDistance: number): void;
+    contains(vertex: number): boolean;
+    isEmpty(): boolean;
+    size(): number;
+}
+
+export const PRIORITY_QUEUES: Array<{ id: PriorityQueueType; name: string; description: string }> = [
+    { id: 'binary', name: 'Binary heap', description: 'O(log n) insert, extract-min and decrease-key' },
+    { id: 'lazy-binary', name: 'Binary heap (lazy deletion)', description: 'Decrease-key pushes a duplicate entry; stale entries are skipped on extract-min' },
+    { id: 'd-ary', name: 'd-ary heap', description: 'Shallower heap: O(log_d n) decrease-key, O(d log_d n) extract-min' },
+    { id: 'pairing', name: 'Pairing heap', description: 'O(1) insert, amortized O(log n) extract-min, fast decrease-key in practice' },
+    { id: 'fibonacci', name: 'Fibonacci heap', description: 'O(1) amortized insert and decrease-key, O(log n) extract-min' },
+    { id: 'radix', name: 'Radix heap', description: 'Monotone queue for integer weights, O(log C) amortized per operation' },
+    { id: 'dial', name: "Dial's buckets", description: 'Monotone bucket queue for integer weights up to C, O(m + nC) total' },
+];
+
+/**
+ * Build the queue a Dijkstra run asked for. The monotone queues (radix
+ * heap and Dial's buckets) only work with integer weights and throw an
+ * UnsupportedGraphError otherwise. Binary heaps can check their
+ * invariants after every operation when debugging.
+ */
+export function createPriorityQueue(
+    type: PriorityQueueType,
+    graph: Graph,
+    arity: number = 4,
+    checkInvariants: boolean = false
+): PriorityQueue {
+    switch (type) {
+        case 'binary':
+            return new MinHeap([], { checkInvariants });
+        case 'lazy-binary':
+            return new MinHeap([], { lazy: true, checkInvariants });
+        case 'd-ary':
+            return new DaryHeap(arity);
+        case 'pairing':
+            return new PairingHeap();
+        case 'fibonacci':
+            return new FibonacciHeap();
+        case 'radix': {
+            const total = requireIntegerWeights(graph, 'The radix heap');
+            if (total > 0x7fffffff) {
+                throw new UnsupportedGraphError('The radix heap needs path lengths below 2^31; the edge weights of this graph are too large.');
+            }
+            return new RadixHeap();
+        }
+        case 'dial': {
+            requireIntegerWeights(graph, "Dial's bucket queue");
+            const maxWeight = graph.edges.reduce((max, e) => Math.max(max, e.weight), 1);
+            if (maxWeight > MAX_BUCKET_WEIGHT) {
+                throw new UnsupportedGraphError(
+                    `Dial's bucket queue scans one bucket per unit of weight, so it needs edge weights up to ${MAX_BUCKET_WEIGHT}; this graph has weight ${maxWeight}.`
+                );
+            }
+            return new BucketQueue(maxWeight);
+        }
+    }
+}
+
+// Returns the total edge weight, an upper bound on any shortest path
+function requireIntegerWeights(graph: Graph, queue: string): number {
+    let total = 0;
+    for (const edge of graph.edges) {
+        if (!Number.isInteger(edge.weight)) {
+            throw new UnsupportedGraphError(
+                `${queue} needs integer edge weights, but edge ${edge.from} → ${edge.to} has weight ${edge.weight}.`
+            );
+        }
+        total += edge.weight;
+    }
+    return total;
+}
@@ -0,0 +1,90 @@
+import { PriorityQueue, QueueCounters, createCounters } from './PriorityQueue';
+
+/**
+ * Radix Heap - monotone priority queue for integer keys
+ * Bucket i holds keys whose highest bit differing from the last extracted
+ * key is bit i - 1 (bucket 0 holds keys equal to it). extractMin empties
+ * the lowest non-empty bucket by redistributing it around its minimum, and
+ * each key only ever moves to lower buckets: O(log C) amortized per key.
+ *
+ * Keys must be non-negative integers below 2^31, and no key may be smaller
+ * than the last one extracted - both hold for Dijkstra on integer weights.
+ */
+
+const BUCKETS = 33;
+
+export class RadixHeap implements PriorityQueue {
+    readonly counters: QueueCounters = createCounters();
+    private buckets: Array<Set<number>> = Array.from({ length: BUCKETS }, () => new Set());
+    private keys: Map<number, number> = new Map();
+    private last = 0;
+
+    insert(vertex: number, distance: number): void {
+        this.counters.inserts++;
+        this.checkKey(distance);
+        this.keys.set(vertex, distance);
+        this.buckets[this.bucketOf(distance)].add(vertex);
+    }
+
+    extractMin(): number | null {
+        if (this.keys.size === 0) return null;
+        this.counters.extractMins++;
+
+        if (this.buckets[0].size === 0) {
+            let i = 1;
+            while (this.buckets[i].size === 0) {
+                this.counters.work++;
+                i++;
+            }
+
+            // Re-anchor on the bucket's minimum and spread it over lower buckets
+            const bucket = this.buckets[i];
+            let min = Infinity;
+            for (const vertex of bucket) min = Math.min(min, this.keys.get(vertex)!);
+            this.last = min;
+            for (const vertex of bucket) {
+                this.counters.work++;
+                this.buckets[this.bucketOf(this.keys.get(vertex)!)].add(vertex);
+            }
+            bucket.clear();
+        }
+
+        const vertex: number = this.buckets[0].values().next().value!;
+        this.buckets[0].delete(vertex);
+        this.keys.delete(vertex);
+        return vertex;
+    }
+
+    decreaseKey(vertex: number, newDistance: number): void {
+        const oldDistance = this.keys.get(vertex);
+        if (oldDistance === undefined) return;
+        this.counters.decreaseKeys++;
+        this.checkKey(newDistance);
+
+        this.buckets[this.bucketOf(oldDistance)].delete(vertex);
+        this.keys.set(vertex, newDistance);
+        this.buckets[this.bucketOf(newDistance)].add(vertex);
+    }
+
+    contains(vertex: number): boolean {
+        return this.keys.has(vertex);
+    }
+
+    isEmpty(): boolean {
+        return this.keys.size === 0;
+    }
+
+    size(): number {
+        return this.keys.size;
+    }
+
+    private bucketOf(key: number): number {
+        return key === this.last ? 0 : 32 - Math.clz32(key ^ this.last);
+    }
+
+    private checkKey(key: number): void {
+        if (!Number.isInteger(key) || key < this.last || key > 0x7fffffff) {
+            throw new RangeError(`Radix heap keys must be integers between ${this.last} and 2^31 - 1, got ${key}`);
+        }
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ * The same seed produces the same sequence on every machine, so generated
+ * graphs can be reproduced in the UI, benchmarks and tests.
+ */
+
+export type Rng = () => number;
+
+/**
+ * Create a generator returning floats in [0, 1) from a 32-bit seed
+ */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Pick a fresh seed for when the caller doesn't supply one
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
@@ -0,0 +1,60 @@
+import { RecursionFrame } from './types';
+
+/**
+ * Builds the tree of BMSSP(l, B, S) calls during a run
+ *
+ * Each frame spans the recorded steps [firstStep, endStep) made while the
+ * call was active, so the UI can find the frame behind any step and jump
+ * to the start of a call. Frames are built in every recording mode; with
+ * no steps recorded they simply span nothing.
+ */
+export class CallTreeBuilder {
+    root: RecursionFrame | undefined;
+    private stack: RecursionFrame[] = [];
+    private nextId = 0;
+
+    // stepCount reads how many steps have been recorded so far
+    constructor(private stepCount: () => number) {}
+
+    enter(level: number, bound: number, frontierSize: number): RecursionFrame {
+        const step = this.stepCount();
+        const frame: RecursionFrame = {
+            id: this.nextId++,
+            level,
+            bound,
+            frontierSize,
+            pivots: [],
+            children: [],
+            firstStep: step,
+            endStep: step,
+        };
+
+        const parent = this.stack[this.stack.length - 1];
+        if (parent) {
+            parent.children.push(frame);
+        } else {
+            this.root = frame;
+        }
+        this.stack.push(frame);
+        return frame;
+    }
+
+    exit(frame: RecursionFrame, returnedBound: number, completedCount: number): void {
+        frame.returnedBound = returnedBound;
+        frame.completedCount = completedCount;
+        frame.endStep = this.stepCount();
+        this.stack.pop();
+    }
+}
+
+/**
+ * Frames whose steps include the given step, outermost first
+ */
+export function activeFrames(root: RecursionFrame, step: number): RecursionFrame[] {
+    const contains = (frame: RecursionFrame) => frame.firstStep <= step && step < frame.endStep;
+    const path: RecursionFrame[] = [];
+    for (let frame: RecursionFrame | undefined = root; frame && contains(frame); frame = frame.children.find(contains)) {
+        path.push(frame);
+    }
+    return path;
+}
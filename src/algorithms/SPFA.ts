@@ -0,0 +1,164 @@
+import { Graph, AlgorithmResult, AlgorithmDefinition, RunOptions } from './types';
+import { StepRecorder } from './StepRecorder';
+import { ReachView, buildPath, findPredecessorCycle, recordOutcome } from './BellmanFord';
+
+/**
+ * SPFA (Shortest Path Faster Algorithm) - queue-based Bellman-Ford
+ * Time Complexity: O(nm) worst case, usually close to O(m)
+ *
+ * Only nodes whose distance just improved are queued for relaxation.
+ * Each node tracks the edge count of its current path; once that reaches n
+ * the path repeats a node, so the predecessor graph is searched for the
+ * negative cycle, which is reported in result.negativeCycle.
+ */
+export function spfa(
+    graph: Graph,
+    source: number,
+    destination?: number,
+    options: RunOptions = {}
+): AlgorithmResult {
+    const startTime = performance.now();
+    const recorder = new StepRecorder(options, () => operations);
+    const n = graph.nodes.length;
+
+    const dist = new Map<number, number>();
+    const pred = new Map<number, number>();
+    const pathEdges = new Map<number, number>();
+
+    let operations = 0;
+    let relaxations = 0;
+    let enqueues = 0;
+
+    for (const node of graph.nodes) {
+        dist.set(node.id, Infinity);
+        pred.set(node.id, -1);
+        pathEdges.set(node.id, 0);
+    }
+    dist.set(source, 0);
+
+    // FIFO queue; `queued` mirrors its contents for membership tests
+    const queue: number[] = [source];
+    const queued = new Set<number>([source]);
+    let head = 0;
+    enqueues++;
+
+    // The queue is drawn as the frontier
+    const view = new ReachView(recorder.state, graph, source);
+    view.state.frontier.add(source);
+
+    // Step number of each reached node's latest improvement; dequeuing a node does not settle it
+    const changedAt = new Map<number, number>([[source, recorder.stepCount]]);
+
+    recorder.record('initialize', () => ({
+        description: `Initialize: Set distance of source node ${source} to 0, all others to ∞, and queue the source`,
+        currentNode: source,
+    }));
+
+    let negativeCycle: number[] | undefined;
+
+    while (head < queue.length && !negativeCycle) {
+        const u = queue[head++];
+        queued.delete(u);
+        operations++;
+
+        // Reclaim the consumed prefix now and then
+        if (head > 1024 && head * 2 > queue.length) {
+            queue.splice(0, head);
+            head = 0;
+        }
+
+        view.state.frontier.delete(u);
+        view.focus(u);
+        recorder.record('visit', () => ({
+            description: `Dequeue node ${u} with distance ${dist.get(u)}`,
+            currentNode: u,
+            details: { frontierSize: queued.size },
+        }));
+
+        const du = dist.get(u)!;
+        for (const { node: v, weight } of graph.adjacencyList.get(u) || []) {
+            operations++;
+            const newDist = du + weight;
+            const oldDist = dist.get(v)!;
+            if (newDist >= oldDist) continue;
+
+            dist.set(v, newDist);
+            pred.set(v, u);
+            pathEdges.set(v, pathEdges.get(u)! + 1);
+            relaxations++;
+
+            if (!queued.has(v)) {
+                queue.push(v);
+                queued.add(v);
+                enqueues++;
+            }
+            changedAt.set(v, recorder.stepCount);
+            view.relax(u, v, newDist);
+            view.state.frontier.add(v);
+
+            recorder.record('relax', () => ({
+                description: `Relax edge (${u} → ${v}): distance updated from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}`,
+                currentNode: u,
+                details: {
+                    distanceUpdates: [{ node: v, oldDist, newDist }],
+                    edgeRelaxed: { from: u, to: v },
+                },
+            }));
+
+            // A path of n edges repeats a node, so a negative cycle is reachable
+            if (pathEdges.get(v)! >= n) {
+                negativeCycle = findPredecessorCycle(pred, [v, ...graph.nodes.map(node => node.id)]) ?? undefined;
+                if (negativeCycle) break;
+            }
+        }
+    }
+
+    const endTime = performance.now();
+    const shortestPath = negativeCycle ? [] : buildPath(pred, dist, destination);
+
+    recordOutcome(recorder, view, graph, dist, shortestPath, destination, negativeCycle);
+    recorder.settleByFinalDistance(changedAt.values());
+
+    return {
+        distances: dist,
+        predecessors: pred,
+        shortestPath,
+        steps: recorder.steps,
+        trace: recorder.trace,
+        negativeCycle,
+        statistics: {
+            executionTime: endTime - startTime,
+            operations,
+            relaxations,
+            enqueues,
+            nodesProcessed: Array.from(dist.values()).filter(d => d !== Infinity).length,
+            complexity: 'O(nm) worst case',
+        },
+    };
+}
+
+export const spfaAlgorithm: AlgorithmDefinition<'spfa'> = {
+    id: 'spfa',
+    name: 'SPFA',
+    shortName: 'SPFA',
+    complexity: 'O(nm) worst case',
+    accentClass: 'text-rose-600 dark:text-rose-400',
+    supportsNegativeWeights: true,
+    highlights: [
+        'Queue-based Bellman-Ford',
+        'Only rescans nodes whose distance improved',
+        'Complexity: O(nm) worst case, often near O(m)',
+        'Handles negative weights and detects negative cycles',
+    ],
+    explanations: {
+        initialize: 'Setting up initial distances and queueing the source.',
+        visit: 'Taking the next node off the queue to relax its outgoing edges.',
+        relax: 'A shorter path was found; the neighbor is queued so its edges get rescanned.',
+        negative_cycle: 'A path grew to n edges, so it repeats a node: a cycle of negative total weight is reachable and distances are unbounded.',
+        done: 'The queue is empty; all distances are final.',
+    },
+    parameters: stats => [
+        { label: 'Enqueues', value: stats.enqueues },
+    ],
+    run: spfa,
+};
@@ -0,0 +1,56 @@
+/**
+ * Shortest-path tree helpers for the canvas overlay
+ *
+ * A tree edge is (predecessors[v], v) for every vertex with a predecessor;
+ * -1 marks the source and unreached vertices.
+ */
+
+export type TreeEdge = [from: number, to: number];
+
+export interface TreeChange {
+    added: TreeEdge[];
+    removed: TreeEdge[];
+}
+
+export function treeEdges(predecessors: Map<number, number>): TreeEdge[] {
+    const edges: TreeEdge[] = [];
+    for (const [v, p] of predecessors) {
+        if (p !== -1) edges.push([p, v]);
+    }
+    return edges;
+}
+
+/**
+ * Tree edges that appeared or disappeared between two steps. A vertex whose
+ * predecessor changed contributes one removed and one added edge.
+ */
+export function diffTrees(prev: Map<number, number>, next: Map<number, number>): TreeChange {
+    const added: TreeEdge[] = [];
+    const removed: TreeEdge[] = [];
+    for (const [v, p] of next) {
+        const old = prev.get(v) ?? -1;
+        if (old === p) continue;
+        if (old !== -1) removed.push([old, v]);
+        if (p !== -1) added.push([p, v]);
+    }
+    for (const [v, old] of prev) {
+        if (old !== -1 && !next.has(v)) removed.push([old, v]);
+    }
+    return { added, removed };
+}
+
+/**
+ * Follow predecessors from a vertex back to its root. The path is returned
+ * root first; cycle is set when the walk revisits a vertex, which can happen
+ * mid-run on graphs with negative cycles.
+ */
+export function pathToRoot(predecessors: Map<number, number>, node: number): { path: number[]; cycle: boolean } {
+    const path: number[] = [];
+    const seen = new Set<number>();
+    for (let v = node; v !== -1 && v !== undefined; v = predecessors.get(v) ?? -1) {
+        if (seen.has(v)) return { path: path.reverse(), cycle: true };
+        seen.add(v);
+        path.push(v);
+    }
+    return { path: path.reverse(), cycle: false };
+}
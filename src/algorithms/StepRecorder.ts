@@ -0,0 +1,113 @@
+import { AlgorithmStep, RunOptions, StepRecording } from './types';
+import { LiveState, StepTrace } from './StepTrace';
+
+const MILESTONE_ACTIONS = new Set<AlgorithmStep['action']>([
+    'initialize',
+    'find_pivots',
+    'bmssp_call',
+    'frontier_pull',
+    'round',
+    'negative_cycle',
+    'meet',
+    'done',
+]);
+
+/**
+ * Collects algorithm steps according to the run's recording mode
+ *
+ * Every step gets a number, recorded or not, so sampled traces keep their
+ * position in the full run. The step body is built lazily, so skipped steps
+ * cost nothing beyond their number. Algorithms keep the visual state up to
+ * date in `state` as they go; each recorded step stores only what changed
+ * there since the previous one, in a delta-encoded StepTrace. With recording
+ * off, updates to `state` are no-ops.
+ *
+ * Milestone traces keep every sampleInterval-th visit as well, so the
+ * frontier of a Dijkstra-like run can still be watched advancing.
+ *
+ * Recorded steps also carry the run's progress (visit steps and operations
+ * so far, see settleByFinalDistance), which lets two traces be lined up on a
+ * shared timeline.
+ */
+export class StepRecorder {
+    readonly steps: AlgorithmStep[] = [];
+    readonly trace = new StepTrace();
+    readonly state: LiveState;
+    private mode: StepRecording;
+    private sampleInterval: number;
+    private nextStepNumber = 0;
+    private settled = 0;
+
+    /**
+     * operations reads the algorithm's running operation count
+     */
+    constructor(options: RunOptions = {}, private operations: () => number = () => 0) {
+        this.mode = options.recording ?? 'all';
+        this.sampleInterval = Math.max(1, Math.floor(options.sampleInterval ?? 10));
+        this.state = new LiveState(this.mode !== 'none');
+    }
+
+    get isRecording(): boolean {
+        return this.mode !== 'none';
+    }
+
+    /**
+     * Number the next step will get
+     */
+    get stepCount(): number {
+        return this.nextStepNumber;
+    }
+
+    record(
+        action: AlgorithmStep['action'],
+        build: () => Omit<AlgorithmStep, 'stepNumber' | 'action' | 'progress'>
+    ): void {
+        const stepNumber = this.nextStepNumber++;
+        if (action === 'visit') this.settled++;
+        if (!this.keeps(action, stepNumber)) return;
+
+        const progress = { settled: this.settled, operations: this.operations() };
+        this.steps.push({ stepNumber, action, ...build(), progress });
+        this.trace.record(this.state);
+    }
+
+    /**
+     * Restamp progress.settled for label-correcting algorithms, where a
+     * visited node can still improve: a node counts as settled from the step
+     * that gave it its final distance. changedAt holds that step number for
+     * every reached node.
+     */
+    settleByFinalDistance(changedAt: Iterable<number>): void {
+        const sorted = Array.from(changedAt).sort((a, b) => a - b);
+        let settled = 0;
+        for (const step of this.steps) {
+            while (settled < sorted.length && sorted[settled] <= step.stepNumber) settled++;
+            step.progress = { ...step.progress!, settled };
+        }
+    }
+
+    private keeps(action: AlgorithmStep['action'], stepNumber: number): boolean {
+        switch (this.mode) {
+            case 'all':
+                return true;
+            case 'sampled':
+                return stepNumber % this.sampleInterval === 0 || action === 'initialize' || action === 'negative_cycle' || action === 'done';
+            case 'milestones':
+                return MILESTONE_ACTIONS.has(action) || (action === 'visit' && this.settled % this.sampleInterval === 0);
+            case 'none':
+                return false;
+        }
+    }
+}
+
+/**
+ * Recording settings that keep traces small enough for the UI.
+ * Without an explicit mode, large graphs fall back to sampling or milestones.
+ */
+export function recommendedRunOptions(nodeCount: number, recording?: StepRecording): RunOptions {
+    const sampleInterval = Math.max(2, Math.ceil(nodeCount / 50));
+    if (recording) return { recording, sampleInterval };
+    if (nodeCount <= 200) return { recording: 'all' };
+    if (nodeCount <= 2000) return { recording: 'sampled', sampleInterval };
+    return { recording: 'milestones', sampleInterval };
+}
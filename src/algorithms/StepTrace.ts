@@ -0,0 +1,291 @@
+import { NodeState, VisualizationState, VisualizationTrace } from './types';
+
+/**
+ * Delta-encoded visualization trace
+ *
+ * Algorithms update one LiveState in place as they run, and each recorded
+ * step stores only the entries changed since the previous recorded step.
+ * Recording a step therefore costs time proportional to what changed, not
+ * to the size of the graph.
+ *
+ * A full keyframe is taken once the deltas since the last keyframe add up
+ * to the size of the state, so reconstructing any step copies one keyframe
+ * and applies at most that many changes: about twice the work of copying
+ * the state, wherever the step is in the run.
+ */
+
+interface MapDelta<K, V> {
+    set: Array<[K, V]>;
+    deleted: K[];
+}
+
+interface SetDelta<T> {
+    added: T[];
+    removed: T[];
+}
+
+interface StateDelta {
+    nodeStates: MapDelta<number, NodeState>;
+    distances: MapDelta<number, number>;
+    predecessors: MapDelta<number, number>;
+    activeEdges: SetDelta<string>;
+    pivots: SetDelta<number>;
+    frontier: SetDelta<number>;
+    workingSet: SetDelta<number>;
+}
+
+/**
+ * A map that remembers which keys changed since changes were last taken
+ */
+export class TrackedMap<K, V> {
+    private values = new Map<K, V>();
+    private dirty = new Set<K>();
+
+    constructor(private enabled: boolean) {}
+
+    get size(): number {
+        return this.values.size;
+    }
+
+    get(key: K): V | undefined {
+        return this.values.get(key);
+    }
+
+    set(key: K, value: V): void {
+        if (!this.enabled || (this.values.has(key) && Object.is(this.values.get(key), value))) return;
+        this.values.set(key, value);
+        this.dirty.add(key);
+    }
+
+    delete(key: K): void {
+        if (this.enabled && this.values.delete(key)) this.dirty.add(key);
+    }
+
+    copy(): Map<K, V> {
+        return new Map(this.values);
+    }
+
+    take(): MapDelta<K, V> {
+        const set: Array<[K, V]> = [];
+        const deleted: K[] = [];
+        for (const key of this.dirty) {
+            if (this.values.has(key)) set.push([key, this.values.get(key)!]);
+            else deleted.push(key);
+        }
+        this.dirty.clear();
+        return { set, deleted };
+    }
+}
+
+/**
+ * A set that remembers which values came and went since changes were last taken
+ */
+export class TrackedSet<T> {
+    private values = new Set<T>();
+    private dirty = new Set<T>();
+
+    constructor(private enabled: boolean) {}
+
+    get size(): number {
+        return this.values.size;
+    }
+
+    has(value: T): boolean {
+        return this.values.has(value);
+    }
+
+    add(value: T): void {
+        if (!this.enabled || this.values.has(value)) return;
+        this.values.add(value);
+        this.dirty.add(value);
+    }
+
+    delete(value: T): void {
+        if (this.enabled && this.values.delete(value)) this.dirty.add(value);
+    }
+
+    /**
+     * Make the set hold exactly the given values
+     */
+    replace(next: Iterable<T>): void {
+        if (!this.enabled) return;
+        const keep = next instanceof Set ? next : new Set(next);
+        for (const value of this.values) {
+            if (!keep.has(value)) this.delete(value);
+        }
+        for (const value of keep) this.add(value);
+    }
+
+    copy(): Set<T> {
+        return new Set(this.values);
+    }
+
+    take(): SetDelta<T> {
+        const added: T[] = [];
+        const removed: T[] = [];
+        for (const value of this.dirty) {
+            if (this.values.has(value)) added.push(value);
+            else removed.push(value);
+        }
+        this.dirty.clear();
+        return { added, removed };
+    }
+}
+
+/**
+ * The visualization state of a running algorithm. When disabled (runs that
+ * record no steps) every update is a no-op.
+ */
+export class LiveState {
+    readonly nodeStates: TrackedMap<number, NodeState>;
+    readonly distances: TrackedMap<number, number>;
+    readonly predecessors: TrackedMap<number, number>;
+    readonly activeEdges: TrackedSet<string>;
+    readonly pivots: TrackedSet<number>;
+    readonly frontier: TrackedSet<number>;
+    readonly workingSet: TrackedSet<number>;
+
+    constructor(enabled: boolean = true) {
+        this.nodeStates = new TrackedMap(enabled);
+        this.distances = new TrackedMap(enabled);
+        this.predecessors = new TrackedMap(enabled);
+        this.activeEdges = new TrackedSet(enabled);
+        this.pivots = new TrackedSet(enabled);
+        this.frontier = new TrackedSet(enabled);
+        this.workingSet = new TrackedSet(enabled);
+    }
+
+    // Total number of entries, the cost of copying the state
+    get size(): number {
+        return this.nodeStates.size + this.distances.size + this.predecessors.size +
+            this.activeEdges.size + this.pivots.size + this.frontier.size + this.workingSet.size;
+    }
+
+    snapshot(): VisualizationState {
+        return {
+            nodeStates: this.nodeStates.copy(),
+            distances: this.distances.copy(),
+            predecessors: this.predecessors.copy(),
+            activeEdges: this.activeEdges.copy(),
+            pivots: this.pivots.copy(),
+            frontier: this.frontier.copy(),
+            workingSet: this.workingSet.copy(),
+        };
+    }
+
+    /**
+     * Changes since the last call
+     */
+    takeDelta(): StateDelta {
+        return {
+            nodeStates: this.nodeStates.take(),
+            distances: this.distances.take(),
+            predecessors: this.predecessors.take(),
+            activeEdges: this.activeEdges.take(),
+            pivots: this.pivots.take(),
+            frontier: this.frontier.take(),
+            workingSet: this.workingSet.take(),
+        };
+    }
+}
+
+export class StepTrace implements VisualizationTrace {
+    private keyframes: VisualizationState[] = [];
+    private keyframeSteps: number[] = []; // step index of each keyframe
+    private keyframeOf: number[] = []; // keyframe each step is rebuilt from
+    private deltas: Array<StateDelta | null> = []; // null at keyframe positions
+    private changesSinceKeyframe = 0;
+
+    // Last reconstructed state, so repeated lookups of one step are free
+    private cachedIndex = -1;
+    private cachedState: VisualizationState | null = null;
+
+    get length(): number {
+        return this.deltas.length;
+    }
+
+    /**
+     * Append the live state as the next step
+     */
+    record(state: LiveState): void {
+        const delta = state.takeDelta();
+        const changes = deltaSize(delta);
+
+        if (this.deltas.length === 0 || this.changesSinceKeyframe + changes > state.size) {
+            this.keyframeSteps.push(this.deltas.length);
+            this.keyframes.push(state.snapshot());
+            this.deltas.push(null);
+            this.changesSinceKeyframe = 0;
+        } else {
+            this.deltas.push(delta);
+            this.changesSinceKeyframe += changes;
+        }
+        this.keyframeOf.push(this.keyframes.length - 1);
+    }
+
+    /**
+     * Reconstruct the state at a step. The returned object is shared
+     * with the cache and must not be mutated.
+     */
+    getState(index: number): VisualizationState {
+        if (index < 0 || index >= this.deltas.length) {
+            throw new RangeError(`Step ${index} is outside the trace (0..${this.deltas.length - 1})`);
+        }
+        if (index === this.cachedIndex && this.cachedState) {
+            return this.cachedState;
+        }
+
+        const keyframe = this.keyframeOf[index];
+        const state = cloneState(this.keyframes[keyframe]);
+        for (let i = this.keyframeSteps[keyframe] + 1; i <= index; i++) {
+            applyDelta(state, this.deltas[i]!);
+        }
+
+        this.cachedIndex = index;
+        this.cachedState = state;
+        return state;
+    }
+}
+
+export function cloneState(state: VisualizationState): VisualizationState {
+    return {
+        nodeStates: new Map(state.nodeStates),
+        distances: new Map(state.distances),
+        predecessors: new Map(state.predecessors),
+        activeEdges: new Set(state.activeEdges),
+        pivots: new Set(state.pivots),
+        frontier: new Set(state.frontier),
+        workingSet: new Set(state.workingSet),
+    };
+}
+
+function deltaSize(delta: StateDelta): number {
+    let size = 0;
+    for (const part of [delta.nodeStates, delta.distances, delta.predecessors]) {
+        size += part.set.length + part.deleted.length;
+    }
+    for (const part of [delta.activeEdges, delta.pivots, delta.frontier, delta.workingSet]) {
+        size += part.added.length + part.removed.length;
+    }
+    return size;
+}
+
+function applyDelta(state: VisualizationState, delta: StateDelta): void {
+    applyMapDelta(state.nodeStates, delta.nodeStates);
+    applyMapDelta(state.distances, delta.distances);
+    applyMapDelta(state.predecessors, delta.predecessors);
+    applySetDelta(state.activeEdges, delta.activeEdges);
+    applySetDelta(state.pivots, delta.pivots);
+    applySetDelta(state.frontier, delta.frontier);
+    applySetDelta(state.workingSet, delta.workingSet);
+}
+
+function applyMapDelta<K, V>(map: Map<K, V>, delta: MapDelta<K, V>): void {
+    for (const key of delta.deleted) map.delete(key);
+    for (const [key, value] of delta.set) map.set(key, value);
+}
+
+function applySetDelta<T>(set: Set<T>, delta: SetDelta<T>): void {
+    for (const value of delta.removed) set.delete(value);
+    for (const value of delta.added) set.add(value);
+}
@@ -0,0 +1,62 @@
+import { AlgorithmResult, AlgorithmStep } from './types';
+
+/**
+ * How the split view lines up two runs on one timeline
+ * - step: the same recorded step index in both traces
+ * - settled: the same number of nodes settled so far (visit steps, or nodes
+ *   at their final distance for Bellman-Ford and SPFA)
+ * - operations: the same number of operations performed so far
+ */
+export type TimelineSync = 'step' | 'settled' | 'operations';
+
+export const TIMELINE_SYNCS: Array<{ id: TimelineSync; name: string }> = [
+    { id: 'step', name: 'Step index' },
+    { id: 'settled', name: 'Nodes settled' },
+    { id: 'operations', name: 'Operations' },
+];
+
+/**
+ * A shared timeline over several traces. Each tick is one distinct value
+ * of the sync measure; stepsAt(tick) gives, for every trace, the last step
+ * whose measure has not passed it.
+ */
+export interface SyncedTimeline {
+    readonly length: number;
+    value(tick: number): number;
+    stepsAt(tick: number): number[];
+}
+
+function measure(step: AlgorithmStep, index: number, sync: TimelineSync): number {
+    switch (sync) {
+        case 'step':
+            return index;
+        case 'settled':
+            return step.progress?.settled ?? 0;
+        case 'operations':
+            return step.progress?.operations ?? 0;
+    }
+}
+
+export function syncTimeline(results: AlgorithmResult[], sync: TimelineSync): SyncedTimeline {
+    // Progress counters only grow, so every list is sorted
+    const measures = results.map(result => result.steps.map((step, i) => measure(step, i, sync)));
+    const ticks = [...new Set(measures.flat())].sort((a, b) => a - b);
+
+    return {
+        length: ticks.length,
+        value: tick => ticks[tick],
+        stepsAt: tick => measures.map(list => lastAtOrBefore(list, ticks[tick])),
+    };
+}
+
+// Index of the last entry <= target, or 0 when every entry is larger
+function lastAtOrBefore(sorted: number[], target: number): number {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] <= target) lo = mid + 1;
+        else hi = mid;
+    }
+    return Math.max(0, lo - 1);
+}
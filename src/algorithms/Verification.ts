@@ -0,0 +1,210 @@
+import { Graph, AlgorithmType } from './types';
+import { dijkstra } from './Dijkstra';
+import { getAlgorithm } from './AlgorithmRegistry';
+
+/**
+ * Correctness checks for shortest-path results
+ *
+ * Dijkstra serves as the reference. A candidate result is correct when every
+ * distance matches and its predecessors form a valid shortest-path tree:
+ * each reachable node's predecessor edge exists, is tight
+ * (dist[p] + w(p, v) = dist[v]), and the chain leads back to the source.
+ */
+
+export interface DistanceMismatch {
+    node: number;
+    expected: number;
+    actual: number;
+}
+
+export interface PredecessorIssue {
+    node: number;
+    predecessor: number;
+    reason: string;
+}
+
+export interface VerificationReport {
+    ok: boolean;
+    // What was checked: every distance and the predecessor tree, or only the path to the destination
+    scope: 'tree' | 'path';
+    mismatches: DistanceMismatch[];
+    predecessorIssues: PredecessorIssue[];
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Equal up to floating-point noise from summing weights in another order
+ */
+export function sameDistance(a: number, b: number): boolean {
+    if (a === b) return true; // covers Infinity
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return false; // the tolerance would scale to Infinity
+    return Math.abs(a - b) <= EPSILON * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Compare every node's distance in a candidate against the reference
+ */
+export function compareDistances(
+    graph: Graph,
+    expected: Map<number, number>,
+    actual: Map<number, number>
+): DistanceMismatch[] {
+    const mismatches: DistanceMismatch[] = [];
+    for (const node of graph.nodes) {
+        const e = expected.get(node.id) ?? Infinity;
+        const a = actual.get(node.id) ?? Infinity;
+        if (!sameDistance(e, a)) {
+            mismatches.push({ node: node.id, expected: e, actual: a });
+        }
+    }
+    return mismatches;
+}
+
+/**
+ * Check that predecessors form a valid shortest-path tree for the given distances
+ */
+export function validateShortestPathTree(
+    graph: Graph,
+    source: number,
+    distances: Map<number, number>,
+    predecessors: Map<number, number>
+): PredecessorIssue[] {
+    const issues: PredecessorIssue[] = [];
+
+    for (const node of graph.nodes) {
+        const v = node.id;
+        const p = predecessors.get(v) ?? -1;
+        const d = distances.get(v) ?? Infinity;
+
+        if (v === source) {
+            if (d !== 0) issues.push({ node: v, predecessor: p, reason: `source distance is ${d}, expected 0` });
+            if (p !== -1) issues.push({ node: v, predecessor: p, reason: 'source has a predecessor' });
+            continue;
+        }
+
+        if (d === Infinity) {
+            if (p !== -1) issues.push({ node: v, predecessor: p, reason: 'unreachable node has a predecessor' });
+            continue;
+        }
+
+        if (p === -1) {
+            issues.push({ node: v, predecessor: p, reason: 'reachable node has no predecessor' });
+            continue;
+        }
+
+        const pd = distances.get(p) ?? Infinity;
+        const edges = (graph.adjacencyList.get(p) || []).filter(e => e.node === v);
+        if (edges.length === 0) {
+            issues.push({ node: v, predecessor: p, reason: `edge ${p} → ${v} does not exist` });
+        } else if (!edges.some(e => sameDistance(pd + e.weight, d))) {
+            issues.push({ node: v, predecessor: p, reason: `edge ${p} → ${v} is not tight (${pd} + w ≠ ${d})` });
+        }
+
+        // Walk back to the source, guarding against cycles
+        const seen = new Set<number>([v]);
+        let current = p;
+        while (current !== -1 && current !== source && !seen.has(current)) {
+            seen.add(current);
+            current = predecessors.get(current) ?? -1;
+        }
+        if (current !== source) {
+            issues.push({
+                node: v,
+                predecessor: p,
+                reason: current === -1 ? 'predecessor chain does not reach the source' : 'predecessor chain contains a cycle',
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Check a candidate result against reference distances
+ */
+export function verifyResult(
+    graph: Graph,
+    source: number,
+    reference: Map<number, number>,
+    candidate: { distances: Map<number, number>; predecessors: Map<number, number> }
+): VerificationReport {
+    const mismatches = compareDistances(graph, reference, candidate.distances);
+    const predecessorIssues = validateShortestPathTree(graph, source, candidate.distances, candidate.predecessors);
+    return {
+        ok: mismatches.length === 0 && predecessorIssues.length === 0,
+        scope: 'tree',
+        mismatches,
+        predecessorIssues,
+    };
+}
+
+/**
+ * Check a point-to-point result, which may stop before settling other nodes:
+ * its distance to the destination must match the reference, and its path
+ * must run from the source along real edges adding up to that distance
+ */
+export function verifyPointToPoint(
+    graph: Graph,
+    source: number,
+    destination: number,
+    reference: Map<number, number>,
+    candidate: { distances: Map<number, number>; shortestPath: number[] }
+): VerificationReport {
+    const expected = reference.get(destination) ?? Infinity;
+    const actual = candidate.distances.get(destination) ?? Infinity;
+    const mismatches = sameDistance(expected, actual) ? [] : [{ node: destination, expected, actual }];
+
+    const predecessorIssues: PredecessorIssue[] = [];
+    const path = candidate.shortestPath;
+    if (actual !== Infinity && (path[0] !== source || path[path.length - 1] !== destination)) {
+        predecessorIssues.push({ node: destination, predecessor: path[path.length - 2] ?? -1, reason: `path does not run from ${source}` });
+    } else if (path.length > 0) {
+        let length = 0;
+        for (let i = 1; i < path.length; i++) {
+            const edges = (graph.adjacencyList.get(path[i - 1]) || []).filter(e => e.node === path[i]);
+            if (edges.length === 0) {
+                predecessorIssues.push({ node: path[i], predecessor: path[i - 1], reason: `edge ${path[i - 1]} → ${path[i]} does not exist` });
+                break;
+            }
+            length += Math.min(...edges.map(e => e.weight));
+        }
+        if (predecessorIssues.length === 0 && !sameDistance(length, actual)) {
+            predecessorIssues.push({ node: destination, predecessor: path[path.length - 2] ?? -1, reason: `path length ${length} ≠ distance ${actual}` });
+        }
+    }
+
+    return {
+        ok: mismatches.length === 0 && predecessorIssues.length === 0,
+        scope: 'path',
+        mismatches,
+        predecessorIssues,
+    };
+}
+
+/**
+ * Run Dijkstra and a candidate from the same source over the whole graph
+ * and check the candidate against Dijkstra
+ */
+export function crossCheck(
+    graph: Graph,
+    source: number,
+    algorithm: AlgorithmType = 'new-sssp'
+): VerificationReport {
+    const definition = getAlgorithm(algorithm);
+    if (!definition) throw new Error(`Unknown algorithm "${algorithm}"`);
+
+    const reference = dijkstra(graph, source, undefined, { recording: 'none' });
+    const candidate = definition.run(graph, source, undefined, { recording: 'none' });
+    return verifyResult(graph, source, reference.distances, candidate);
+}
+
+/**
+ * Nodes that should be flagged in the UI for a report
+ */
+export function getFlaggedNodes(report: VerificationReport): Set<number> {
+    return new Set([
+        ...report.mismatches.map(m => m.node),
+        ...report.predecessorIssues.map(i => i.node),
+    ]);
+}
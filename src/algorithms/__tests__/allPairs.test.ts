@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { GraphFamily, generateCase, toGraph } from './harness';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { UnsupportedGraphError } from '../Graph';
+import { diffMatrices, floydWarshall, johnson, runFromEverySource } from '../AllPairs';
+
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+describe('all-pairs distances', () => {
+    it('Floyd–Warshall, Johnson and every single-source algorithm agree', () => {
+        for (const family of FAMILIES) {
+            for (let seed = 1; seed <= 8; seed++) {
+                const graph = toGraph(generateCase(family, seed));
+                const reference = floydWarshall(graph);
+                const context = `${family} seed ${seed}`;
+
+                expect(diffMatrices(johnson(graph), reference), `johnson ${context}`).toEqual(new Set());
+                for (const algorithm of ALGORITHMS) {
+                    const matrix = runFromEverySource(graph, algorithm);
+                    expect(diffMatrices(matrix, reference), `${algorithm.id} ${context}`).toEqual(new Set());
+                }
+            }
+        }
+    });
+
+    it('handles negative edges and rejects negative cycles', () => {
+        const graph = toGraph({ nodeCount: 4, edges: [[0, 1, 4], [1, 2, -3], [0, 2, 2], [2, 3, 1]], source: 0, destination: 3 });
+        const reference = floydWarshall(graph);
+        expect(reference.distances[0]).toEqual([0, 4, 1, 2]);
+        expect(diffMatrices(johnson(graph), reference)).toEqual(new Set());
+        const bellmanFord = ALGORITHMS.find(a => a.id === 'bellman-ford')!;
+        expect(diffMatrices(runFromEverySource(graph, bellmanFord), reference)).toEqual(new Set());
+
+        const cyclic = toGraph({ nodeCount: 3, edges: [[0, 1, 1], [1, 2, -2], [2, 1, 1]], source: 0, destination: 2 });
+        expect(() => floydWarshall(cyclic)).toThrow(UnsupportedGraphError);
+        expect(() => johnson(cyclic)).toThrow(UnsupportedGraphError);
+        expect(() => runFromEverySource(cyclic, bellmanFord)).toThrow(UnsupportedGraphError);
+    });
+
+    it('flags exactly the cells that differ', () => {
+        const graph = toGraph(generateCase('grid', 3));
+        const reference = floydWarshall(graph);
+        const tampered = { ...reference, distances: reference.distances.map(row => [...row]) };
+        tampered.distances[1][2] += 1;
+        tampered.distances[0][0] = Infinity;
+        expect(diffMatrices(tampered, reference)).toEqual(new Set(['0-0', '1-2']));
+    });
+});
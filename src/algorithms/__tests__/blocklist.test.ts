@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { BlockList, PathKey, compareKeys } from '../BlockList';
+import { toConstantDegree } from '../ConstantDegree';
+import { createRng } from '../Random';
+import { generateCase, toGraph } from './harness';
+
+const B: PathKey = [1000, 0];
+
+describe('BlockList', () => {
+    it('pulls the M smallest keys with the exact separating bound', () => {
+        for (let seed = 1; seed <= 300; seed++) {
+            const rng = createRng(seed);
+            const pick = (n: number) => Math.floor(rng() * n);
+            const M = 1 + pick(6);
+            const list = new BlockList(M, B);
+            const reference = new Map<number, PathKey>();
+            let floor = 500; // every stored value stays at or above this
+
+            for (let op = 0; op < 60; op++) {
+                const r = rng();
+                if (r < 0.5) {
+                    const key = pick(30);
+                    const value: PathKey = [floor + pick(400), key];
+                    list.insert(key, value);
+                    const old = reference.get(key);
+                    if (!old || compareKeys(value, old) < 0) reference.set(key, value);
+                } else if (r < 0.7) {
+                    // BatchPrepend needs values below everything stored
+                    let min = floor;
+                    for (const value of reference.values()) min = Math.min(min, value[0]);
+                    const entries: Array<[number, PathKey]> = [];
+                    for (let i = pick(10); i > 0; i--) {
+                        const key = pick(30);
+                        entries.push([key, [min - 1 - pick(20), key]]);
+                    }
+                    floor = min - 25;
+                    list.batchPrepend(entries);
+                    for (const [key, value] of entries) {
+                        const old = reference.get(key);
+                        if (!old || compareKeys(value, old) < 0) reference.set(key, value);
+                    }
+                } else {
+                    const sorted = [...reference].sort((a, b) => compareKeys(a[1], b[1]));
+                    const expectedKeys = sorted.slice(0, M).map(([key]) => key);
+                    const expectedBound = sorted.length > M ? sorted[M][1] : B;
+
+                    const { bound, keys } = list.pull();
+                    expect([...keys].sort((a, b) => a - b)).toEqual(expectedKeys.sort((a, b) => a - b));
+                    expect(bound).toEqual(expectedBound);
+                    for (const key of keys) reference.delete(key);
+                }
+                expect(list.size).toBe(reference.size);
+            }
+        }
+    });
+});
+
+describe('constant-degree transformation', () => {
+    it('bounds every vertex to in- and out-degree 2', () => {
+        for (let seed = 1; seed <= 50; seed++) {
+            const cd = toConstantDegree(toGraph(generateCase('random', seed)));
+            const inDegree = new Array(cd.size).fill(0);
+            for (const edges of cd.adjacency) {
+                expect(edges.length).toBeLessThanOrEqual(2);
+                for (const { node } of edges) inDegree[node]++;
+            }
+            expect(Math.max(0, ...inDegree)).toBeLessThanOrEqual(2);
+        }
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { GraphFamily, generateCase, toGraph } from './harness';
+import { GraphClass } from '../Graph';
+import { toCsr } from '../CsrGraph';
+import { PRIORITY_QUEUES } from '../PriorityQueue';
+import { dijkstra } from '../Dijkstra';
+import { createRng } from '../Random';
+
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+describe('CSR graphs', () => {
+    it('lists every arc of every node in adjacency order', () => {
+        const graph = new GraphClass();
+        for (let i = 0; i < 5; i++) graph.addNode(0, 0);
+        graph.addEdge(0, 1, 2);
+        graph.addEdge(0, 4, 7);
+        graph.addEdge(3, 0, 1.5);
+        graph.addEdge(4, 3, 3);
+        graph.removeNode(2);
+
+        const csr = toCsr(graph.toGraph());
+        expect(csr.ids).toEqual([0, 1, 3, 4]);
+        expect([...csr.offsets]).toEqual([0, 2, 2, 3, 4]);
+        expect([...csr.targets].map(v => csr.ids[v])).toEqual([1, 4, 0, 3]);
+        expect([...csr.weights]).toEqual([2, 7, 1.5, 3]);
+    });
+
+    it('is built once per graph', () => {
+        const graph = toGraph(generateCase('grid', 2));
+        expect(toCsr(graph)).toBe(toCsr(graph));
+    });
+
+    it('is not reached by later edits to the GraphClass', () => {
+        const graph = new GraphClass();
+        for (let i = 0; i < 3; i++) graph.addNode(0, 0);
+        const edge = graph.addEdge(0, 1, 2);
+        const plain = graph.toGraph();
+        const csr = toCsr(plain);
+
+        graph.updateEdgeWeight(edge, 9);
+        graph.addEdge(1, 2, 4);
+        graph.moveNode(0, 5, 5);
+
+        expect(plain.adjacencyList.get(0)).toEqual([{ node: 1, weight: 2 }]);
+        expect(plain.adjacencyList.get(1)).toEqual([]);
+        expect(plain.edges).toEqual([{ id: edge, from: 0, to: 1, weight: 2 }]);
+        expect(plain.nodes[0]).toMatchObject({ x: 0, y: 0 });
+        expect(toCsr(plain)).toBe(csr);
+        expect([...csr.weights]).toEqual([2]);
+    });
+
+    for (const family of FAMILIES) {
+        it(`headless Dijkstra matches the recorded run on ${family} graphs`, () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const testCase = generateCase(family, seed);
+                const graph = toGraph(testCase);
+                for (const queue of PRIORITY_QUEUES) {
+                    for (const destination of [undefined, testCase.destination]) {
+                        const options = { priorityQueue: queue.id };
+                        const recorded = dijkstra(graph, testCase.source, destination, options);
+                        const headless = dijkstra(graph, testCase.source, destination, { ...options, recording: 'none' });
+                        const context = `${queue.id} on ${family} seed ${seed} to ${destination}`;
+
+                        expect(headless.distances, context).toEqual(recorded.distances);
+                        expect(headless.predecessors, context).toEqual(recorded.predecessors);
+                        expect(headless.shortestPath, context).toEqual(recorded.shortestPath);
+                        expect({ ...headless.statistics, executionTime: 0 }, context)
+                            .toEqual({ ...recorded.statistics, executionTime: 0 });
+                        expect(headless.steps, context).toEqual([]);
+                    }
+                }
+            }
+        });
+    }
+});
+
+describe('GraphClass indexes', () => {
+    it('stay consistent with the node and edge lists through edits', () => {
+        const rng = createRng(11);
+        let graph = new GraphClass();
+        for (let i = 0; i < 12; i++) graph.addNode(i, i);
+
+        for (let round = 0; round < 400; round++) {
+            const ids = graph.nodes.map(n => n.id);
+            const pick = () => ids[Math.floor(rng() * ids.length)];
+            const pickEdge = () => graph.edges[Math.floor(rng() * graph.edges.length)]?.id ?? -1;
+            const r = rng();
+            if (r < 0.45) graph.addEdge(pick(), pick(), 1 + Math.floor(rng() * 9));
+            else if (r < 0.6) graph.updateEdgeWeight(pickEdge(), 1 + Math.floor(rng() * 9));
+            else if (r < 0.75) graph.removeEdge(pickEdge());
+            else if (r < 0.85) graph.moveNode(pick(), rng() * 100, rng() * 100);
+            else if (r < 0.92 && ids.length > 4) graph.removeNode(pick());
+            else if (r < 0.96) graph.addNode(0, 0);
+            else graph = graph.clone();
+
+            for (const node of graph.nodes) expect(graph.getNode(node.id)).toBe(node);
+            for (const edge of graph.edges) {
+                expect(graph.getEdge(edge.from, edge.to)).toBe(edge);
+                const arcs = graph.adjacencyList.get(edge.from)!.filter(a => a.node === edge.to);
+                expect(arcs.map(a => a.weight), `round ${round}`).toEqual([edge.weight]);
+            }
+            const arcCount = [...graph.adjacencyList.values()].reduce((sum, arcs) => sum + arcs.length, 0);
+            expect(arcCount).toBe(graph.edges.length);
+        }
+        expect(graph.getEdge(-1, 0)).toBeUndefined();
+        expect(graph.getNode(-1)).toBeUndefined();
+    });
+});
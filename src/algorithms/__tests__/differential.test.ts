@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { StepRecording } from '../types';
+import { TestCase, GraphFamily, generateCase, checkCase, shrinkCase, formatFixture } from './harness';
+
+const CASES_PER_FAMILY = 600;
+const RECORDED_CASES_PER_FAMILY = 10; // also checked with full step recording
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+// Shrunk failures printed by the harness go here so they stay fixed
+const REGRESSION_FIXTURES: Array<{ name: string; testCase: TestCase }> = [
+    { name: 'single node', testCase: { nodeCount: 1, edges: [], source: 0, destination: 0 } },
+    { name: 'unreachable destination', testCase: { nodeCount: 3, edges: [[0, 1, 4]], source: 0, destination: 2 } },
+    {
+        name: 'zero-weight edges',
+        testCase: { nodeCount: 4, edges: [[0, 1, 0], [1, 2, 0], [0, 2, 1], [2, 3, 0]], source: 0, destination: 3 },
+    },
+    {
+        name: 'parallel shortest paths',
+        testCase: { nodeCount: 4, edges: [[0, 1, 2], [0, 2, 2], [1, 3, 2], [2, 3, 2]], source: 0, destination: 3 },
+    },
+];
+
+function expectPasses(testCase: TestCase, label: string, recording: StepRecording = 'none') {
+    const failures = checkCase(testCase, recording);
+    if (failures.length > 0) {
+        const minimal = shrinkCase(testCase, c => checkCase(c, recording).length > 0);
+        expect.fail(
+            `${label} failed:\n  ${failures.join('\n  ')}\n\n` +
+            `Minimal reproduction:\n${formatFixture(minimal)}\n` +
+            `which fails with:\n  ${checkCase(minimal, recording).join('\n  ')}`
+        );
+    }
+}
+
+describe('dijkstra vs registered algorithms differential', () => {
+    for (const family of FAMILIES) {
+        it(`agrees on ${CASES_PER_FAMILY} seeded ${family} graphs`, () => {
+            for (let seed = 1; seed <= CASES_PER_FAMILY; seed++) {
+                expectPasses(generateCase(family, seed), `${family} graph with seed ${seed}`);
+            }
+            for (let seed = 1; seed <= RECORDED_CASES_PER_FAMILY; seed++) {
+                expectPasses(generateCase(family, seed), `recorded ${family} graph with seed ${seed}`, 'all');
+            }
+        });
+    }
+
+    it.each(REGRESSION_FIXTURES)('handles fixture: $name', ({ name, testCase }) => {
+        expectPasses(testCase, name, 'all');
+    });
+});
+
+describe('harness', () => {
+    it('generates identical cases for the same seed', () => {
+        for (const family of FAMILIES) {
+            expect(generateCase(family, 7)).toEqual(generateCase(family, 7));
+        }
+    });
+
+    it('shrinks a failing case to a minimal fixture', () => {
+        const testCase = generateCase('random', 3);
+        testCase.edges.push([0, 1, 50]);
+        const minimal = shrinkCase(testCase, c => c.edges.some(([, , w]) => w >= 50));
+
+        expect(minimal.edges).toHaveLength(1);
+        expect(minimal.edges[0][2]).toBe(50);
+        // Only the edge's endpoints and the source survive
+        expect(minimal.nodeCount).toBeLessThanOrEqual(3);
+    });
+});
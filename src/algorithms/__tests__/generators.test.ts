@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { GRAPH_GENERATORS, defaultParams, generateBarabasiAlbertGraph, generateChainGraph, generateDagGraph, generateDecreaseKeyGraph, generateGeometricGraph, generateGnmGraph, generateRegularGraph } from '../Generators';
+import { GraphClass } from '../Graph';
+import { dijkstra } from '../Dijkstra';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+
+function degrees(graph: GraphClass) {
+    const outDegree = new Map(graph.nodes.map(n => [n.id, 0]));
+    const inDegree = new Map(graph.nodes.map(n => [n.id, 0]));
+    for (const edge of graph.edges) {
+        outDegree.set(edge.from, outDegree.get(edge.from)! + 1);
+        inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+    }
+    return { outDegree, inDegree };
+}
+
+describe('graph generator families', () => {
+    it('are reproducible from a seed', () => {
+        for (const generator of GRAPH_GENERATORS) {
+            const params = defaultParams(generator);
+            const a = generator.generate(params, 7).toGraph();
+            const b = generator.generate(params, 7).toGraph();
+            expect(b.nodes, generator.id).toEqual(a.nodes);
+            expect(b.edges, generator.id).toEqual(a.edges);
+        }
+    });
+
+    it('give every algorithm the same distances', () => {
+        for (const generator of GRAPH_GENERATORS) {
+            for (let seed = 1; seed <= 5; seed++) {
+                const graph = generator.generate(defaultParams(generator), seed).toGraph();
+                const expected = dijkstra(graph, 0).distances;
+                for (const algorithm of ALGORITHMS) {
+                    expect(algorithm.run(graph, 0).distances, `${algorithm.id} on ${generator.id} seed ${seed}`).toEqual(expected);
+                }
+            }
+        }
+    });
+
+    it('G(n, m) has exactly m distinct arcs', () => {
+        for (let seed = 1; seed <= 20; seed++) {
+            const graph = generateGnmGraph(12, 40 + seed, 800, 600, seed);
+            expect(graph.edges).toHaveLength(40 + seed);
+            expect(graph.edges.every(e => e.from !== e.to)).toBe(true);
+        }
+        expect(generateGnmGraph(4, 100, 800, 600, 1).edges).toHaveLength(12);
+    });
+
+    it('Barabási–Albert grows hubs from k links per node', () => {
+        const graph = generateBarabasiAlbertGraph(100, 2, 800, 600, 3);
+        expect(graph.directed).toBe(false);
+        expect(graph.edges).toHaveLength(3 + 97 * 2);
+
+        const degree = new Map<number, number>();
+        for (const { from, to } of graph.edges) {
+            degree.set(from, (degree.get(from) ?? 0) + 1);
+            degree.set(to, (degree.get(to) ?? 0) + 1);
+        }
+        expect(Math.min(...degree.values())).toBe(2);
+        expect(Math.max(...degree.values())).toBeGreaterThan(10);
+    });
+
+    it('geometric edges join exactly the pairs within the radius', () => {
+        const graph = generateGeometricGraph(40, 0.2, 800, 600, 5);
+        for (const a of graph.nodes) {
+            for (const b of graph.nodes) {
+                if (a.id >= b.id) continue;
+                const length = Math.hypot(a.x - b.x, a.y - b.y);
+                const edge = graph.getEdge(a.id, b.id);
+                expect(edge !== undefined).toBe(length <= 120);
+                if (edge) expect(edge.weight).toBe(Math.max(1, Math.round(length)));
+            }
+        }
+    });
+
+    it('DAG arcs all point to higher ids', () => {
+        const graph = generateDagGraph(30, 0.3, 800, 600, 2);
+        expect(graph.edges.length).toBeGreaterThan(0);
+        expect(graph.edges.every(e => e.from < e.to)).toBe(true);
+    });
+
+    it('k-regular graphs have in- and out-degree k', () => {
+        for (let seed = 1; seed <= 20; seed++) {
+            for (const k of [1, 3, 6]) {
+                const graph = generateRegularGraph(10 + seed, k, 800, 600, seed);
+                const { outDegree, inDegree } = degrees(graph);
+                const context = `k=${k} seed ${seed}`;
+                expect(new Set(outDegree.values()), context).toEqual(new Set([k]));
+                expect(new Set(inDegree.values()), context).toEqual(new Set([k]));
+            }
+        }
+    });
+
+    it('chain shortest paths take every hop', () => {
+        const graph = generateChainGraph(40, 30, 800, 600, 4);
+        const result = dijkstra(graph.toGraph(), 0, 39);
+        expect(graph.edges.length).toBeGreaterThan(39);
+        expect(result.shortestPath).toEqual(Array.from({ length: 40 }, (_, i) => i));
+    });
+
+    it('the decrease-key adversary lowers every target once per chain node', () => {
+        const graph = generateDecreaseKeyGraph(8, 12, 800, 600, 6).toGraph();
+        const result = dijkstra(graph, 0, undefined, { recording: 'none' });
+        expect(result.statistics.queueDecreaseKeys).toBe(7 * 12);
+    });
+});
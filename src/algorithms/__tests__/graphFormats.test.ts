@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { GraphFamily, generateCase } from './harness';
+import { GraphClass } from '../Graph';
+import { GRAPH_FORMATS, GraphFormat, GraphParseError, MAX_IMPORT_NODES, parseGraph, serializeGraph } from '../GraphFormats';
+
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+function build(testCase: ReturnType<typeof generateCase>): GraphClass {
+    const graph = new GraphClass({ directed: testCase.directed });
+    for (let i = 0; i < testCase.nodeCount; i++) graph.addNode(i, i);
+    for (const [from, to, weight] of testCase.edges) graph.addEdge(from, to, weight);
+    return graph;
+}
+
+// Arcs as sorted "from,to,weight" strings over node positions, the form DIMACS and edge lists keep
+function arcsByPosition(graph: GraphClass): string[] {
+    const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+    const plain = graph.toGraph();
+    return [...plain.adjacencyList].flatMap(([from, arcs]) =>
+        arcs.map(a => `${index.get(from)},${index.get(a.node)},${a.weight}`)
+    ).sort();
+}
+
+describe('graph formats', () => {
+    for (const { id } of GRAPH_FORMATS) {
+        it(`${id} round-trips every family, including node ids with gaps`, () => {
+            for (const family of FAMILIES) {
+                for (let seed = 1; seed <= 15; seed++) {
+                    const graph = build(generateCase(family, seed));
+                    // Remove a node so ids have a gap, and leave the last node isolated
+                    if (graph.nodes.length > 3) graph.removeNode(graph.nodes[1].id);
+                    const last = graph.nodes[graph.nodes.length - 1].id;
+                    for (const edge of [...graph.edges]) {
+                        if (edge.from === last || edge.to === last) graph.removeEdge(edge.id);
+                    }
+
+                    const parsed = parseGraph(serializeGraph(graph, id), id);
+                    const context = `${id} ${family} seed ${seed}`;
+                    expect(parsed.nodes.length, context).toBe(graph.nodes.length);
+                    expect(arcsByPosition(parsed), context).toEqual(arcsByPosition(graph));
+                    if (id === 'json') {
+                        expect(parsed.nodes.map(n => [n.x, n.y]), context).toEqual(graph.nodes.map(n => [n.x, n.y]));
+                        expect(parsed.directed, context).toBe(graph.directed);
+                    }
+                }
+            }
+        });
+    }
+
+    it('reads fractional and negative weights, comments and a CSV header', () => {
+        const dimacs = parseGraph('c road\np sp 3 2\na 1 2 -1.5\n\na 2 3 4\n', 'dimacs');
+        expect(dimacs.edges.map(e => [e.from, e.to, e.weight])).toEqual([[0, 1, -1.5], [1, 2, 4]]);
+
+        const edgeList = parseGraph('from;to;weight\n# note\n0 2 1\r\n2,1,0.25\n', 'edgelist');
+        expect(edgeList.nodes).toHaveLength(3);
+        expect(edgeList.edges.map(e => [e.from, e.to, e.weight])).toEqual([[0, 2, 1], [2, 1, 0.25]]);
+    });
+
+    it('keeps node ids with gaps through an edge list', () => {
+        const graph = build(generateCase('random', 4));
+        graph.removeNode(graph.nodes[1].id);
+        graph.removeNode(graph.nodes[3].id);
+        const isolated = graph.addNode(0, 0);
+        const text = serializeGraph(graph, 'edgelist');
+        expect(text.split('\n')[0]).toBe(`# node ids ${graph.nodes.map(n => n.id).join(' ')}`);
+
+        const parsed = parseGraph(text, 'edgelist');
+        expect(parsed.nodes.map(n => [n.id, n.label])).toEqual(graph.nodes.map(n => [n.id, `${n.id}`]));
+        expect(parsed.getNode(isolated)).toBeDefined();
+        const arcs = (g: GraphClass) => g.edges.map(e => `${e.from},${e.to},${e.weight}`).sort();
+        expect(arcs(parsed)).toEqual(arcs(graph));
+        // Later nodes are numbered after the largest kept id
+        expect(parsed.addNode(0, 0)).toBe(isolated + 1);
+
+        expect(serializeGraph(build(generateCase('random', 4)), 'edgelist').split('\n')[0]).toMatch(/^# nodes \d+$/);
+    });
+
+    const MALFORMED: Array<[GraphFormat, string, RegExp]> = [
+        ['dimacs', 'a 1 2 3\n', /Arc before problem line/],
+        ['dimacs', 'p sp 2 1\np sp 2 1\na 1 2 1\n', /Line 2: Duplicate problem line/],
+        ['dimacs', 'p sp 2 2\na 1 2 1\n', /declares 2 arcs but 1/],
+        ['dimacs', 'p sp 2 1\na 1 3 1\n', /Line 2: Node id out of range 1..2/],
+        ['dimacs', 'p sp 2 1\na 0 1 1\n', /below the minimum/],
+        ['dimacs', 'p sp 2 1\na 1 2 x\n', /Line 2/],
+        ['dimacs', 'p sp 2 1\nx 1 2 1\n', /Unknown line type/],
+        ['dimacs', '', /Missing problem line/],
+        ['dimacs', `p sp ${MAX_IMPORT_NODES + 1} 1\na 1 2 1\n`, /exceeds the maximum/],
+        ['dimacs', 'p sp 1000000000 1\n', /exceeds the maximum/],
+        ['edgelist', '0 1\n', /Missing weight/],
+        ['edgelist', '0 1 2 3\n', /trailing values/],
+        ['edgelist', '0 -1 2\n', /Negative node id/],
+        ['edgelist', '0 1.5 2\n', /Invalid node id/],
+        ['edgelist', '\n# nothing\n', /No edges found/],
+        ['edgelist', '0 1000000000 1\n', /Line 1: Node id 1000000000 exceeds the maximum/],
+        ['edgelist', '# nodes 5000000\n0 1 1\n', /exceeds the maximum/],
+        ['edgelist', '# node ids 0 2 2\n0 2 1\n', /Line 1: Duplicate node id 2/],
+        ['edgelist', '# node ids 0 5000000\n', /exceeds the maximum/],
+        ['json', '{"nodes": [', /Invalid JSON/],
+        ['json', '{"nodes": []}', /"nodes" and "edges" arrays/],
+        ['json', '{"nodes": [{"id": 0, "x": 0, "y": 0}, {"id": 0, "x": 1, "y": 1}], "edges": []}', /duplicate node id 0/],
+        ['json', '{"nodes": [{"id": 0, "x": 0, "y": 0}], "edges": [{"from": 0, "to": 1, "weight": 1}]}', /unknown node/],
+        ['json', '{"nodes": [{"id": 0, "x": 0, "y": 0}], "edges": [{"from": 0, "to": 0}]}', /invalid weight/],
+        ['json', '{"directed": "yes", "nodes": [], "edges": []}', /"directed" must be true or false/],
+    ];
+
+    it.each(MALFORMED)('rejects malformed %s input %j', (format, text, message) => {
+        expect(() => parseGraph(text, format)).toThrow(GraphParseError);
+        expect(() => parseGraph(text, format)).toThrow(message);
+    });
+
+    it('keeps isolated nodes in edge lists without any edges', () => {
+        const graph = new GraphClass();
+        graph.addNode(0, 0);
+        graph.addNode(0, 0);
+        expect(parseGraph(serializeGraph(graph, 'edgelist'), 'edgelist').nodes).toHaveLength(2);
+    });
+});
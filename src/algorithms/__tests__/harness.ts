@@ -0,0 +1,264 @@
+import { GraphClass, generateRandomGraph, generateGridGraph } from '../Graph';
+import { Graph, AlgorithmResult, StepRecording } from '../types';
+import { dijkstra } from '../Dijkstra';
+import { ALGORITHMS, REFERENCE_ALGORITHM } from '../AlgorithmRegistry';
+import { createRng } from '../Random';
+import { compareDistances, validateShortestPathTree } from '../Verification';
+
+/**
+ * Differential testing harness for the algorithms package
+ *
+ * A test case is a plain edge list so failures can be shrunk and printed
+ * as a fixture that reproduces without any generator or seed.
+ */
+
+export interface TestCase {
+    nodeCount: number;
+    edges: Array<[number, number, number]>;
+    source: number;
+    destination: number;
+    directed?: boolean; // absent means directed
+    multigraph?: boolean; // keep repeated edges as parallel edges
+}
+
+export type GraphFamily = 'random' | 'grid' | 'dag' | 'disconnected';
+
+export function toGraph(testCase: TestCase): Graph {
+    const graph = new GraphClass({ directed: testCase.directed, multigraph: testCase.multigraph });
+    for (let i = 0; i < testCase.nodeCount; i++) {
+        graph.addNode(0, 0);
+    }
+    for (const [from, to, weight] of testCase.edges) {
+        graph.addEdge(from, to, weight);
+    }
+    return graph.toGraph();
+}
+
+function fromGraphClass(graph: GraphClass, source: number, destination: number): TestCase {
+    return {
+        nodeCount: graph.nodes.length,
+        edges: graph.edges.map(e => [e.from, e.to, e.weight]),
+        source,
+        destination,
+        directed: graph.directed,
+    };
+}
+
+/**
+ * Build the seed-th case of a family. Sizes stay small so thousands
+ * of cases run quickly while still exercising every code path.
+ */
+export function generateCase(family: GraphFamily, seed: number): TestCase {
+    const rng = createRng(seed);
+    const pick = (n: number) => Math.floor(rng() * n);
+
+    switch (family) {
+        case 'random': {
+            const n = 2 + pick(30);
+            const graph = generateRandomGraph(n, 0.05 + rng() * 0.5, 20, 800, 600, seed);
+            return fromGraphClass(graph, pick(n), pick(n));
+        }
+        case 'grid': {
+            const rows = 2 + pick(5);
+            const cols = 2 + pick(5);
+            const graph = generateGridGraph(rows, cols, 800, 600, seed);
+            return fromGraphClass(graph, pick(rows * cols), pick(rows * cols));
+        }
+        case 'dag': {
+            // Edges only go forward in a random topological order
+            const n = 2 + pick(30);
+            const order = Array.from({ length: n }, (_, i) => i);
+            for (let i = n - 1; i > 0; i--) {
+                const j = pick(i + 1);
+                [order[i], order[j]] = [order[j], order[i]];
+            }
+            const density = 0.1 + rng() * 0.4;
+            const edges: Array<[number, number, number]> = [];
+            for (let i = 0; i < n; i++) {
+                for (let j = i + 1; j < n; j++) {
+                    if (rng() < density) edges.push([order[i], order[j], 1 + pick(20)]);
+                }
+            }
+            return { nodeCount: n, edges, source: order[0], destination: order[n - 1] };
+        }
+        case 'disconnected': {
+            // Several random components plus isolated nodes, source in the first one
+            const components = 2 + pick(3);
+            const edges: Array<[number, number, number]> = [];
+            let offset = 0;
+            for (let c = 0; c < components; c++) {
+                const size = 1 + pick(10);
+                for (let e = 0; e < size * 2; e++) {
+                    const from = offset + pick(size);
+                    const to = offset + pick(size);
+                    if (from !== to) edges.push([from, to, 1 + pick(20)]);
+                }
+                offset += size;
+            }
+            const n = offset + pick(4);
+            return { nodeCount: n, edges, source: 0, destination: pick(n) };
+        }
+    }
+}
+
+function checkPath(graph: Graph, testCase: TestCase, label: string, result: AlgorithmResult, failures: string[]) {
+    const { source, destination } = testCase;
+    const target = result.distances.get(destination) ?? Infinity;
+    const path = result.shortestPath;
+
+    if (target === Infinity) {
+        if (path.length > 0) failures.push(`${label}: path returned for unreachable destination`);
+        return;
+    }
+    if (path[0] !== source || path[path.length - 1] !== destination) {
+        failures.push(`${label}: shortestPath [${path.join(', ')}] does not run from ${source} to ${destination}`);
+        return;
+    }
+
+    let length = 0;
+    for (let i = 0; i + 1 < path.length; i++) {
+        const edge = (graph.adjacencyList.get(path[i]) || []).find(e => e.node === path[i + 1]);
+        if (!edge) {
+            failures.push(`${label}: shortestPath uses missing edge ${path[i]} → ${path[i + 1]}`);
+            return;
+        }
+        length += edge.weight;
+    }
+    if (length !== target) {
+        failures.push(`${label}: shortestPath length ${length} differs from distance ${target}`);
+    }
+}
+
+function checkSteps(label: string, result: AlgorithmResult, failures: string[]) {
+    for (let i = 1; i < result.steps.length; i++) {
+        if (result.steps[i].stepNumber < result.steps[i - 1].stepNumber) {
+            failures.push(`${label}: stepNumber decreases at index ${i}`);
+            return;
+        }
+    }
+}
+
+// Every registered algorithm is checked against Dijkstra
+const CANDIDATES = ALGORITHMS.filter(a => a.id !== REFERENCE_ALGORITHM);
+
+/**
+ * Run every algorithm on a case and describe every property that fails.
+ * Runs are headless by default; pass a recording mode to check traces too.
+ */
+export function checkCase(testCase: TestCase, recording: StepRecording = 'none'): string[] {
+    const failures: string[] = [];
+    const graph = toGraph(testCase);
+    const { source, destination } = testCase;
+    const options = { recording };
+
+    try {
+        const reference = dijkstra(graph, source, undefined, options);
+        for (const issue of validateShortestPathTree(graph, source, reference.distances, reference.predecessors)) {
+            failures.push(`dijkstra: node ${issue.node}: ${issue.reason}`);
+        }
+        checkSteps('dijkstra', reference, failures);
+
+        // Point-to-point runs exercise early termination and path reconstruction
+        const dijkstraPath = dijkstra(graph, source, destination, options);
+        checkPath(graph, testCase, 'dijkstra', dijkstraPath, failures);
+        checkSteps('dijkstra (with destination)', dijkstraPath, failures);
+
+        for (const { id: label, run } of CANDIDATES) {
+            const candidate = run(graph, source, undefined, options);
+            for (const m of compareDistances(graph, reference.distances, candidate.distances)) {
+                failures.push(`distance of node ${m.node}: dijkstra ${m.expected}, ${label} ${m.actual}`);
+            }
+            for (const issue of validateShortestPathTree(graph, source, candidate.distances, candidate.predecessors)) {
+                failures.push(`${label}: node ${issue.node}: ${issue.reason}`);
+            }
+            checkSteps(label, candidate, failures);
+
+            const candidatePath = run(graph, source, destination, options);
+            for (const m of compareDistances(graph, reference.distances, candidatePath.distances)) {
+                if (m.node === destination) {
+                    failures.push(`${label} (with destination): distance ${m.actual}, dijkstra ${m.expected}`);
+                }
+            }
+            checkPath(graph, testCase, label, candidatePath, failures);
+            checkSteps(`${label} (with destination)`, candidatePath, failures);
+        }
+    } catch (err) {
+        failures.push(`threw: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    return failures;
+}
+
+/**
+ * Greedily shrink a failing case: drop edges, drop nodes, then simplify
+ * weights, keeping any change that still fails. Repeats until no single
+ * change helps.
+ */
+export function shrinkCase(
+    testCase: TestCase,
+    fails: (candidate: TestCase) => boolean = c => checkCase(c).length > 0
+): TestCase {
+    let current = testCase;
+    let improved = true;
+
+    while (improved) {
+        improved = false;
+        for (const candidate of shrinkCandidates(current)) {
+            if (fails(candidate)) {
+                current = candidate;
+                improved = true;
+                break;
+            }
+        }
+    }
+
+    return current;
+}
+
+function* shrinkCandidates(testCase: TestCase): Generator<TestCase> {
+    const { nodeCount, edges, source, destination } = testCase;
+
+    for (let i = 0; i < edges.length; i++) {
+        yield { ...testCase, edges: edges.filter((_, j) => j !== i) };
+    }
+
+    for (let removed = nodeCount - 1; removed >= 0; removed--) {
+        if (removed === source || nodeCount <= 1) continue;
+        const remap = (v: number) => (v > removed ? v - 1 : v);
+        yield {
+            ...testCase,
+            nodeCount: nodeCount - 1,
+            edges: edges
+                .filter(([from, to]) => from !== removed && to !== removed)
+                .map(([from, to, w]) => [remap(from), remap(to), w]),
+            source: remap(source),
+            destination: destination === removed ? remap(source) : remap(destination),
+        };
+    }
+
+    for (let i = 0; i < edges.length; i++) {
+        const [from, to, weight] = edges[i];
+        for (const simpler of [1, Math.floor(weight / 2)]) {
+            if (simpler >= 1 && simpler < weight) {
+                yield { ...testCase, edges: edges.map((e, j) => (j === i ? [from, to, simpler] : e)) };
+            }
+        }
+    }
+}
+
+/**
+ * Print a case as a fixture that can be pasted into REGRESSION_FIXTURES
+ */
+export function formatFixture(testCase: TestCase): string {
+    const edges = testCase.edges.map(([f, t, w]) => `[${f}, ${t}, ${w}]`).join(', ');
+    return [
+        '{',
+        `    nodeCount: ${testCase.nodeCount},`,
+        `    edges: [${edges}],`,
+        `    source: ${testCase.source},`,
+        `    destination: ${testCase.destination},`,
+        ...(testCase.directed === false ? ['    directed: false,'] : []),
+        ...(testCase.multigraph ? ['    multigraph: true,'] : []),
+        '}',
+    ].join('\n');
+}
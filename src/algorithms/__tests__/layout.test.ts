@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { LAYOUTS, applyLayout, computeLayout, forceDirectedLayout, gridLayout, hierarchicalLayout } from '../Layout';
+import { GraphClass, generateRandomGraph } from '../Graph';
+import { generateChainGraph } from '../Generators';
+import { parseGraph } from '../GraphFormats';
+
+function inBox(positions: Map<number, { x: number; y: number }>) {
+    return [...positions.values()].every(p => p.x >= 0 && p.x <= 800 && p.y >= 0 && p.y <= 600);
+}
+
+describe('graph layouts', () => {
+    it('place every node inside the box, the same way each time', () => {
+        for (const { id } of LAYOUTS) {
+            const graph = generateRandomGraph(25, 0.1, 20, 800, 600, 3);
+            graph.removeNode(4);
+            const positions = computeLayout(graph.toGraph(), id, { source: 0 });
+
+            expect([...positions.keys()].sort((a, b) => a - b), id).toEqual(graph.nodes.map(n => n.id));
+            expect(inBox(positions), id).toBe(true);
+            expect(computeLayout(graph.toGraph(), id, { source: 0 }), id).toEqual(positions);
+        }
+    });
+
+    it('force-directed layout pulls neighbours closer than other pairs', () => {
+        const graph = generateChainGraph(30, 0, 800, 600, 1).toGraph();
+        const positions = forceDirectedLayout(graph);
+        const gap = (a: number, b: number) => Math.hypot(positions.get(a)!.x - positions.get(b)!.x, positions.get(a)!.y - positions.get(b)!.y);
+
+        const neighbours = graph.edges.map(e => gap(e.from, e.to));
+        const mean = neighbours.reduce((a, b) => a + b, 0) / neighbours.length;
+        expect(mean).toBeLessThan(gap(0, 29) / 5);
+    });
+
+    it('hierarchical layout puts each BFS layer in its own column', () => {
+        const graph = new GraphClass();
+        for (let i = 0; i < 6; i++) graph.addNode(0, 0);
+        graph.addEdge(2, 0, 1);
+        graph.addEdge(2, 1, 1);
+        graph.addEdge(0, 3, 1);
+        graph.addEdge(1, 3, 1);
+        graph.addEdge(4, 2, 1); // 4 and 5 are unreachable from 2
+        const positions = hierarchicalLayout(graph.toGraph(), { source: 2 });
+        const x = (id: number) => positions.get(id)!.x;
+
+        expect(x(2)).toBeLessThan(x(0));
+        expect(x(0)).toBe(x(1));
+        expect(x(3)).toBeGreaterThan(x(0));
+        expect(x(4)).toBe(x(5));
+        expect(x(4)).toBeGreaterThan(x(3));
+    });
+
+    it('grid layout gives every node its own cell', () => {
+        const graph = generateRandomGraph(30, 0.1, 20, 800, 600, 8);
+        const positions = gridLayout(graph.toGraph());
+        const cells = new Set([...positions.values()].map(p => `${p.x},${p.y}`));
+        const xs = new Set([...positions.values()].map(p => p.x));
+
+        expect(cells.size).toBe(30);
+        expect(xs.size).toBeLessThan(10);
+        expect(gridLayout(applyLayout(graph, positions).toGraph())).toEqual(positions);
+    });
+
+    it('applyLayout moves nodes on a copy', () => {
+        const graph = generateRandomGraph(10, 0.2, 20, 800, 600, 2);
+        const before = graph.nodes.map(n => ({ ...n }));
+        const moved = applyLayout(graph, gridLayout(graph.toGraph()));
+
+        expect(graph.nodes).toEqual(before);
+        expect(moved.edges).toEqual(graph.edges);
+        expect(moved.nodes).not.toEqual(before);
+    });
+
+    it('spread out imported graphs that carry no coordinates', () => {
+        const graph = parseGraph('0,1,1\n1,2,1\n2,3,1\n3,0,1\n0,2,1\n', 'edgelist');
+        const points = graph.nodes.map(n => `${Math.round(n.x)},${Math.round(n.y)}`);
+        expect(new Set(points).size).toBe(4);
+        expect(inBox(new Map(graph.nodes.map(n => [n.id, n])))).toBe(true);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { MinHeap } from '../MinHeap';
+import { createRng } from '../Random';
+
+describe('MinHeap', () => {
+    for (const lazy of [false, true]) {
+        it(`keeps heap order through random operations (${lazy ? 'lazy' : 'eager'} mode)`, () => {
+            for (let seed = 1; seed <= 60; seed++) {
+                const rng = createRng(seed);
+                const pick = (n: number) => Math.floor(rng() * n);
+                const initial = Array.from({ length: pick(20) }, (_, vertex) => ({ vertex, distance: pick(100) }));
+                const heap = new MinHeap(initial, { lazy, checkInvariants: true });
+                const keys = new Map(initial.map(({ vertex, distance }) => [vertex, distance]));
+                const smallest = () => Math.min(...keys.values());
+
+                for (let op = 0; op < 200; op++) {
+                    const queued = [...keys.keys()];
+                    const vertex = queued.length > 0 ? queued[pick(queued.length)] : -1;
+                    const r = rng();
+                    const context = `seed ${seed} op ${op}`;
+
+                    if (r < 0.3 || queued.length === 0) {
+                        const fresh = 100 + op;
+                        const distance = pick(100);
+                        heap.insert(fresh, distance);
+                        keys.set(fresh, distance);
+                    } else if (r < 0.5) {
+                        const distance = pick(keys.get(vertex)! + 1);
+                        heap.decreaseKey(vertex, distance);
+                        keys.set(vertex, distance);
+                    } else if (r < 0.65) {
+                        const distance = keys.get(vertex)! + pick(50);
+                        heap.increaseKey(vertex, distance);
+                        keys.set(vertex, distance);
+                    } else if (r < 0.75) {
+                        expect(heap.delete(vertex), context).toBe(true);
+                        expect(heap.delete(vertex), context).toBe(false);
+                        keys.delete(vertex);
+                    } else {
+                        const top = heap.peek()!;
+                        expect(top.distance, context).toBe(smallest());
+                        expect(heap.extractMin(), context).toBe(top.vertex);
+                        keys.delete(top.vertex);
+                    }
+
+                    expect(heap.size(), context).toBe(keys.size);
+                    expect(heap.checkInvariants(), context).toEqual([]);
+                }
+
+                let last = -Infinity;
+                while (!heap.isEmpty()) {
+                    const vertex = heap.extractMin()!;
+                    expect(keys.get(vertex)).toBeGreaterThanOrEqual(last);
+                    last = keys.get(vertex)!;
+                    keys.delete(vertex);
+                }
+                expect(keys.size).toBe(0);
+                expect(heap.peek()).toBeNull();
+                expect(heap.extractMin()).toBeNull();
+            }
+        });
+    }
+
+    it('heapifies initial entries in linear time', () => {
+        const entries = Array.from({ length: 1000 }, (_, vertex) => ({ vertex, distance: (vertex * 7919) % 1000 }));
+        const heap = new MinHeap(entries);
+        expect(heap.checkInvariants()).toEqual([]);
+        expect(heap.counters.work).toBeLessThan(2 * 2 * entries.length);
+        expect(heap.peek()).toEqual({ vertex: 0, distance: 0, tie: 0 });
+        expect(() => new MinHeap([{ vertex: 1, distance: 2 }, { vertex: 1, distance: 3 }])).toThrow(/more than once/);
+    });
+
+    it('rejects invalid key changes instead of corrupting the heap', () => {
+        for (const lazy of [false, true]) {
+            const heap = new MinHeap([{ vertex: 1, distance: 5 }, { vertex: 2, distance: 8 }], { lazy });
+            expect(() => heap.decreaseKey(3, 1)).toThrow(/vertex 3 is not in the heap/);
+            expect(() => heap.increaseKey(3, 1)).toThrow(/vertex 3 is not in the heap/);
+            expect(() => heap.decreaseKey(1, 6)).toThrow(RangeError);
+            expect(() => heap.increaseKey(2, 7)).toThrow(RangeError);
+            expect(() => heap.insert(1, 0)).toThrow(/already in the heap/);
+            expect(heap.checkInvariants()).toEqual([]);
+            expect(heap.extractMin()).toBe(1);
+        }
+    });
+
+    it('orders equal distances by tie-break value', () => {
+        const heap = new MinHeap([{ vertex: 1, distance: 4, tie: 2 }, { vertex: 2, distance: 4, tie: 1 }]);
+        heap.decreaseKey(1, 4, 0);
+        expect(heap.extractMin()).toBe(1);
+        expect(heap.extractMin()).toBe(2);
+    });
+
+    it('skips stale entries in lazy mode', () => {
+        const heap = new MinHeap([], { lazy: true });
+        heap.insert(1, 10);
+        heap.insert(2, 20);
+        heap.decreaseKey(2, 5);
+        heap.delete(1);
+        expect(heap.size()).toBe(1);
+        expect(heap.extractMin()).toBe(2);
+        expect(heap.isEmpty()).toBe(true);
+        expect(heap.extractMin()).toBeNull();
+    });
+});
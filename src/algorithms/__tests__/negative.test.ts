@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { TestCase, GraphFamily, generateCase, toGraph } from './harness';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { NegativeWeightError } from '../Graph';
+import { cycleWeight } from '../BellmanFord';
+import { dijkstra } from '../Dijkstra';
+import { createRng } from '../Random';
+import { compareDistances, validateShortestPathTree } from '../Verification';
+
+const NEGATIVE = ALGORITHMS.filter(a => a.supportsNegativeWeights);
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+/**
+ * Shift weights by node potentials: w'(u, v) = w + p(u) - p(v).
+ * Many weights turn negative but every cycle keeps its weight, so there
+ * is no negative cycle and d'(v) = d(v) + p(source) - p(v). The two arcs of
+ * an undirected edge get different weights, so the shifted case is directed.
+ */
+function reweight(testCase: TestCase, seed: number): { shifted: TestCase; potential: number[] } {
+    const rng = createRng(seed);
+    const potential = Array.from({ length: testCase.nodeCount }, () => Math.floor(rng() * 40));
+    const arcs = testCase.directed === false
+        ? testCase.edges.flatMap(([u, v, w]): Array<[number, number, number]> => [[u, v, w], [v, u, w]])
+        : testCase.edges;
+    const edges = arcs.map(([u, v, w]): [number, number, number] => [u, v, w + potential[u] - potential[v]]);
+    return { shifted: { ...testCase, edges, directed: true }, potential };
+}
+
+describe('negative edge weights', () => {
+    for (const family of FAMILIES) {
+        it(`Bellman-Ford and SPFA match shifted Dijkstra distances on ${family} graphs`, () => {
+            for (let seed = 1; seed <= 150; seed++) {
+                const testCase = generateCase(family, seed);
+                const { shifted, potential } = reweight(testCase, seed);
+                const { source } = testCase;
+                const reference = dijkstra(toGraph(testCase), source, undefined, { recording: 'none' });
+                const expected = new Map(
+                    [...reference.distances].map(([v, d]) => [v, d + potential[source] - potential[v]])
+                );
+
+                const graph = toGraph(shifted);
+                for (const { id, run } of NEGATIVE) {
+                    const result = run(graph, source, shifted.destination);
+                    const context = `${id} on ${family} seed ${seed}`;
+                    expect(result.negativeCycle, context).toBeUndefined();
+                    expect(compareDistances(graph, expected, result.distances), context).toEqual([]);
+                    expect(validateShortestPathTree(graph, source, result.distances, result.predecessors), context).toEqual([]);
+                }
+            }
+        });
+    }
+
+    it('report a reachable negative cycle instead of distances', () => {
+        for (let seed = 1; seed <= 200; seed++) {
+            const testCase = generateCase('random', seed);
+            const rng = createRng(seed);
+            const n = testCase.nodeCount;
+            const a = testCase.source;
+            const b = Math.floor(rng() * n);
+            const c = Math.floor(rng() * n);
+
+            // a → b → c → a (or a self-loop when they coincide) with negative total weight
+            const ring = [...new Set([a, b, c])];
+            const edges = testCase.edges.filter(([u, v]) => !ring.includes(u) || !ring.includes(v));
+            ring.forEach((u, i) => edges.push([u, ring[(i + 1) % ring.length], i === 0 ? -50 : 5]));
+            const graph = toGraph({ ...testCase, edges });
+
+            for (const { id, run } of NEGATIVE) {
+                const result = run(graph, a, testCase.destination);
+                const context = `${id} on seed ${seed}`;
+                const cycle = result.negativeCycle;
+                expect(cycle, context).toBeDefined();
+                expect(new Set(cycle).size, context).toBe(cycle!.length);
+                expect(cycleWeight(graph, cycle!), context).toBeLessThan(0);
+                expect(result.shortestPath).toEqual([]);
+                expect(result.steps[result.steps.length - 1].action).toBe('negative_cycle');
+            }
+        }
+    });
+
+    it('ignore negative cycles the source cannot reach', () => {
+        const graph = toGraph({ nodeCount: 4, edges: [[0, 1, 2], [2, 3, -4], [3, 2, 1]], source: 0, destination: 1 });
+        for (const { run } of NEGATIVE) {
+            const result = run(graph, 0, 1);
+            expect(result.negativeCycle).toBeUndefined();
+            expect(result.shortestPath).toEqual([0, 1]);
+        }
+    });
+
+    it('are refused by algorithms that need non-negative weights', () => {
+        const graph = toGraph({ nodeCount: 3, edges: [[0, 1, 4], [1, 2, -1]], source: 0, destination: 2 });
+        for (const { id, run, supportsNegativeWeights } of ALGORITHMS) {
+            if (supportsNegativeWeights) continue;
+            expect(() => run(graph, 0, 2), id).toThrow(NegativeWeightError);
+            expect(() => run(graph, 0, 2), id).toThrow(/1 → 2 has weight -1/);
+        }
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { GraphClass, generateGridGraph, generateRandomGraph } from '../Graph';
+import { Graph, AlgorithmResult } from '../types';
+import { dijkstra } from '../Dijkstra';
+import { aStar } from '../AStar';
+import { bidirectionalDijkstra } from '../BidirectionalDijkstra';
+import { createRng } from '../Random';
+import { verifyPointToPoint, verifyResult } from '../Verification';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+
+/**
+ * Random points joined to their nearest neighbours, weighted by length,
+ * so the heuristics have real geometry to exploit
+ */
+function geometricGraph(n: number, seed: number): Graph {
+    const rng = createRng(seed);
+    const graph = new GraphClass();
+    for (let i = 0; i < n; i++) graph.addNode(rng() * 800, rng() * 600);
+
+    for (const a of graph.nodes) {
+        const nearest = graph.nodes
+            .filter(b => b.id !== a.id)
+            .sort((b, c) => Math.hypot(b.x - a.x, b.y - a.y) - Math.hypot(c.x - a.x, c.y - a.y))
+            .slice(0, 4);
+        for (const b of nearest) {
+            const weight = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y));
+            graph.addEdge(a.id, b.id, weight);
+            graph.addEdge(b.id, a.id, weight);
+        }
+    }
+    return graph.toGraph();
+}
+
+function pathLength(graph: Graph, path: number[]): number {
+    let length = 0;
+    for (let i = 0; i + 1 < path.length; i++) {
+        const edge = (graph.adjacencyList.get(path[i]) || []).find(e => e.node === path[i + 1]);
+        if (!edge) return NaN;
+        length += edge.weight;
+    }
+    return length;
+}
+
+type PointToPoint = (graph: Graph, source: number, destination: number) => AlgorithmResult;
+
+const SOLVERS: Array<[string, PointToPoint]> = [
+    ['A* euclidean', (graph, source, destination) => aStar(graph, source, destination, { recording: 'none' }, 'euclidean')],
+    ['A* manhattan', (graph, source, destination) => aStar(graph, source, destination, { recording: 'none' }, 'manhattan')],
+    ['bidirectional', (graph, source, destination) => bidirectionalDijkstra(graph, source, destination, { recording: 'none' })],
+];
+
+describe('point-to-point search', () => {
+    // Random graphs have tiny diameters and no useful geometry, so only correctness is checked there
+    const families: Array<[string, (seed: number) => Graph, boolean]> = [
+        ['geometric', seed => geometricGraph(20 + (seed % 40), seed), true],
+        ['grid', seed => generateGridGraph(3 + (seed % 6), 3 + (seed % 7), 800, 600, seed).toGraph(), true],
+        ['random', seed => generateRandomGraph(5 + (seed % 25), 0.15, 20, 800, 600, seed).toGraph(), false],
+    ];
+
+    for (const [family, build, settlesFewer] of families) {
+        it(`finds shortest paths on ${family} graphs`, () => {
+            const settled = new Map<string, number>([['dijkstra', 0], ...SOLVERS.map(([name]): [string, number] => [name, 0])]);
+
+            for (let seed = 1; seed <= 120; seed++) {
+                const graph = build(seed);
+                const rng = createRng(seed);
+                const source = Math.floor(rng() * graph.nodes.length);
+                const destination = Math.floor(rng() * graph.nodes.length);
+
+                const reference = dijkstra(graph, source, destination, { recording: 'none' });
+                const expected = reference.distances.get(destination)!;
+                settled.set('dijkstra', settled.get('dijkstra')! + reference.statistics.nodesProcessed);
+
+                for (const [name, solve] of SOLVERS) {
+                    const result = solve(graph, source, destination);
+                    const context = `${name} on ${family} seed ${seed}`;
+                    expect(result.distances.get(destination), context).toBe(expected);
+                    if (expected === Infinity) {
+                        expect(result.shortestPath, context).toEqual([]);
+                    } else {
+                        expect(result.shortestPath[0], context).toBe(source);
+                        expect(result.shortestPath[result.shortestPath.length - 1], context).toBe(destination);
+                        expect(pathLength(graph, result.shortestPath), context).toBe(expected);
+                    }
+                    settled.set(name, settled.get(name)! + result.statistics.nodesProcessed);
+                }
+            }
+
+            for (const [name] of settlesFewer ? SOLVERS : []) {
+                expect(settled.get(name), name).toBeLessThanOrEqual(settled.get('dijkstra')!);
+            }
+        });
+    }
+
+    it('verifies runs that stopped at their destination against a full reference run', () => {
+        const graph = generateGridGraph(6, 6, 800, 600, 5).toGraph();
+        const reference = dijkstra(graph, 7, undefined, { recording: 'none' }).distances;
+        for (const [name, solve] of SOLVERS) {
+            const result = solve(graph, 7, 30);
+            expect(verifyPointToPoint(graph, 7, 30, reference, result).ok, name).toBe(true);
+
+            const detour = { ...result, shortestPath: [7, 30] };
+            expect(verifyPointToPoint(graph, 7, 30, reference, detour).predecessorIssues[0].reason, name).toMatch(/does not exist/);
+            const wrong = { ...result, distances: new Map([[30, reference.get(30)! + 1]]) };
+            expect(verifyPointToPoint(graph, 7, 30, reference, wrong).mismatches, name).toHaveLength(1);
+        }
+    });
+
+    it('leaves every other algorithm with a full shortest-path tree to check', () => {
+        const graph = generateGridGraph(6, 6, 800, 600, 5).toGraph();
+        const reference = dijkstra(graph, 7, undefined, { recording: 'none' }).distances;
+        for (const algorithm of ALGORITHMS.filter(a => !a.pointToPoint)) {
+            const result = algorithm.run(graph, 7, 30, { recording: 'none' });
+            const report = verifyResult(graph, 7, reference, result);
+            expect(report.ok, algorithm.id).toBe(true);
+            expect(report.scope).toBe('tree');
+
+            const wrong = { ...result, distances: new Map(result.distances).set(0, reference.get(0)! + 1) };
+            expect(verifyResult(graph, 7, reference, wrong).mismatches.map(m => m.node), algorithm.id).toEqual([0]);
+        }
+    });
+
+    it('marks forward, backward and meeting nodes in the bidirectional trace', () => {
+        const graph = generateGridGraph(5, 5, 800, 600, 3).toGraph();
+        const result = bidirectionalDijkstra(graph, 0, 24);
+        const states = new Set<string>();
+        for (let i = 0; i < result.trace.length; i++) {
+            for (const state of result.trace.getState(i).nodeStates.values()) states.add(state);
+        }
+
+        expect(states).toContain('forward');
+        expect(states).toContain('backward');
+        expect(states).toContain('meeting');
+        expect(result.steps.some(step => step.action === 'meet')).toBe(true);
+    });
+});
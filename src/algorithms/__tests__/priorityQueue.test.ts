@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { GraphFamily, generateCase, toGraph } from './harness';
+import { PRIORITY_QUEUES, createPriorityQueue } from '../PriorityQueue';
+import { UnsupportedGraphError } from '../Graph';
+import { MAX_BUCKET_WEIGHT } from '../BucketQueue';
+import { dijkstra } from '../Dijkstra';
+import { createRng } from '../Random';
+import { compareDistances, validateShortestPathTree } from '../Verification';
+
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+const MAX_WEIGHT = 20;
+
+describe('priority queues', () => {
+    // A graph whose weights bound every key the monotone queues will see
+    const bounds = toGraph({ nodeCount: 2, edges: [[0, 1, MAX_WEIGHT]], source: 0, destination: 1 });
+
+    for (const { id } of PRIORITY_QUEUES) {
+        it(`${id} extracts keys in order under a Dijkstra-like workload`, () => {
+            for (let seed = 1; seed <= 40; seed++) {
+                const rng = createRng(seed);
+                const queue = createPriorityQueue(id, bounds);
+                const keys = new Map<number, number>();
+                let last = 0;
+                let nextVertex = 0;
+
+                // Keys never drop below the last extracted one and stay within MAX_WEIGHT of it
+                for (let round = 0; round < 300; round++) {
+                    const r = rng();
+                    if (r < 0.4) {
+                        const key = last + Math.floor(rng() * (MAX_WEIGHT + 1));
+                        queue.insert(nextVertex, key);
+                        keys.set(nextVertex++, key);
+                    } else if (r < 0.7 && keys.size > 0) {
+                        const vertices = [...keys.keys()];
+                        const vertex = vertices[Math.floor(rng() * vertices.length)];
+                        const key = last + Math.floor(rng() * (keys.get(vertex)! - last + 1));
+                        queue.decreaseKey(vertex, key);
+                        keys.set(vertex, key);
+                    } else if (keys.size > 0) {
+                        const vertex = queue.extractMin()!;
+                        const min = Math.min(...keys.values());
+                        expect(keys.get(vertex), `seed ${seed}`).toBe(min);
+                        keys.delete(vertex);
+                        last = min;
+                    }
+
+                    expect(queue.size()).toBe(keys.size);
+                    expect(queue.isEmpty()).toBe(keys.size === 0);
+                }
+
+                while (!queue.isEmpty()) {
+                    const vertex = queue.extractMin()!;
+                    expect(keys.get(vertex), `seed ${seed}`).toBe(Math.min(...keys.values()));
+                    keys.delete(vertex);
+                }
+                expect(keys.size).toBe(0);
+                expect(queue.extractMin()).toBeNull();
+            }
+        });
+    }
+
+    for (const family of FAMILIES) {
+        it(`every queue gives Dijkstra the same distances on ${family} graphs`, () => {
+            for (let seed = 1; seed <= 100; seed++) {
+                const testCase = generateCase(family, seed);
+                const graph = toGraph(testCase);
+                const reference = dijkstra(graph, testCase.source, undefined, { recording: 'none' });
+
+                for (const { id } of PRIORITY_QUEUES) {
+                    const result = dijkstra(graph, testCase.source, undefined, { recording: 'none', priorityQueue: id });
+                    const context = `${id} on ${family} seed ${seed}`;
+                    const { statistics } = result;
+                    expect(compareDistances(graph, reference.distances, result.distances), context).toEqual([]);
+                    expect(validateShortestPathTree(graph, testCase.source, result.distances, result.predecessors), context).toEqual([]);
+
+                    // Operation counts depend on the algorithm, not on the queue
+                    expect(statistics.queueInserts, context).toBe(reference.statistics.queueInserts);
+                    expect(statistics.queueExtracts, context).toBe(reference.statistics.queueExtracts);
+                    expect(statistics.heapOperations, context).toBe(
+                        statistics.queueInserts! + statistics.queueExtracts! + statistics.queueDecreaseKeys!
+                    );
+                }
+            }
+        });
+    }
+
+    it('check binary heap invariants throughout a run when asked', () => {
+        const testCase = generateCase('random', 3);
+        const graph = toGraph(testCase);
+        const reference = dijkstra(graph, testCase.source, undefined, { recording: 'none' });
+        for (const id of ['binary', 'lazy-binary'] as const) {
+            for (const recording of ['all', 'none'] as const) {
+                const result = dijkstra(graph, testCase.source, undefined, { recording, priorityQueue: id, checkHeapInvariants: true });
+                expect(result.distances, `${id} ${recording}`).toEqual(reference.distances);
+            }
+        }
+    });
+
+    it('refuse fractional weights in the integer-only queues', () => {
+        const graph = toGraph({ nodeCount: 3, edges: [[0, 1, 2], [1, 2, 1.5]], source: 0, destination: 2 });
+        for (const id of ['radix', 'dial'] as const) {
+            expect(() => dijkstra(graph, 0, 2, { priorityQueue: id }), id).toThrow(UnsupportedGraphError);
+            expect(() => dijkstra(graph, 0, 2, { priorityQueue: id }), id).toThrow(/1 → 2 has weight 1.5/);
+        }
+        expect(dijkstra(graph, 0, 2, { priorityQueue: 'fibonacci' }).distances.get(2)).toBe(3.5);
+    });
+
+    it('refuse weights too large for one bucket per unit', () => {
+        const graph = toGraph({ nodeCount: 3, edges: [[0, 1, 1e8], [1, 2, 3]], source: 0, destination: 2 });
+        expect(() => dijkstra(graph, 0, 2, { priorityQueue: 'dial' })).toThrow(UnsupportedGraphError);
+        expect(() => dijkstra(graph, 0, 2, { priorityQueue: 'dial' })).toThrow(/weight 100000000/);
+        expect(dijkstra(graph, 0, 2, { priorityQueue: 'radix' }).distances.get(2)).toBe(1e8 + 3);
+
+        const wide = toGraph({ nodeCount: 3, edges: [[0, 1, MAX_BUCKET_WEIGHT], [0, 2, 1], [2, 1, 2]], source: 0, destination: 1 });
+        expect(dijkstra(wide, 0, 1, { priorityQueue: 'dial' }).distances.get(1)).toBe(3);
+    });
+});
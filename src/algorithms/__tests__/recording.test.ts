@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { RunOptions, AlgorithmResult } from '../types';
+import { dijkstra } from '../Dijkstra';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { generateCase, toGraph } from './harness';
+
+const MODES: RunOptions[] = [
+    { recording: 'sampled', sampleInterval: 3 },
+    { recording: 'milestones' },
+    { recording: 'none' },
+];
+
+function withoutTiming(result: AlgorithmResult) {
+    const { executionTime: _executionTime, ...statistics } = result.statistics;
+    return { distances: result.distances, predecessors: result.predecessors, shortestPath: result.shortestPath, statistics };
+}
+
+describe('step recording modes', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+        const testCase = generateCase('random', seed);
+        const graph = toGraph(testCase);
+        const { source, destination } = testCase;
+
+        it(`leave results and statistics unchanged (seed ${seed})`, () => {
+            for (const { run } of ALGORITHMS) {
+                const full = run(graph, source, destination);
+                for (const options of MODES) {
+                    const result = run(graph, source, destination, options);
+                    expect(withoutTiming(result)).toEqual(withoutTiming(full));
+                    expect(result.steps.length).toBeLessThanOrEqual(full.steps.length);
+                }
+            }
+        });
+    }
+
+    it('keeps the step numbers of the full trace when sampling', () => {
+        const testCase = generateCase('grid', 5);
+        const graph = toGraph(testCase);
+        const full = dijkstra(graph, testCase.source, testCase.destination);
+        const sampled = dijkstra(graph, testCase.source, testCase.destination, { recording: 'sampled', sampleInterval: 4 });
+
+        sampled.steps.forEach((step, i) => {
+            expect(step).toEqual(full.steps[step.stepNumber]);
+            expect(sampled.trace.getState(i)).toEqual(full.trace.getState(step.stepNumber));
+        });
+        expect(sampled.steps[0].action).toBe('initialize');
+    });
+
+    it('ends sampled traces on the final step, with or without a path', () => {
+        const testCase = generateCase('disconnected', 3);
+        const graph = toGraph(testCase);
+        const reached = dijkstra(graph, testCase.source).distances;
+        const unreachable = graph.nodes.find(node => reached.get(node.id) === Infinity)!.id;
+
+        for (const { id, run } of ALGORITHMS) {
+            for (const destination of [undefined, unreachable]) {
+                const full = run(graph, testCase.source, destination);
+                const sampled = run(graph, testCase.source, destination, { recording: 'sampled', sampleInterval: 7 });
+                const context = `${id} to ${destination}`;
+                const last = sampled.steps.length - 1;
+
+                expect(sampled.steps[last].action, context).toBe('done');
+                expect(sampled.steps[last].stepNumber, context).toBe(full.steps[full.steps.length - 1].stepNumber);
+                expect(sampled.trace.getState(last), context).toEqual(full.trace.getState(full.trace.length - 1));
+            }
+        }
+    });
+
+    it('keeps every few visits in milestones mode', () => {
+        const testCase = generateCase('grid', 5);
+        const graph = toGraph(testCase);
+        const full = dijkstra(graph, testCase.source);
+        const milestones = dijkstra(graph, testCase.source, undefined, { recording: 'milestones', sampleInterval: 5 });
+        const visits = full.steps.filter(step => step.action === 'visit').length;
+
+        const kept = milestones.steps.filter(step => step.action === 'visit');
+        expect(kept).toHaveLength(Math.floor(visits / 5));
+        expect(kept.every(step => step.progress!.settled % 5 === 0)).toBe(true);
+        expect(milestones.steps.map(step => step.action)).toEqual(['initialize', ...kept.map(() => 'visit'), 'done']);
+    });
+
+    it('records nothing in none mode', () => {
+        const graph = toGraph(generateCase('random', 9));
+        for (const { run } of ALGORITHMS) {
+            expect(run(graph, 0, undefined, { recording: 'none' }).steps).toHaveLength(0);
+        }
+    });
+});
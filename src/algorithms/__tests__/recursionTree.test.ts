@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { generateCase, toGraph } from './harness';
+import { RecursionFrame } from '../types';
+import { newSSSPAlgorithm } from '../NewSSSP';
+import { bmsspAlgorithm } from '../BMSSP';
+import { activeFrames } from '../RecursionTree';
+
+function countFrames(frame: RecursionFrame): number {
+    return 1 + frame.children.reduce((sum, child) => sum + countFrames(child), 0);
+}
+
+function checkNesting(frame: RecursionFrame, context: string): void {
+    let previousEnd = frame.firstStep;
+    for (const child of frame.children) {
+        expect(child.level, context).toBe(frame.level - 1);
+        expect(child.firstStep, context).toBeGreaterThanOrEqual(previousEnd);
+        expect(child.endStep, context).toBeLessThanOrEqual(frame.endStep);
+        previousEnd = child.endStep;
+        checkNesting(child, context);
+    }
+    expect(frame.returnedBound, context).toBeLessThanOrEqual(frame.bound);
+    expect(frame.completedCount, context).toBeDefined();
+}
+
+describe('BMSSP recursion tree', () => {
+    for (const algorithm of [newSSSPAlgorithm, bmsspAlgorithm]) {
+        it(`${algorithm.id} records nested calls that line up with its steps`, () => {
+            for (let seed = 1; seed <= 60; seed++) {
+                const testCase = generateCase(seed % 2 === 0 ? 'random' : 'grid', seed);
+                const graph = toGraph(testCase);
+                const result = algorithm.run(graph, testCase.source, testCase.destination);
+                const context = `${algorithm.id} seed ${seed}`;
+                const tree = result.callTree!;
+
+                expect(tree, context).toBeDefined();
+                expect(tree.level, context).toBe(result.statistics.levels);
+                expect(tree.bound, context).toBe(Infinity);
+                checkNesting(tree, context);
+
+                // Level-tagged steps happen inside a frame of that level
+                result.steps.forEach((step, index) => {
+                    if (step.action !== 'find_pivots' && step.action !== 'frontier_pull') return;
+                    const path = activeFrames(tree, index);
+                    expect(path[0], context).toBe(tree);
+                    expect(path[path.length - 1].level, context).toBe(step.details!.recursionLevel);
+                });
+
+                // The call structure does not depend on what gets recorded
+                const silent = algorithm.run(graph, testCase.source, testCase.destination, { recording: 'none' });
+                expect(countFrames(silent.callTree!), context).toBe(countFrames(tree));
+            }
+        });
+    }
+});
+
+describe('NewSSSP working sets', () => {
+    it('shows pivots, W and the frontier on the steps that produce them', () => {
+        for (let seed = 1; seed <= 40; seed++) {
+            const testCase = generateCase(seed % 2 === 0 ? 'random' : 'grid', seed);
+            const result = newSSSPAlgorithm.run(toGraph(testCase), testCase.source);
+            const context = `seed ${seed}`;
+
+            result.steps.forEach((step, index) => {
+                const state = result.trace.getState(index);
+                if (step.action === 'find_pivots') {
+                    expect([...state.pivots].sort(), context).toEqual([...step.details!.pivotsFound!].sort());
+                    expect(state.pivots.size, context).toBeGreaterThan(0);
+                    for (const pivot of state.pivots) expect(state.workingSet.has(pivot), context).toBe(true);
+                } else {
+                    expect(state.workingSet.size, context).toBe(0);
+                }
+                if (step.action === 'frontier_pull') {
+                    expect(state.frontier.size, context).toBe(step.details!.frontierSize);
+                    const frame = activeFrames(result.callTree!, index).pop()!;
+                    expect(step.details!.bound, context).toBeLessThanOrEqual(frame.bound);
+                }
+            });
+        }
+    });
+});
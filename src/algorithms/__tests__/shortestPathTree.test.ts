@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { generateCase, toGraph } from './harness';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { diffTrees, pathToRoot, treeEdges } from '../ShortestPathTree';
+
+describe('shortest-path tree', () => {
+    it('final predecessor trees are tight and lead back to the source', () => {
+        for (const algorithm of ALGORITHMS) {
+            for (let seed = 1; seed <= 20; seed++) {
+                const testCase = generateCase(seed % 2 === 0 ? 'random' : 'grid', seed);
+                const graph = toGraph(testCase);
+                const result = algorithm.run(graph, testCase.source);
+                const state = result.trace.getState(result.trace.length - 1);
+                const context = `${algorithm.id} seed ${seed}`;
+
+                for (const [from, to] of treeEdges(state.predecessors)) {
+                    const weights = (graph.adjacencyList.get(from) ?? []).filter(e => e.node === to).map(e => e.weight);
+                    const expected = state.distances.get(from)! + Math.min(...weights);
+                    expect(state.distances.get(to), `${context} edge ${from}-${to}`).toBeCloseTo(expected, 6);
+
+                    const { path, cycle } = pathToRoot(state.predecessors, to);
+                    expect(cycle, context).toBe(false);
+                    expect(path[0], context).toBe(testCase.source);
+                    expect(path[path.length - 1], context).toBe(to);
+                }
+            }
+        }
+    });
+
+    it('diffs turn one step\'s tree into the next', () => {
+        const testCase = generateCase('random', 7);
+        const result = ALGORITHMS.find(a => a.id === 'bellman-ford')!.run(toGraph(testCase), testCase.source);
+        let prev = new Map<number, number>();
+        for (let i = 0; i < result.trace.length; i++) {
+            const next = result.trace.getState(i).predecessors;
+            const edges = new Set(treeEdges(prev).map(e => e.join('-')));
+            const { added, removed } = diffTrees(prev, next);
+            for (const e of removed) edges.delete(e.join('-'));
+            for (const e of added) edges.add(e.join('-'));
+            expect([...edges].sort()).toEqual(treeEdges(next).map(e => e.join('-')).sort());
+            prev = next;
+        }
+    });
+
+    it('stops at predecessor cycles', () => {
+        const pred = new Map([[0, -1], [1, 2], [2, 3], [3, 1]]);
+        expect(pathToRoot(pred, 1)).toEqual({ path: [3, 2, 1], cycle: true });
+        expect(pathToRoot(pred, 0)).toEqual({ path: [0], cycle: false });
+    });
+});
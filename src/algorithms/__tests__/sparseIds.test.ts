@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { GraphFamily, TestCase, generateCase, toGraph } from './harness';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { GraphClass, UnsupportedGraphError } from '../Graph';
+import { PRIORITY_QUEUES } from '../PriorityQueue';
+import { dijkstra } from '../Dijkstra';
+import { newSSSPAlgorithm } from '../NewSSSP';
+import { bmsspAlgorithm } from '../BMSSP';
+import { createRng } from '../Random';
+import { validateShortestPathTree } from '../Verification';
+
+const FAMILIES: GraphFamily[] = ['random', 'grid', 'dag', 'disconnected'];
+
+/**
+ * Build the case, then delete a few nodes so the remaining ids have gaps.
+ * Also returns the same graph relabelled to dense ids 0..n-1.
+ */
+function withGaps(testCase: TestCase, seed: number) {
+    const rng = createRng(seed);
+    const graph = new GraphClass({ directed: testCase.directed });
+    for (let i = 0; i < testCase.nodeCount; i++) graph.addNode(0, 0);
+    for (const [from, to, weight] of testCase.edges) graph.addEdge(from, to, weight);
+
+    const removals = 1 + Math.floor(rng() * Math.max(1, testCase.nodeCount / 3));
+    for (let r = 0; r < removals && graph.nodes.length > 2; r++) {
+        graph.removeNode(graph.nodes[Math.floor(rng() * (graph.nodes.length - 1))].id);
+    }
+
+    const ids = graph.nodes.map(n => n.id);
+    const dense = new Map(ids.map((id, i) => [id, i]));
+    const relabelled: TestCase = {
+        nodeCount: ids.length,
+        edges: graph.edges.map(e => [dense.get(e.from)!, dense.get(e.to)!, e.weight]),
+        source: 0,
+        destination: ids.length - 1,
+        directed: testCase.directed,
+    };
+    return { sparse: graph.toGraph(), dense: toGraph(relabelled), ids };
+}
+
+describe('sparse node ids', () => {
+    for (const family of FAMILIES) {
+        it(`every algorithm handles ids with gaps on ${family} graphs`, () => {
+            for (let seed = 1; seed <= 25; seed++) {
+                const { sparse, dense, ids } = withGaps(generateCase(family, seed), seed);
+                const source = ids[seed % ids.length];
+                const destination = ids[(seed * 7) % ids.length];
+                const expected = dijkstra(dense, ids.indexOf(source), undefined, { recording: 'none' });
+
+                for (const algorithm of ALGORITHMS) {
+                    const context = `${algorithm.id} on ${family} seed ${seed}`;
+                    const full = algorithm.run(sparse, source);
+
+                    expect([...full.distances.keys()].sort((a, b) => a - b), context).toEqual(ids);
+                    ids.forEach((id, i) => {
+                        expect(full.distances.get(id), `${context} node ${id}`).toBe(expected.distances.get(i));
+                    });
+                    expect(validateShortestPathTree(sparse, source, full.distances, full.predecessors), context).toEqual([]);
+
+                    // Point-to-point runs may stop early, so only their path is checked
+                    const result = algorithm.run(sparse, source, destination);
+                    const reachable = expected.distances.get(ids.indexOf(destination)) !== Infinity;
+                    expect(result.shortestPath.length > 0, context).toBe(reachable);
+                    if (reachable) {
+                        expect(result.shortestPath[0], context).toBe(source);
+                        expect(result.shortestPath[result.shortestPath.length - 1], context).toBe(destination);
+                    }
+
+                    // Visual states only ever mention real nodes
+                    for (let i = 0; i < result.trace.length; i++) {
+                        for (const id of result.trace.getState(i).nodeStates.keys()) {
+                            expect(ids.includes(id), `${context} step ${i}`).toBe(true);
+                        }
+                    }
+                }
+            }
+        });
+    }
+
+    it('every priority queue handles ids with gaps', () => {
+        for (let seed = 1; seed <= 25; seed++) {
+            const { sparse, dense, ids } = withGaps(generateCase('random', seed), seed);
+            const expected = dijkstra(dense, 0, undefined, { recording: 'none' });
+            for (const queue of PRIORITY_QUEUES) {
+                const result = dijkstra(sparse, ids[0], undefined, { recording: 'none', priorityQueue: queue.id });
+                ids.forEach((id, i) => {
+                    expect(result.distances.get(id), `${queue.id} seed ${seed}`).toBe(expected.distances.get(i));
+                });
+            }
+        }
+    });
+
+    it('returns no path to a node that is not in the graph', () => {
+        const { sparse, ids } = withGaps(generateCase('grid', 4), 4);
+        const missing = Math.max(...ids) + 1;
+        for (const algorithm of ALGORITHMS) {
+            expect(algorithm.run(sparse, ids[0], missing, { recording: 'none' }).shortestPath, algorithm.id).toEqual([]);
+        }
+    });
+
+    it('rejects a source that is not in the graph in both BMSSP solvers', () => {
+        const { sparse, ids } = withGaps(generateCase('grid', 4), 4);
+        const missing = Math.max(...ids) + 1;
+        for (const algorithm of [newSSSPAlgorithm, bmsspAlgorithm]) {
+            expect(() => algorithm.run(sparse, missing, undefined, { recording: 'none' }), algorithm.id).toThrow(UnsupportedGraphError);
+        }
+    });
+});
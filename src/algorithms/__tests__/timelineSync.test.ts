@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { generateCase, toGraph } from './harness';
+import { dijkstra } from '../Dijkstra';
+import { newSSSPAlgorithm } from '../NewSSSP';
+import { bellmanFord } from '../BellmanFord';
+import { spfa } from '../SPFA';
+import { TIMELINE_SYNCS, syncTimeline } from '../TimelineSync';
+
+describe('timeline sync', () => {
+    it('stamps steps with progress that matches the run statistics in every recording mode', () => {
+        for (let seed = 1; seed <= 30; seed++) {
+            const testCase = generateCase('random', seed);
+            const graph = toGraph(testCase);
+            const full = dijkstra(graph, testCase.source);
+            const last = full.steps[full.steps.length - 1];
+            expect(last.progress).toEqual({ settled: full.statistics.nodesProcessed, operations: full.statistics.operations });
+
+            const byNumber = new Map(full.steps.map(step => [step.stepNumber, step.progress]));
+            for (const recording of ['sampled', 'milestones'] as const) {
+                const partial = dijkstra(graph, testCase.source, undefined, { recording, sampleInterval: 3 });
+                for (const step of partial.steps) {
+                    expect(step.progress, `${recording} seed ${seed}`).toEqual(byNumber.get(step.stepNumber));
+                }
+            }
+        }
+    });
+
+    it('counts Bellman-Ford and SPFA nodes as settled once their distance is final', () => {
+        for (const run of [bellmanFord, spfa]) {
+            for (let seed = 1; seed <= 15; seed++) {
+                const testCase = generateCase('random', seed);
+                const result = run(toGraph(testCase), testCase.source);
+
+                result.steps.forEach((step, i) => {
+                    const distances = result.trace.getState(i).distances;
+                    const final = [...distances].filter(([id, d]) => d !== Infinity && d === result.distances.get(id));
+                    expect(step.progress!.settled, `${run.name} seed ${seed} step ${i}`).toBe(final.length);
+                });
+                expect(result.steps[result.steps.length - 1].progress!.settled).toBe(result.statistics.nodesProcessed);
+            }
+        }
+    });
+
+    it('picks, for each run, the last step not past the shared position', () => {
+        for (let seed = 1; seed <= 30; seed++) {
+            const testCase = generateCase('grid', seed);
+            const graph = toGraph(testCase);
+            const results = [dijkstra(graph, testCase.source), newSSSPAlgorithm.run(graph, testCase.source)];
+
+            for (const { id: sync } of TIMELINE_SYNCS) {
+                const timeline = syncTimeline(results, sync);
+                const measure = (run: number, step: number) =>
+                    sync === 'step' ? step : results[run].steps[step].progress![sync];
+
+                let previous = [0, 0];
+                for (let tick = 0; tick < timeline.length; tick++) {
+                    const value = timeline.value(tick);
+                    const steps = timeline.stepsAt(tick);
+                    steps.forEach((step, run) => {
+                        const context = `${sync} seed ${seed} tick ${tick}`;
+                        expect(step, context).toBeGreaterThanOrEqual(previous[run]);
+                        if (step > 0) expect(measure(run, step), context).toBeLessThanOrEqual(value);
+                        if (step + 1 < results[run].steps.length) {
+                            expect(measure(run, step + 1), context).toBeGreaterThan(value);
+                        }
+                    });
+                    previous = steps;
+                }
+                expect(timeline.stepsAt(timeline.length - 1)).toEqual(results.map(r => r.steps.length - 1));
+            }
+        }
+    });
+});
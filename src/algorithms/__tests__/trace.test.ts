@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { NodeState, VisualizationState } from '../types';
+import { LiveState, StepTrace } from '../StepTrace';
+import { createRng } from '../Random';
+
+const NODE_STATES = Object.values(NodeState);
+
+/**
+ * Record count random updates of a live state, returning the trace and a
+ * snapshot of every recorded step
+ */
+function randomTrace(count: number, nodes: number, seed: number): { trace: StepTrace; states: VisualizationState[] } {
+    const rng = createRng(seed);
+    const pick = (n: number) => Math.floor(rng() * n);
+    const state = new LiveState();
+    for (let i = 0; i < nodes; i++) {
+        state.nodeStates.set(i, NodeState.UNVISITED);
+        state.distances.set(i, Infinity);
+        state.predecessors.set(i, -1);
+    }
+
+    const trace = new StepTrace();
+    const states: VisualizationState[] = [];
+    for (let i = 0; i < count; i++) {
+        for (let c = pick(4); c > 0; c--) {
+            const v = pick(nodes);
+            state.nodeStates.set(v, NODE_STATES[pick(NODE_STATES.length)]);
+            state.distances.set(v, pick(100));
+            if (rng() < 0.2) state.predecessors.delete(v);
+            else state.predecessors.set(v, pick(nodes));
+        }
+        state.activeEdges.replace(rng() < 0.5 ? [`${pick(nodes)}-${pick(nodes)}`] : []);
+        if (rng() < 0.3) state.pivots.add(pick(nodes));
+        if (rng() < 0.3) state.pivots.delete(pick(nodes));
+        if (rng() < 0.3) state.frontier.replace([pick(nodes), pick(nodes)]);
+        if (rng() < 0.2) state.workingSet.replace(rng() < 0.5 ? [pick(nodes), pick(nodes), pick(nodes)] : []);
+        trace.record(state);
+        states.push(state.snapshot());
+    }
+    return { trace, states };
+}
+
+describe('StepTrace', () => {
+    it('reconstructs every step in any order', () => {
+        const { trace, states } = randomTrace(200, 15, 42);
+
+        expect(trace.length).toBe(states.length);
+
+        const rng = createRng(7);
+        for (let i = 0; i < 500; i++) {
+            const index = Math.floor(rng() * states.length);
+            expect(trace.getState(index)).toEqual(states[index]);
+        }
+        for (let i = states.length - 1; i >= 0; i--) {
+            expect(trace.getState(i)).toEqual(states[i]);
+        }
+    });
+
+    it('is unaffected by updating the live state after recording', () => {
+        const state = new LiveState();
+        const trace = new StepTrace();
+        state.distances.set(0, 5);
+        state.frontier.add(0);
+        trace.record(state);
+        const expected = state.snapshot();
+
+        state.distances.set(0, -1);
+        state.frontier.delete(0);
+        state.frontier.add(1);
+        trace.record(state);
+
+        expect(trace.getState(0)).toEqual(expected);
+        expect(trace.getState(1)).toEqual(state.snapshot());
+    });
+
+    it('ignores updates to a disabled live state', () => {
+        const state = new LiveState(false);
+        state.nodeStates.set(0, NodeState.CURRENT);
+        state.activeEdges.add('0-1');
+        expect(state.size).toBe(0);
+    });
+
+    it('rejects steps outside the trace', () => {
+        const trace = new StepTrace();
+        expect(() => trace.getState(0)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { generateCase } from './harness';
+import { ALGORITHMS } from '../AlgorithmRegistry';
+import { GraphClass, graphArcs } from '../Graph';
+import { dijkstra } from '../Dijkstra';
+import { createRng } from '../Random';
+import { validateShortestPathTree } from '../Verification';
+import { diffMatrices, floydWarshall, johnson, runFromEverySource } from '../AllPairs';
+import { decodeCompactGraph, encodeCompactGraph, parseGraphJson, toDimacs, toGraphJson } from '../GraphFormats';
+
+function build(nodeCount: number, edges: Array<[number, number, number]>, directed: boolean, multigraph = false) {
+    const graph = new GraphClass({ directed, multigraph });
+    for (let i = 0; i < nodeCount; i++) graph.addNode(0, 0);
+    for (const [from, to, weight] of edges) graph.addEdge(from, to, weight);
+    return graph;
+}
+
+describe('undirected graphs and parallel edges', () => {
+    it('keep one edge with an arc each way', () => {
+        const graph = build(3, [[0, 1, 4], [1, 2, 2]], false);
+        const id = graph.addEdge(1, 0, 3);
+
+        expect(graph.edges).toHaveLength(2);
+        expect(graph.getEdge(0, 1)).toBe(graph.getEdgeById(id));
+        expect(graph.getEdge(0, 1)!.weight).toBe(3);
+        expect(graph.adjacencyList.get(0)).toEqual([{ node: 1, weight: 3 }]);
+        expect(graph.adjacencyList.get(1)).toEqual([{ node: 0, weight: 3 }, { node: 2, weight: 2 }]);
+
+        graph.removeEdge(id);
+        expect(graph.getEdge(1, 0)).toBeUndefined();
+        expect(graph.adjacencyList.get(0)).toEqual([]);
+        expect(graph.adjacencyList.get(1)).toEqual([{ node: 2, weight: 2 }]);
+    });
+
+    it('give parallel edges their own ids', () => {
+        const graph = build(2, [[0, 1, 5], [0, 1, 2], [1, 0, 7]], true, true);
+        const [a, b, c] = graph.edges.map(e => e.id);
+
+        expect(new Set([a, b, c]).size).toBe(3);
+        expect(graph.edgesBetween(0, 1).map(e => e.id)).toEqual([a, b]);
+        graph.updateEdgeWeight(b, 1);
+        expect(graph.adjacencyList.get(0)).toEqual([{ node: 1, weight: 5 }, { node: 1, weight: 1 }]);
+
+        const copy = graph.clone();
+        copy.removeEdge(a);
+        expect(copy.adjacencyList.get(0)).toEqual([{ node: 1, weight: 1 }]);
+        expect(graph.adjacencyList.get(0)).toHaveLength(2);
+        expect(copy.getEdge(0, 1)!.id).toBe(b);
+        expect(copy.getEdgeById(c)!.weight).toBe(7);
+    });
+
+    it('convert between kinds keeping node ids', () => {
+        const graph = build(4, [[0, 1, 5], [1, 0, 2], [2, 3, 1]], true);
+        graph.removeNode(3);
+
+        const undirected = graph.withOptions({ directed: false });
+        expect(undirected.nodes.map(n => n.id)).toEqual([0, 1, 2]);
+        expect(undirected.edges.map(e => [e.from, e.to, e.weight])).toEqual([[0, 1, 2]]);
+
+        const multi = graph.withOptions({ directed: false, multigraph: true });
+        expect(multi.edgesBetween(1, 0).map(e => e.weight)).toEqual([5, 2]);
+        expect(multi.withOptions({ directed: true }).adjacencyList.get(0)).toEqual([{ node: 1, weight: 5 }]);
+    });
+
+    it('every algorithm treats an undirected edge as two arcs', () => {
+        for (let seed = 1; seed <= 25; seed++) {
+            const { nodeCount, edges, source } = generateCase('random', seed);
+            const undirected = build(nodeCount, edges, false).toGraph();
+            const symmetric = build(nodeCount, edges.flatMap(([u, v, w]): Array<[number, number, number]> => [[u, v, w], [v, u, w]]), true).toGraph();
+            const expected = dijkstra(symmetric, source).distances;
+
+            for (const algorithm of ALGORITHMS) {
+                const result = algorithm.run(undirected, source);
+                const context = `${algorithm.id} seed ${seed}`;
+                expect(result.distances, context).toEqual(expected);
+                expect(validateShortestPathTree(undirected, source, result.distances, result.predecessors), context).toEqual([]);
+            }
+            expect(diffMatrices(johnson(undirected), floydWarshall(symmetric)), `johnson seed ${seed}`).toEqual(new Set());
+        }
+    });
+
+    it('every algorithm takes the lightest of parallel edges', () => {
+        for (let seed = 1; seed <= 25; seed++) {
+            const rng = createRng(seed);
+            const { nodeCount, edges, source } = generateCase('random', seed);
+            const extra = edges.map(([u, v, w]): [number, number, number] => [u, v, Math.max(1, w + Math.floor(rng() * 11) - 5)]);
+            const directed = seed % 2 === 0;
+            const multi = build(nodeCount, [...edges, ...extra], directed, true).toGraph();
+
+            // One directed arc per node pair, with the smallest weight of any arc between them
+            const minimum = new Map<string, [number, number, number]>();
+            for (const { from, to, weight } of graphArcs(multi)) {
+                const current = minimum.get(`${from}-${to}`);
+                if (!current || weight < current[2]) minimum.set(`${from}-${to}`, [from, to, weight]);
+            }
+            const lightest = build(nodeCount, [...minimum.values()], true).toGraph();
+            const expected = dijkstra(lightest, source).distances;
+
+            for (const algorithm of ALGORITHMS) {
+                const context = `${algorithm.id} seed ${seed}`;
+                expect(algorithm.run(multi, source).distances, context).toEqual(expected);
+            }
+            expect(diffMatrices(runFromEverySource(multi, ALGORITHMS[0]), floydWarshall(lightest))).toEqual(new Set());
+        }
+    });
+
+    it('rejects negative undirected edges as negative cycles', () => {
+        const graph = build(3, [[0, 1, 2], [1, 2, -1]], false).toGraph();
+        const bellmanFord = ALGORITHMS.find(a => a.id === 'bellman-ford')!;
+        expect(bellmanFord.run(graph, 0).negativeCycle).toBeDefined();
+    });
+
+    it('survive export and import', () => {
+        const graph = build(3, [[0, 1, 4], [0, 1, 6], [2, 1, 1]], false, true);
+
+        const json = parseGraphJson(toGraphJson(graph));
+        expect([json.directed, json.multigraph]).toEqual([false, true]);
+        expect(json.edges.map(e => [e.from, e.to, e.weight])).toEqual([[0, 1, 4], [0, 1, 6], [2, 1, 1]]);
+
+        const { nodes, edges, kind } = encodeCompactGraph(graph);
+        expect(kind).toBe('um');
+        const decoded = decodeCompactGraph(nodes, edges, kind);
+        expect(decoded.toGraph().adjacencyList).toEqual(graph.toGraph().adjacencyList);
+
+        expect(toDimacs(graph).split('\n').filter(line => line.startsWith('a'))).toHaveLength(6);
+        expect(encodeCompactGraph(build(2, [[0, 1, 1]], true)).kind).toBe('');
+    });
+});
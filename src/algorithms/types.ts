@@ -1,3 +1,5 @@
+import type { AlgorithmType } from './AlgorithmRegistry';
+
 // Core type definitions for the SSSP visualization application
 
 export interface Node {
@@ -8,6 +10,7 @@ export interface Node {
 }
 
 export interface Edge {
+    id: number; // distinguishes parallel edges
     from: number;
     to: number;
     weight: number;
@@ -15,10 +18,22 @@ export interface Edge {
 
 export interface Graph {
     nodes: Node[];
-    edges: Edge[];
-    adjacencyList: Map<number, Array<{ node: number; weight: number }>>;
+    edges: Edge[]; // undirected edges are listed once...
+    adjacencyList: Map<number, Array<{ node: number; weight: number }>>; // ...but have an arc each way
+    directed: boolean;
 }
 
+/**
+ * A single user edit applied to the graph from the canvas
+ */
+export type GraphEdit =
+    | { type: 'add_node'; x: number; y: number }
+    | { type: 'move_node'; id: number; x: number; y: number }
+    | { type: 'remove_node'; id: number }
+    | { type: 'add_edge'; from: number; to: number; weight: number }
+    | { type: 'update_edge_weight'; id: number; weight: number }
+    | { type: 'remove_edge'; id: number };
+
 export enum NodeState {
     UNVISITED = 'unvisited',
     VISITED = 'visited',
@@ -26,6 +41,9 @@ export enum NodeState {
     COMPLETE = 'complete',
     PIVOT = 'pivot',
     PATH = 'path',
+    FORWARD = 'forward', // settled by a search from the source
+    BACKWARD = 'backward', // settled by a search from the destination
+    MEETING = 'meeting', // where forward and backward searches join
 }
 
 export interface VisualizationState {
@@ -35,23 +53,50 @@ export interface VisualizationState {
     activeEdges: Set<string>; // "from-to" format
     pivots: Set<number>;
     frontier: Set<number>;
+    workingSet: Set<number>; // W from FindPivots: vertices reached by the k relaxation rounds
 }
 
 export interface AlgorithmStep {
     stepNumber: number;
     description: string;
     currentNode: number | null;
-    action: 'initialize' | 'visit' | 'relax' | 'complete' | 'find_pivots' | 'bmssp_call' | 'frontier_pull' | 'done';
-    visualState: VisualizationState;
+    action:
+        | 'initialize'
+        | 'visit'
+        | 'relax'
+        | 'complete'
+        | 'find_pivots'
+        | 'bmssp_call'
+        | 'frontier_pull'
+        | 'round'
+        | 'negative_cycle'
+        | 'meet'
+        | 'done';
     details?: {
         distanceUpdates?: Array<{ node: number; oldDist: number; newDist: number }>;
         edgeRelaxed?: { from: number; to: number };
         pivotsFound?: number[];
         frontierSize?: number;
+        bound?: number; // BMSSP upper bound B (Bi for a frontier pull)
         recursionLevel?: number;
         k?: number;
         t?: number;
+        round?: number; // Bellman-Ford pass over all edges
+        cycle?: number[]; // negative cycle, in edge order
+        direction?: 'forward' | 'backward'; // bidirectional search side
     };
+    // Filled in by StepRecorder: nodes settled and operations so far, including unrecorded steps.
+    // Settled counts visit steps, or for label-correcting algorithms the nodes already at their final distance
+    progress?: { settled: number; operations: number };
+}
+
+/**
+ * Visualization states for a run, one per recorded step.
+ * States are reconstructed on demand rather than stored per step.
+ */
+export interface VisualizationTrace {
+    readonly length: number;
+    getState(index: number): VisualizationState;
 }
 
 export interface AlgorithmResult {
@@ -59,7 +104,29 @@ export interface AlgorithmResult {
     predecessors: Map<number, number>;
     shortestPath: number[];
     steps: AlgorithmStep[];
+    trace: VisualizationTrace; // trace.getState(i) is the state at steps[i]
     statistics: AlgorithmStatistics;
+    // Set when a negative cycle is reachable from the source; distances are then undefined
+    negativeCycle?: number[];
+    // BMSSP(l, B, S) calls made by New SSSP and BMSSP, rooted at the top-level call
+    callTree?: RecursionFrame;
+}
+
+/**
+ * One BMSSP(l, B, S) call. Steps recorded while it ran are the indices
+ * [firstStep, endStep) of the result's steps, including its children's.
+ */
+export interface RecursionFrame {
+    id: number;
+    level: number; // l
+    bound: number; // B
+    returnedBound?: number; // B', set once the call returns
+    frontierSize: number; // |S|
+    completedCount?: number; // |U|, set once the call returns
+    pivots: number[]; // from FindPivots; empty for base cases
+    children: RecursionFrame[];
+    firstStep: number;
+    endStep: number;
 }
 
 export interface AlgorithmStatistics {
@@ -75,9 +142,67 @@ export interface AlgorithmStatistics {
     levels?: number;
     pivotsCount?: number;
     frontierReductions?: number;
+    // Faithful BMSSP specific
+    transformedNodes?: number; // vertex count after the constant-degree transformation
+    // Bellman-Ford / SPFA specific
+    rounds?: number; // passes over the edge list
+    enqueues?: number; // queue insertions
+    // A* specific
+    heuristicScale?: number; // largest factor keeping the distance heuristic admissible
+    // Dijkstra priority queue breakdown
+    priorityQueue?: string; // display name of the queue used
+    queueInserts?: number;
+    queueExtracts?: number;
+    queueDecreaseKeys?: number;
+    queueWork?: number; // comparisons, links and bucket moves inside the queue
 }
 
-export type AlgorithmType = 'dijkstra' | 'new-sssp';
+// Id of an algorithm listed in AlgorithmRegistry.ts
+export type { AlgorithmType };
+
+/**
+ * Everything the UI, benchmark and tests need to know about an algorithm.
+ * Each algorithm module exports one of these with its literal id;
+ * AlgorithmRegistry lists them and derives AlgorithmType from the ids.
+ */
+export interface AlgorithmDefinition<Id extends string = AlgorithmType> {
+    id: Id;
+    name: string;
+    shortName: string; // used on run buttons
+    complexity: string;
+    accentClass: string; // Tailwind text color for its comparison column
+    highlights: string[]; // short bullet points for the About section
+    supportsNegativeWeights?: boolean; // others throw a NegativeWeightError on negative edges
+    pointToPoint?: boolean; // stops at the destination, so only its distance and path are final
+    explanations: Partial<Record<AlgorithmStep['action'], string>>;
+    parameters?: (stats: AlgorithmStatistics) => Array<{ label: string; value: string | number | undefined }>;
+    run(graph: Graph, source: number, destination?: number, options?: RunOptions): AlgorithmResult;
+}
+
+/**
+ * Which steps a run records for visualization
+ * - all: every step (default)
+ * - sampled: every sampleInterval-th step, plus the first and last and any negative cycle
+ * - milestones: initialize, find_pivots, bmssp_call, frontier_pull, round, negative_cycle, meet and done,
+ *   plus every sampleInterval-th visit
+ * - none: no steps, only the final result and statistics
+ *
+ * Statistics and final distances are identical in every mode.
+ */
+export type StepRecording = 'all' | 'sampled' | 'milestones' | 'none';
+
+/**
+ * Priority queue behind a Dijkstra run; radix and dial need integer weights
+ */
+export type PriorityQueueType = 'binary' | 'lazy-binary' | 'd-ary' | 'pairing' | 'fibonacci' | 'radix' | 'dial';
+
+export interface RunOptions {
+    recording?: StepRecording;
+    sampleInterval?: number; // for 'sampled' and 'milestones', default 10
+    priorityQueue?: PriorityQueueType; // Dijkstra only, default 'binary'
+    heapArity?: number; // for 'd-ary', default 4
+    checkHeapInvariants?: boolean; // for 'binary' and 'lazy-binary': check the heap after every operation
+}
 
 export interface AnimationConfig {
     speed: number; // milliseconds per step
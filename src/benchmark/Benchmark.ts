@@ -0,0 +1,245 @@
+import { Graph, AlgorithmResult, AlgorithmType } from '../algorithms/types';
+import { ALGORITHMS, getAlgorithm } from '../algorithms/AlgorithmRegistry';
+import { createRng, Rng } from '../algorithms/Random';
+
+/**
+ * Headless benchmark runner
+ *
+ * Sweeps graph size and average out-degree across generator families and
+ * times each algorithm with step recording off, so the numbers measure the
+ * algorithms rather than building visualization snapshots. Each result row
+ * carries the two complexity models (m + n log n and m log^(2/3) n) so
+ * empirical growth can be plotted against them.
+ */
+
+export type BenchmarkFamily = 'random' | 'grid' | 'dag';
+export const BENCHMARK_FAMILIES: BenchmarkFamily[] = ['random', 'grid', 'dag'];
+export type BenchmarkAlgorithm = AlgorithmType;
+
+export interface BenchmarkConfig {
+    families: BenchmarkFamily[];
+    sizes: number[]; // node counts
+    degrees: number[]; // average out-degree, m ≈ degree * n (ignored for grids)
+    algorithms: BenchmarkAlgorithm[];
+    warmup: number; // untimed runs per graph
+    trials: number; // timed runs per graph
+    seed: number;
+    maxWeight: number;
+}
+
+export interface BenchmarkRow {
+    family: BenchmarkFamily;
+    algorithm: BenchmarkAlgorithm;
+    n: number;
+    m: number;
+    trials: number;
+    medianMs: number;
+    p95Ms: number;
+    meanMs: number;
+    operations: number;
+    relaxations: number;
+    nodesProcessed: number;
+    mPlusNLogN: number;
+    mLogTwoThirdsN: number;
+}
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+    families: BENCHMARK_FAMILIES,
+    sizes: [250, 500, 1000, 2000],
+    degrees: [2, 4, 8],
+    algorithms: ALGORITHMS.map(a => a.id),
+    warmup: 2,
+    trials: 5,
+    seed: 1,
+    maxWeight: 100,
+};
+
+/**
+ * Build a benchmark graph directly as a Graph, without the node and edge
+ * indexes GraphClass keeps for editing. Headless Dijkstra and New SSSP
+ * convert it to CSR form once.
+ */
+export function generateBenchmarkGraph(
+    family: BenchmarkFamily,
+    n: number,
+    degree: number,
+    seed: number,
+    maxWeight: number = 100
+): Graph {
+    const rng = createRng(seed);
+    const weight = () => 1 + Math.floor(rng() * maxWeight);
+    const arcs: Array<[number, number, number]> = [];
+
+    switch (family) {
+        case 'random': {
+            const target = Math.min(Math.round(degree * n), n * (n - 1));
+            const seen = new Set<number>();
+            while (arcs.length < target) {
+                const from = Math.floor(rng() * n);
+                const to = Math.floor(rng() * n);
+                if (from === to || seen.has(from * n + to)) continue;
+                seen.add(from * n + to);
+                arcs.push([from, to, weight()]);
+            }
+            break;
+        }
+        case 'grid': {
+            // Square-ish grid with arcs in both directions between neighbours
+            const cols = Math.max(1, Math.round(Math.sqrt(n)));
+            for (let v = 0; v < n; v++) {
+                const right = v + 1;
+                const down = v + cols;
+                if (right < n && right % cols !== 0) {
+                    arcs.push([v, right, weight()], [right, v, weight()]);
+                }
+                if (down < n) {
+                    arcs.push([v, down, weight()], [down, v, weight()]);
+                }
+            }
+            break;
+        }
+        case 'dag': {
+            // Arcs only go forward in a random topological order; node 0 comes first
+            const order = shuffledOrder(n, rng);
+            const target = Math.min(Math.round(degree * n), (n * (n - 1)) / 2);
+            const seen = new Set<number>();
+            while (arcs.length < target) {
+                const i = Math.floor(rng() * n);
+                const j = Math.floor(rng() * n);
+                if (i === j) continue;
+                const [a, b] = i < j ? [order[i], order[j]] : [order[j], order[i]];
+                if (seen.has(a * n + b)) continue;
+                seen.add(a * n + b);
+                arcs.push([a, b, weight()]);
+            }
+            break;
+        }
+    }
+
+    const nodes = Array.from({ length: n }, (_, id) => ({ id, x: 0, y: 0 }));
+    const adjacencyList = new Map<number, Array<{ node: number; weight: number }>>();
+    for (let v = 0; v < n; v++) adjacencyList.set(v, []);
+    for (const [from, to, w] of arcs) {
+        adjacencyList.get(from)!.push({ node: to, weight: w });
+    }
+
+    return {
+        nodes,
+        edges: arcs.map(([from, to, w], id) => ({ id, from, to, weight: w })),
+        adjacencyList,
+        directed: true,
+    };
+}
+
+function shuffledOrder(n: number, rng: Rng): number[] {
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 1; i--) {
+        const j = 1 + Math.floor(rng() * i);
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+}
+
+function runOnce(algorithm: BenchmarkAlgorithm, graph: Graph, source: number): AlgorithmResult {
+    const definition = getAlgorithm(algorithm);
+    if (!definition) throw new Error(`Unknown algorithm "${algorithm}"`);
+    return definition.run(graph, source, undefined, { recording: 'none' });
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+}
+
+/**
+ * Time one algorithm on one graph: warm-up runs, then timed trials
+ */
+export function benchmarkGraph(
+    algorithm: BenchmarkAlgorithm,
+    graph: Graph,
+    family: BenchmarkFamily,
+    warmup: number,
+    trials: number
+): BenchmarkRow {
+    for (let i = 0; i < warmup; i++) {
+        runOnce(algorithm, graph, 0);
+    }
+
+    const times: number[] = [];
+    let last: AlgorithmResult | null = null;
+    for (let i = 0; i < trials; i++) {
+        const start = performance.now();
+        last = runOnce(algorithm, graph, 0);
+        times.push(performance.now() - start);
+    }
+    times.sort((a, b) => a - b);
+
+    const n = graph.nodes.length;
+    const m = graph.edges.length;
+    const log2n = Math.log2(Math.max(n, 2));
+
+    return {
+        family,
+        algorithm,
+        n,
+        m,
+        trials,
+        medianMs: percentile(times, 0.5),
+        p95Ms: percentile(times, 0.95),
+        meanMs: times.reduce((sum, t) => sum + t, 0) / times.length,
+        operations: last!.statistics.operations,
+        relaxations: last!.statistics.relaxations,
+        nodesProcessed: last!.statistics.nodesProcessed,
+        mPlusNLogN: m + n * log2n,
+        mLogTwoThirdsN: m * Math.pow(log2n, 2 / 3),
+    };
+}
+
+/**
+ * Run the full sweep. onRow is called as each measurement finishes.
+ */
+export function runBenchmark(
+    config: Partial<BenchmarkConfig> = {},
+    onRow?: (row: BenchmarkRow) => void
+): BenchmarkRow[] {
+    const cfg = { ...DEFAULT_BENCHMARK_CONFIG, ...config };
+    const rows: BenchmarkRow[] = [];
+
+    for (const family of cfg.families) {
+        // Grid edge count is fixed by n, so a single degree is enough
+        const degrees = family === 'grid' ? cfg.degrees.slice(0, 1) : cfg.degrees;
+
+        for (const n of cfg.sizes) {
+            for (const degree of degrees) {
+                const graph = generateBenchmarkGraph(family, n, degree, cfg.seed + n, cfg.maxWeight);
+                for (const algorithm of cfg.algorithms) {
+                    const row = benchmarkGraph(algorithm, graph, family, cfg.warmup, cfg.trials);
+                    rows.push(row);
+                    onRow?.(row);
+                }
+            }
+        }
+    }
+
+    return rows;
+}
+
+const CSV_COLUMNS: Array<keyof BenchmarkRow> = [
+    'family', 'algorithm', 'n', 'm', 'trials', 'medianMs', 'p95Ms', 'meanMs',
+    'operations', 'relaxations', 'nodesProcessed', 'mPlusNLogN', 'mLogTwoThirdsN',
+];
+
+export function toCSV(rows: BenchmarkRow[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of rows) {
+        lines.push(CSV_COLUMNS.map(c => {
+            const value = row[c];
+            return typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(4) : String(value);
+        }).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function toJSON(rows: BenchmarkRow[], config: Partial<BenchmarkConfig> = {}): string {
+    return JSON.stringify({ config: { ...DEFAULT_BENCHMARK_CONFIG, ...config }, rows }, null, 2);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { UsageError, parseBenchmarkArgs } from '../args';
+
+describe('benchmark arguments', () => {
+    it('parse every option', () => {
+        const { config, out } = parseBenchmarkArgs([
+            '--families=grid, dag',
+            '--algorithms=dijkstra,new-sssp',
+            '--sizes=100,250.4',
+            '--degrees=1.5,4',
+            '--trials=3',
+            '--warmup=0',
+            '--seed=42',
+            '--out=results/run',
+        ]);
+
+        expect(config).toEqual({
+            families: ['grid', 'dag'],
+            algorithms: ['dijkstra', 'new-sssp'],
+            sizes: [100, 250],
+            degrees: [1.5, 4],
+            trials: 3,
+            warmup: 0,
+            seed: 42,
+        });
+        expect(out).toBe('results/run');
+    });
+
+    it('leave unset options to the defaults', () => {
+        expect(parseBenchmarkArgs([])).toEqual({ config: {}, out: 'benchmark-results' });
+    });
+
+    it.each([
+        ['--families=random,tree', /unknown family "tree"/],
+        ['--algorithms=dijkstra,dijkstar', /unknown algorithm "dijkstar"/],
+        ['--algorithms=', /at least one value/],
+        ['--sizes=100,-5', /"-5" is not a positive number/],
+        ['--trials=0', /--trials: "0" is not an integer of at least 1/],
+        ['--trials=2.5', /not an integer/],
+        ['--trials=', /not an integer/],
+        ['--warmup=-1', /--warmup/],
+        ['--seed=abc', /--seed/],
+        ['--out=', /--out/],
+        ['--verbose=1', /Unknown option --verbose/],
+        ['trials=3', /Unrecognized argument/],
+    ])('reject %s', (arg, message) => {
+        expect(() => parseBenchmarkArgs([arg])).toThrow(UsageError);
+        expect(() => parseBenchmarkArgs([arg])).toThrow(message);
+    });
+});
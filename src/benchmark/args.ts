@@ -0,0 +1,87 @@
+import { BenchmarkConfig, BenchmarkFamily, BENCHMARK_FAMILIES } from './Benchmark';
+import { ALGORITHMS, isAlgorithmType } from '../algorithms/AlgorithmRegistry';
+
+export const USAGE = `Usage: npm run bench -- [options]
+
+  --families=${BENCHMARK_FAMILIES.join(',')}
+  --algorithms=${ALGORITHMS.map(a => a.id).join(',')}
+  --sizes=250,500,1000   --degrees=2,4,8
+  --trials=5   --warmup=2   --seed=1
+  --out=benchmark-results      (writes <out>.json and <out>.csv)`;
+
+/**
+ * Bad command line; the CLI prints the message with USAGE and exits
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export function parseBenchmarkArgs(argv: string[]): { config: Partial<BenchmarkConfig>; out: string } {
+    const config: Partial<BenchmarkConfig> = {};
+    let out = 'benchmark-results';
+
+    const list = (key: string, value: string) => {
+        const items = value.split(',').map(v => v.trim()).filter(v => v !== '');
+        if (items.length === 0) throw new UsageError(`--${key}: expected at least one value`);
+        return items;
+    };
+    const numbers = (key: string, value: string) => list(key, value).map(v => {
+        const n = Number(v);
+        if (!Number.isFinite(n) || n <= 0) throw new UsageError(`--${key}: "${v}" is not a positive number`);
+        return n;
+    });
+    const integer = (key: string, value: string, min: number) => {
+        const n = Number(value);
+        if (value.trim() === '' || !Number.isInteger(n) || n < min) {
+            throw new UsageError(`--${key}: "${value}" is not an integer of at least ${min}`);
+        }
+        return n;
+    };
+
+    for (const arg of argv) {
+        const match = /^--([a-z]+)=(.*)$/.exec(arg);
+        if (!match) throw new UsageError(`Unrecognized argument "${arg}"`);
+        const [, key, value] = match;
+
+        switch (key) {
+            case 'families':
+                config.families = list(key, value).map(family => {
+                    if (!BENCHMARK_FAMILIES.includes(family as BenchmarkFamily)) {
+                        throw new UsageError(`--families: unknown family "${family}"`);
+                    }
+                    return family as BenchmarkFamily;
+                });
+                break;
+            case 'algorithms':
+                config.algorithms = list(key, value).map(id => {
+                    if (!isAlgorithmType(id)) throw new UsageError(`--algorithms: unknown algorithm "${id}"`);
+                    return id;
+                });
+                break;
+            case 'sizes':
+                config.sizes = numbers(key, value).map(Math.round);
+                break;
+            case 'degrees':
+                config.degrees = numbers(key, value);
+                break;
+            case 'trials':
+                config.trials = integer(key, value, 1);
+                break;
+            case 'warmup':
+            case 'seed':
+                config[key] = integer(key, value, 0);
+                break;
+            case 'out':
+                if (value === '') throw new UsageError('--out: expected a file name prefix');
+                out = value;
+                break;
+            default:
+                throw new UsageError(`Unknown option --${key}`);
+        }
+    }
+
+    return { config, out };
+}
@@ -0,0 +1,39 @@
+import { writeFileSync } from 'node:fs';
+import { DEFAULT_BENCHMARK_CONFIG, runBenchmark, toCSV, toJSON } from './Benchmark';
+import { USAGE, UsageError, parseBenchmarkArgs } from './args';
+
+/**
+ * Command line entry point: npm run bench -- [options]; see USAGE in args.ts
+ */
+
+function main() {
+    let parsed: ReturnType<typeof parseBenchmarkArgs>;
+    try {
+        parsed = parseBenchmarkArgs(process.argv.slice(2));
+    } catch (err) {
+        if (!(err instanceof UsageError)) throw err;
+        console.error(`${err.message}\n\n${USAGE}`);
+        process.exit(2);
+    }
+    const { config, out } = parsed;
+    const cfg = { ...DEFAULT_BENCHMARK_CONFIG, ...config };
+
+    console.log(
+        `Benchmarking ${cfg.algorithms.join(', ')} on ${cfg.families.join(', ')} ` +
+        `(n = ${cfg.sizes.join(', ')}; degree = ${cfg.degrees.join(', ')}; ${cfg.warmup} warm-up + ${cfg.trials} trials)`
+    );
+
+    const rows = runBenchmark(config, row => {
+        console.log(
+            `${row.family.padEnd(7)} ${row.algorithm.padEnd(9)} n=${String(row.n).padStart(7)} m=${String(row.m).padStart(8)}  ` +
+            `median ${row.medianMs.toFixed(2).padStart(9)} ms  p95 ${row.p95Ms.toFixed(2).padStart(9)} ms  ` +
+            `ops ${row.operations}  relax ${row.relaxations}`
+        );
+    });
+
+    writeFileSync(`${out}.json`, toJSON(rows, config));
+    writeFileSync(`${out}.csv`, toCSV(rows));
+    console.log(`Wrote ${out}.json and ${out}.csv`);
+}
+
+main();
@@ -0,0 +1,178 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AlgorithmDefinition, AlgorithmType, Graph } from '../algorithms/types';
+import { UnsupportedGraphError } from '../algorithms/Graph';
+import {
+    ALL_PAIRS_REFERENCES,
+    AllPairsReference,
+    DistanceMatrix,
+    computeReference,
+    diffMatrices,
+    runFromEverySource,
+} from '../algorithms/AllPairs';
+
+interface AllPairsPanelProps {
+    graph: Graph;
+    algorithms: AlgorithmDefinition[];
+    initialMethod: AlgorithmType;
+    source: number;
+    destination: number;
+    // Load a cell into the step-by-step view; method is the matrix's algorithm or reference
+    onSelectPair: (method: string, source: number, destination: number) => void;
+}
+
+// Every source runs once per matrix, and the table has n² cells
+const MAX_MATRIX_NODES = 100;
+
+const formatDistance = (d: number) => (d === Infinity ? '∞' : Number.isInteger(d) ? d.toString() : d.toFixed(1));
+
+/**
+ * n×n distance matrix from one algorithm run from every node, compared
+ * against a second method. Differing cells are highlighted in red.
+ */
+export default function AllPairsPanel({ graph, algorithms, initialMethod, source, destination, onSelectPair }: AllPairsPanelProps) {
+    const [method, setMethod] = useState<string>(initialMethod);
+    const [reference, setReference] = useState<string>('floyd-warshall');
+    const [matrices, setMatrices] = useState<{ matrix: DistanceMatrix; reference: DistanceMatrix } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Distances belong to the graph they were computed on
+    useEffect(() => {
+        setMatrices(null);
+        setError(null);
+    }, [graph]);
+
+    const methods = [
+        ...algorithms.map(a => ({ id: a.id as string, name: `${a.shortName} from every node` })),
+        ...ALL_PAIRS_REFERENCES.map(r => ({ id: r.id as string, name: `${r.name} (${r.complexity})` })),
+    ];
+    const nameOf = (id: string) => methods.find(m => m.id === id)?.name ?? id;
+
+    const compute = (id: string): DistanceMatrix => {
+        const algorithm = algorithms.find(a => a.id === id);
+        return algorithm ? runFromEverySource(graph, algorithm) : computeReference(graph, id as AllPairsReference);
+    };
+
+    const handleCompute = () => {
+        try {
+            setMatrices({ matrix: compute(method), reference: compute(reference) });
+            setError(null);
+        } catch (err) {
+            if (!(err instanceof UnsupportedGraphError)) throw err;
+            setMatrices(null);
+            setError(err.message);
+        }
+    };
+
+    const differing = useMemo(
+        () => (matrices ? diffMatrices(matrices.matrix, matrices.reference) : new Set<string>()),
+        [matrices]
+    );
+
+    const tooLarge = graph.nodes.length > MAX_MATRIX_NODES;
+    const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                    <span>Matrix:</span>
+                    <select value={method} onChange={(e) => setMethod(e.target.value)} className={selectClass}>
+                        {methods.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                    <span>Compare with:</span>
+                    <select value={reference} onChange={(e) => setReference(e.target.value)} className={selectClass}>
+                        {methods.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={handleCompute}
+                    className="btn btn-primary"
+                    disabled={tooLarge || graph.nodes.length === 0}
+                    title={tooLarge ? `All-pairs mode is limited to ${MAX_MATRIX_NODES} nodes` : 'Compute both distance matrices'}
+                >
+                    Compute
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-red-800 dark:border-red-700 dark:bg-red-950 dark:text-red-200 text-sm">
+                    ⛔ {error}
+                </div>
+            )}
+
+            {matrices && (
+                <>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                        <span className="stat-badge bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                            {matrices.matrix.nodes.length}×{matrices.matrix.nodes.length}
+                        </span>
+                        <span className="stat-badge bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                            {nameOf(method)}: {matrices.matrix.executionTime.toFixed(1)} ms
+                        </span>
+                        <span className="stat-badge bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                            {nameOf(reference)}: {matrices.reference.executionTime.toFixed(1)} ms
+                        </span>
+                        <span className={`stat-badge ${differing.size > 0
+                            ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200'
+                            : 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200'
+                            }`}>
+                            {differing.size > 0 ? `${differing.size} cells differ` : 'All cells match'}
+                        </span>
+                    </div>
+
+                    <div className="max-h-[480px] overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                        <table className="text-[11px] font-mono border-collapse">
+                            <thead>
+                                <tr>
+                                    <th className="sticky top-0 left-0 z-20 bg-gray-100 dark:bg-gray-800 px-1 text-gray-500">s \ t</th>
+                                    {matrices.matrix.nodes.map(id => (
+                                        <th key={id} className={`sticky top-0 z-10 bg-gray-100 dark:bg-gray-800 px-1 ${id === destination ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                                            {id}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {matrices.matrix.distances.map((row, i) => {
+                                    const rowId = matrices.matrix.nodes[i];
+                                    return (
+                                        <tr key={rowId}>
+                                            <th className={`sticky left-0 z-10 bg-gray-100 dark:bg-gray-800 px-1 ${rowId === source ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                                                {rowId}
+                                            </th>
+                                            {row.map((d, j) => {
+                                                const colId = matrices.matrix.nodes[j];
+                                                const differs = differing.has(`${i}-${j}`);
+                                                const selected = rowId === source && colId === destination;
+                                                return (
+                                                    <td
+                                                        key={colId}
+                                                        onClick={() => onSelectPair(method, rowId, colId)}
+                                                        className={`px-1 text-right cursor-pointer border border-gray-100 dark:border-gray-800 hover:bg-blue-100 dark:hover:bg-blue-900 ${differs
+                                                            ? 'bg-red-200 text-red-900 dark:bg-red-800 dark:text-red-100'
+                                                            : 'text-gray-800 dark:text-gray-200'
+                                                            } ${selected ? 'outline outline-2 outline-blue-500' : ''}`}
+                                                        title={differs
+                                                            ? `${rowId} → ${colId}: ${formatDistance(d)} vs ${formatDistance(matrices.reference.distances[i][j])} (${nameOf(reference)})`
+                                                            : `${rowId} → ${colId}: ${formatDistance(d)}`}
+                                                    >
+                                                        {formatDistance(d)}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Click a cell to step through that source and destination.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
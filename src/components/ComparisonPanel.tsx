@@ -1,11 +1,22 @@
-import { AlgorithmStatistics } from '../algorithms/types';
+import { AlgorithmDefinition, AlgorithmStatistics, AlgorithmType } from '../algorithms/types';
+import { VerificationReport } from '../algorithms/Verification';
 
 interface ComparisonPanelProps {
-    dijkstraStats: AlgorithmStatistics | null;
-    newSSSPStats: AlgorithmStatistics | null;
+    algorithms: AlgorithmDefinition[];
+    statistics: Partial<Record<AlgorithmType, AlgorithmStatistics>>;
+    verifications?: Partial<Record<AlgorithmType, VerificationReport>>;
+    referenceId: AlgorithmType;
 }
 
-export default function ComparisonPanel({ dijkstraStats, newSSSPStats }: ComparisonPanelProps) {
+export default function ComparisonPanel({ algorithms, statistics, verifications = {}, referenceId }: ComparisonPanelProps) {
+    // Only algorithms that have been run get a column
+    const ran = algorithms.filter(a => statistics[a.id]);
+    const reference = algorithms.find(a => a.id === referenceId);
+    const referenceStats = statistics[referenceId];
+
+    const row = (format: (stats: AlgorithmStatistics) => string) =>
+        ran.map(a => ({ id: a.id, accentClass: a.accentClass, text: format(statistics[a.id]!) }));
+
     return (
         <div className="card space-y-4">
             <h3 className="text-lg font-bold text-gray-900 dark:text-white">
@@ -14,108 +25,105 @@ export default function ComparisonPanel({ dijkstraStats, newSSSPStats }: Compari
 
             {/* Complexity formulas */}
             <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                    <h4 className="font-semibold text-blue-600 dark:text-blue-400">
-                        Dijkstra's Algorithm
-                    </h4>
-                    <div className="text-sm text-gray-600 dark:text-gray-400">
-                        <code className="bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
-                            O(m + n log n)
-                        </code>
-                    </div>
-                </div>
-
-                <div className="space-y-2">
-                    <h4 className="font-semibold text-purple-600 dark:text-purple-400">
-                        New SSSP Algorithm
-                    </h4>
-                    <div className="text-sm text-gray-600 dark:text-gray-400">
-                        <code className="bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
-                            O(m log^(2/3) n)
-                        </code>
+                {algorithms.map(algorithm => (
+                    <div key={algorithm.id} className="space-y-2">
+                        <h4 className={`font-semibold ${algorithm.accentClass}`}>
+                            {algorithm.name}
+                        </h4>
+                        <div className="text-sm text-gray-600 dark:text-gray-400">
+                            <code className="bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded">
+                                {algorithm.complexity}
+                            </code>
+                        </div>
                     </div>
-                </div>
+                ))}
             </div>
 
             {/* Statistics comparison */}
-            {(dijkstraStats || newSSSPStats) && (
+            {ran.length > 0 && (
                 <div className="space-y-3">
-                    <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
-                        <StatRow
-                            label="Execution Time"
-                            dijkstra={dijkstraStats?.executionTime.toFixed(2) + ' ms'}
-                            newSSSP={newSSSPStats?.executionTime.toFixed(2) + ' ms'}
-                        />
-                        <StatRow
-                            label="Total Operations"
-                            dijkstra={dijkstraStats?.operations.toString()}
-                            newSSSP={newSSSPStats?.operations.toString()}
-                        />
-                        <StatRow
-                            label="Edge Relaxations"
-                            dijkstra={dijkstraStats?.relaxations.toString()}
-                            newSSSP={newSSSPStats?.relaxations.toString()}
-                        />
-                        <StatRow
-                            label="Nodes Processed"
-                            dijkstra={dijkstraStats?.nodesProcessed.toString()}
-                            newSSSP={newSSSPStats?.nodesProcessed.toString()}
-                        />
+                    {/* One column per run; scrolls sideways when many algorithms have run */}
+                    <div className="border-t border-gray-200 dark:border-gray-700 pt-3 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    {ran.map(a => (
+                                        <th key={a.id} className={`px-2 pb-1 text-right font-semibold whitespace-nowrap ${a.accentClass}`}>
+                                            {a.shortName}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <StatRow label="Execution Time" values={row(s => s.executionTime.toFixed(2) + ' ms')} />
+                                <StatRow label="Total Operations" values={row(s => s.operations.toString())} />
+                                <StatRow label="Edge Relaxations" values={row(s => s.relaxations.toString())} />
+                                <StatRow label="Nodes Processed" values={row(s => s.nodesProcessed.toString())} />
+                            </tbody>
+                        </table>
                     </div>
 
-                    {/* New SSSP specific parameters */}
-                    {newSSSPStats && (
-                        <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+                    {/* Algorithm specific parameters */}
+                    {ran.filter(a => a.parameters).map(algorithm => (
+                        <div key={algorithm.id} className="border-t border-gray-200 dark:border-gray-700 pt-3">
                             <h4 className="font-semibold text-sm text-gray-700 dark:text-gray-300 mb-2">
-                                New SSSP Parameters
+                                {algorithm.name} Parameters
                             </h4>
                             <div className="grid grid-cols-2 gap-2 text-sm">
-                                <div>
-                                    <span className="text-gray-600 dark:text-gray-400">k:</span>{' '}
-                                    <span className="font-mono">{newSSSPStats.k}</span>
-                                </div>
-                                <div>
-                                    <span className="text-gray-600 dark:text-gray-400">t:</span>{' '}
-                                    <span className="font-mono">{newSSSPStats.t}</span>
-                                </div>
-                                <div>
-                                    <span className="text-gray-600 dark:text-gray-400">Levels:</span>{' '}
-                                    <span className="font-mono">{newSSSPStats.levels}</span>
-                                </div>
-                                <div>
-                                    <span className="text-gray-600 dark:text-gray-400">Pivots:</span>{' '}
-                                    <span className="font-mono">{newSSSPStats.pivotsCount}</span>
-                                </div>
+                                {algorithm.parameters!(statistics[algorithm.id]!).map(({ label, value }) => (
+                                    <div key={label}>
+                                        <span className="text-gray-600 dark:text-gray-400">{label}:</span>{' '}
+                                        <span className="font-mono">{value ?? '-'}</span>
+                                    </div>
+                                ))}
                             </div>
                         </div>
-                    )}
-
-                    {/* Speedup */}
-                    {dijkstraStats && newSSSPStats && (
-                        <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
-                            <div className="text-center">
-                                <div className="text-sm text-gray-600 dark:text-gray-400">
-                                    Speedup Factor
-                                </div>
-                                <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                                    {(dijkstraStats.executionTime / newSSSPStats.executionTime).toFixed(2)}x
-                                </div>
-                                {dijkstraStats.executionTime > newSSSPStats.executionTime ? (
-                                    <div className="text-xs text-green-600 dark:text-green-400">
-                                        New SSSP is faster! 🚀
+                    ))}
+
+                    {/* How much of the run went into the priority queue */}
+                    {ran.filter(a => statistics[a.id]!.queueWork !== undefined).map(algorithm => (
+                        <QueueShare key={algorithm.id} label={algorithm.name} stats={statistics[algorithm.id]!} />
+                    ))}
+
+                    {/* Correctness checks */}
+                    {ran.filter(a => verifications[a.id]).map(algorithm => (
+                        <VerificationSummary
+                            key={algorithm.id}
+                            label={algorithm.name}
+                            report={verifications[algorithm.id]!}
+                        />
+                    ))}
+
+                    {/* Speedup over the reference */}
+                    {reference && referenceStats && ran.filter(a => a.id !== referenceId).map(algorithm => {
+                        const stats = statistics[algorithm.id]!;
+                        return (
+                            <div key={algorithm.id} className="border-t border-gray-200 dark:border-gray-700 pt-3">
+                                <div className="text-center">
+                                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                                        Speedup Factor ({algorithm.name} vs {reference.name})
                                     </div>
-                                ) : (
-                                    <div className="text-xs text-gray-500">
-                                        (Graph size may be too small to show advantage)
+                                    <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                                        {(referenceStats.executionTime / stats.executionTime).toFixed(2)}x
                                     </div>
-                                )}
+                                    {referenceStats.executionTime > stats.executionTime ? (
+                                        <div className="text-xs text-green-600 dark:text-green-400">
+                                            {algorithm.name} is faster! 🚀
+                                        </div>
+                                    ) : (
+                                        <div className="text-xs text-gray-500">
+                                            (Graph size may be too small to show advantage)
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    )}
+                        );
+                    })}
                 </div>
             )}
 
-            {!(dijkstraStats || newSSSPStats) && (
+            {ran.length === 0 && (
                 <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
                     Run algorithms to see comparison statistics
                 </div>
@@ -126,24 +134,100 @@ export default function ComparisonPanel({ dijkstraStats, newSSSPStats }: Compari
 
 function StatRow({
     label,
-    dijkstra,
-    newSSSP,
+    values,
 }: {
     label: string;
-    dijkstra?: string;
-    newSSSP?: string;
+    values: Array<{ id: AlgorithmType; accentClass: string; text: string }>;
 }) {
     return (
-        <div className="flex justify-between items-center py-1 text-sm">
-            <span className="text-gray-600 dark:text-gray-400">{label}:</span>
-            <div className="flex space-x-4">
-                <span className="font-mono text-blue-600 dark:text-blue-400 w-20 text-right">
-                    {dijkstra || '-'}
-                </span>
-                <span className="font-mono text-purple-600 dark:text-purple-400 w-20 text-right">
-                    {newSSSP || '-'}
+        <tr>
+            <td className="py-1 pr-2 text-gray-600 dark:text-gray-400 whitespace-nowrap">{label}</td>
+            {values.map(({ id, accentClass, text }) => (
+                <td key={id} className={`py-1 px-2 font-mono text-right whitespace-nowrap ${accentClass}`}>
+                    {text}
+                </td>
+            ))}
+        </tr>
+    );
+}
+
+/**
+ * Queue work (comparisons, links, bucket moves) against the algorithm's own
+ * operations (node visits and edge scans)
+ */
+function QueueShare({ label, stats }: { label: string; stats: AlgorithmStatistics }) {
+    const work = stats.queueWork!;
+    const share = work + stats.operations > 0 ? work / (work + stats.operations) : 0;
+
+    return (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">
+                    {label}: {stats.priorityQueue} share of work
                 </span>
+                <span className="font-mono">{(share * 100).toFixed(1)}%</span>
+            </div>
+            <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${share * 100}%` }} />
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+                {work} queue steps vs {stats.operations} visits and edge scans
+            </div>
+        </div>
+    );
+}
+
+function VerificationSummary({ label, report }: { label: string; report: VerificationReport }) {
+    const format = (d: number) => (d === Infinity ? '∞' : Number.isInteger(d) ? d.toString() : d.toFixed(2));
+
+    if (report.ok) {
+        return (
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-3 text-sm text-green-600 dark:text-green-400">
+                ✓ {label}: {report.scope === 'tree'
+                    ? 'distances match Dijkstra and predecessors form a valid shortest-path tree'
+                    : 'distance to the destination matches Dijkstra along a valid path'}
             </div>
+        );
+    }
+
+    return (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-2">
+            <h4 className="font-semibold text-sm text-red-600 dark:text-red-400">
+                ✗ {label}: correctness check failed
+            </h4>
+            {report.mismatches.length > 0 && (
+                <div className="space-y-1">
+                    <div className="text-xs font-semibold text-gray-600 dark:text-gray-400">
+                        Distance mismatches ({report.mismatches.length}):
+                    </div>
+                    <div className="max-h-32 overflow-y-auto space-y-0.5">
+                        {report.mismatches.map(m => (
+                            <div key={m.node} className="text-sm font-mono flex justify-between">
+                                <span>Node {m.node}</span>
+                                <span>
+                                    <span className="text-blue-600 dark:text-blue-400">{format(m.expected)}</span>
+                                    {' vs '}
+                                    <span className="text-purple-600 dark:text-purple-400">{format(m.actual)}</span>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {report.predecessorIssues.length > 0 && (
+                <div className="space-y-1">
+                    <div className="text-xs font-semibold text-gray-600 dark:text-gray-400">
+                        {report.scope === 'tree' ? 'Invalid predecessors' : 'Invalid path'} ({report.predecessorIssues.length}):
+                    </div>
+                    <div className="max-h-32 overflow-y-auto space-y-0.5">
+                        {report.predecessorIssues.map((issue, idx) => (
+                            <div key={idx} className="text-xs">
+                                <span className="font-mono">Node {issue.node}:</span> {issue.reason}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
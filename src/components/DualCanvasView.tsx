@@ -0,0 +1,188 @@
+import { useState, useEffect, useMemo } from 'react';
+import GraphCanvas, { CanvasView, DEFAULT_VIEW, LayoutTransition } from './GraphCanvas';
+import { AlgorithmDefinition, AlgorithmResult, AlgorithmType, Graph, VisualizationState } from '../algorithms/types';
+import { TIMELINE_SYNCS, TimelineSync, syncTimeline } from '../algorithms/TimelineSync';
+
+interface DualCanvasViewProps {
+    graph: Graph;
+    algorithms: AlgorithmDefinition[];
+    results: Partial<Record<AlgorithmType, AlgorithmResult>>;
+    initialPair: [AlgorithmType, AlgorithmType];
+    speed: number;
+    flaggedNodes?: Set<number>;
+    layoutTransition?: LayoutTransition | null;
+}
+
+const CANVAS_WIDTH = 590;
+const CANVAS_HEIGHT = 460;
+
+const EMPTY_STATE: VisualizationState = {
+    nodeStates: new Map(),
+    distances: new Map(),
+    predecessors: new Map(),
+    activeEdges: new Set(),
+    pivots: new Set(),
+    frontier: new Set(),
+    workingSet: new Set(),
+};
+
+/**
+ * Two runs on the same layout, side by side, driven by one timeline.
+ * Zoom and pan are shared so both frontiers can be compared at a glance.
+ */
+export default function DualCanvasView({ graph, algorithms, results, initialPair, speed, flaggedNodes, layoutTransition }: DualCanvasViewProps) {
+    const available = algorithms.filter(a => results[a.id]);
+    const [pair, setPair] = useState<[AlgorithmType, AlgorithmType]>(initialPair);
+    const [sync, setSync] = useState<TimelineSync>('step');
+    const [tick, setTick] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [view, setView] = useState<CanvasView>(DEFAULT_VIEW);
+
+    // Fall back to any run result if a chosen algorithm has none
+    const sides = pair.map((id, i) =>
+        available.find(a => a.id === id) ?? available[Math.min(i, available.length - 1)]
+    );
+    const leftResult = results[sides[0].id]!;
+    const rightResult = results[sides[1].id]!;
+    const sideResults = [leftResult, rightResult];
+
+    const timeline = useMemo(() => syncTimeline([leftResult, rightResult], sync), [leftResult, rightResult, sync]);
+    const lastTick = Math.max(0, timeline.length - 1);
+    const current = Math.min(tick, lastTick);
+    const steps = timeline.length > 0 ? timeline.stepsAt(current) : sideResults.map(() => 0);
+
+    // Keep the relative position when the timeline is rebuilt
+    const changeSync = (next: TimelineSync) => {
+        const fraction = lastTick > 0 ? current / lastTick : 0;
+        const nextLength = syncTimeline(sideResults, next).length;
+        setSync(next);
+        setTick(Math.round(fraction * Math.max(0, nextLength - 1)));
+    };
+
+    useEffect(() => {
+        if (!isPlaying) return;
+
+        const interval = setInterval(() => {
+            setTick(prev => {
+                if (prev >= lastTick) {
+                    setIsPlaying(false);
+                    return prev;
+                }
+                return prev + 1;
+            });
+        }, speed);
+
+        return () => clearInterval(interval);
+    }, [isPlaying, speed, lastTick]);
+
+    const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm';
+
+    return (
+        <div className="space-y-4">
+            {/* Pair and sync selection */}
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                {sides.map((side, i) => (
+                    <label key={i} className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                        <span>{i === 0 ? 'Left:' : 'Right:'}</span>
+                        <select
+                            value={side.id}
+                            onChange={(e) => setPair(prev => (i === 0 ? [e.target.value as AlgorithmType, prev[1]] : [prev[0], e.target.value as AlgorithmType]))}
+                            className={selectClass}
+                        >
+                            {available.map(a => (
+                                <option key={a.id} value={a.id}>{a.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+                <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                    <span>Sync by:</span>
+                    <select
+                        value={sync}
+                        onChange={(e) => changeSync(e.target.value as TimelineSync)}
+                        className={selectClass}
+                        title="What the two runs are lined up on"
+                    >
+                        {TIMELINE_SYNCS.map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {/* Canvases */}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                {sides.map((side, i) => {
+                    const result = sideResults[i];
+                    const step = result.steps[steps[i]];
+                    const visualState = steps[i] < result.trace.length ? result.trace.getState(steps[i]) : EMPTY_STATE;
+                    return (
+                        <div key={i} className="space-y-2">
+                            <div className="flex justify-between items-baseline text-sm">
+                                <span className={`font-semibold ${side.accentClass}`}>{side.name}</span>
+                                <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                    step {result.steps.length > 0 ? steps[i] + 1 : 0}/{result.steps.length}
+                                    {' · '}settled {step?.progress?.settled ?? 0}
+                                    {' · '}ops {step?.progress?.operations ?? 0}
+                                </span>
+                            </div>
+                            <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                                <GraphCanvas
+                                    graph={graph}
+                                    visualState={visualState}
+                                    width={CANVAS_WIDTH}
+                                    height={CANVAS_HEIGHT}
+                                    flaggedNodes={flaggedNodes}
+                                    negativeCycle={result.negativeCycle}
+                                    view={view}
+                                    onViewChange={setView}
+                                    layoutTransition={layoutTransition}
+                                />
+                            </div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400 min-h-[2.5rem]">
+                                {step?.description ?? 'No steps recorded for this run'}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Shared timeline */}
+            <div className="flex items-center gap-3">
+                {isPlaying ? (
+                    <button onClick={() => setIsPlaying(false)} className="btn btn-warning">
+                        ⏸ Pause
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => setIsPlaying(true)}
+                        className="btn btn-success"
+                        disabled={current >= lastTick}
+                    >
+                        ▶ Play
+                    </button>
+                )}
+                <button onClick={() => setTick(Math.max(0, current - 1))} className="btn btn-secondary" disabled={current === 0}>
+                    ⏮
+                </button>
+                <button onClick={() => setTick(Math.min(lastTick, current + 1))} className="btn btn-secondary" disabled={current >= lastTick}>
+                    ⏭
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={lastTick}
+                    value={current}
+                    onChange={(e) => {
+                        setIsPlaying(false);
+                        setTick(Number(e.target.value));
+                    }}
+                    className="flex-1"
+                />
+                <span className="font-mono text-xs text-gray-600 dark:text-gray-400 w-36 text-right">
+                    {TIMELINE_SYNCS.find(option => option.id === sync)!.name}: {timeline.length > 0 ? timeline.value(current) : 0}
+                </span>
+            </div>
+        </div>
+    );
+}
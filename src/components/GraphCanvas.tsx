@@ -1,20 +1,174 @@
-import { useRef, useEffect, useState } from 'react';
-import { Graph, VisualizationState, NodeState } from '../algorithms/types';
+import { useRef, useEffect, useState, useMemo } from 'react';
+import { Edge, Graph, GraphEdit, VisualizationState, NodeState } from '../algorithms/types';
+import { TreeChange, diffTrees, pathToRoot, treeEdges } from '../algorithms/ShortestPathTree';
+import { NodePositions } from '../algorithms/Layout';
 
 interface GraphCanvasProps {
     graph: Graph;
     visualState: VisualizationState;
     width: number;
     height: number;
+    onGraphEdit?: (edit: GraphEdit) => void;
+    flaggedNodes?: Set<number>; // nodes that failed verification
+    negativeCycle?: number[]; // cycle reported by Bellman-Ford / SPFA, in edge order
+    view?: CanvasView; // controlled zoom and pan, e.g. shared between split-view canvases
+    onViewChange?: (view: CanvasView) => void;
+    layoutTransition?: LayoutTransition | null; // glide nodes from their previous layout
 }
 
-export default function GraphCanvas({ graph, visualState, width, height }: GraphCanvasProps) {
+export interface CanvasView {
+    zoom: number;
+    pan: { x: number; y: number };
+}
+
+export const DEFAULT_VIEW: CanvasView = { zoom: 1, pan: { x: 0, y: 0 } };
+
+/**
+ * Node positions before a layout was applied, and when (performance.now()).
+ * Timing from startedAt keeps a canvas mounted after the move from replaying it.
+ */
+export interface LayoutTransition {
+    from: NodePositions;
+    startedAt: number;
+}
+
+type Selection =
+    | { kind: 'node'; id: number }
+    | { kind: 'edge'; id: number }
+    | { kind: 'new_edge'; from: number; to: number } // added, waiting for the graph to assign its id
+    | null;
+
+interface PointerGesture {
+    mode: 'pan' | 'move' | 'connect' | 'none';
+    startX: number;
+    startY: number;
+    moved: boolean;
+}
+
+/**
+ * Where each edge is drawn. Edges joining the same two nodes, in either
+ * direction, curve apart; bends are perpendicular offsets of the curve's
+ * midpoint in pixels, signed relative to the edge's own direction.
+ * arcs maps "from-to" to the lightest edge that can be travelled that way,
+ * with its bend in that direction, so trees and cycles follow the right curve.
+ */
+interface EdgeLayout {
+    bends: Map<number, number>;
+    arcs: Map<string, { edge: Edge; bend: number }>;
+}
+
+const NODE_RADIUS = 20;
+const EDGE_SPREAD = 28; // gap between the curves of edges joining the same nodes
+const DRAG_THRESHOLD = 3;
+const TREE_ANIMATION_MS = 300;
+const LAYOUT_ANIMATION_MS = 600;
+const MAX_TOOLTIP_PATH = 12; // longer paths are shortened in the middle
+const NO_TREE_CHANGE: TreeChange = { added: [], removed: [] };
+
+export default function GraphCanvas({
+    graph,
+    visualState,
+    width,
+    height,
+    onGraphEdit,
+    flaggedNodes,
+    negativeCycle,
+    view,
+    onViewChange,
+    layoutTransition,
+}: GraphCanvasProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [zoom, setZoom] = useState(1);
-    const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
+    const [localView, setLocalView] = useState<CanvasView>(DEFAULT_VIEW);
+    const { zoom, pan: panOffset } = view ?? localView;
+    const setView = (next: CanvasView) => {
+        if (!view) setLocalView(next);
+        onViewChange?.(next);
+    };
+    const setZoom = (next: number) => setView({ zoom: next, pan: panOffset });
+    const setPanOffset = (next: CanvasView['pan']) => setView({ zoom, pan: next });
     const [isDragging, setIsDragging] = useState(false);
     const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
 
+    // Edit mode state
+    const [isEditing, setIsEditing] = useState(false);
+    const [selection, setSelection] = useState<Selection>(null);
+    const [dragNode, setDragNode] = useState<{ id: number; x: number; y: number } | null>(null);
+    const [connectPreview, setConnectPreview] = useState<{ from: number; x: number; y: number } | null>(null);
+    const gestureRef = useRef<PointerGesture>({ mode: 'none', startX: 0, startY: 0, moved: false });
+
+    // Shortest-path tree overlay; edges that changed since the last step fade in and out
+    const [showTree, setShowTree] = useState(false);
+    const [treeChange, setTreeChange] = useState<TreeChange>(NO_TREE_CHANGE);
+    const [treeProgress, setTreeProgress] = useState(1);
+    const previousTree = useRef<Map<number, number>>(new Map());
+    const [hovered, setHovered] = useState<{ id: number; x: number; y: number } | null>(null);
+
+    // Clock for the layout transition, advanced every frame while it runs
+    const [layoutClock, setLayoutClock] = useState(() => performance.now());
+    const layoutProgress = layoutTransition
+        ? Math.max(0, Math.min(1, (layoutClock - layoutTransition.startedAt) / LAYOUT_ANIMATION_MS))
+        : 1;
+
+    const canEdit = onGraphEdit !== undefined;
+    const layout = useMemo(() => layoutEdges(graph), [graph]);
+    const arrow = graph.directed ? '→' : '—';
+
+    // Glide nodes to a new layout, and show an in-progress node drag
+    // without committing it to the graph yet
+    const placedGraph = layoutTransition && layoutProgress < 1
+        ? interpolateLayout(graph, layoutTransition.from, layoutProgress)
+        : graph;
+    const displayGraph: Graph = dragNode
+        ? {
+            ...placedGraph,
+            nodes: placedGraph.nodes.map(n => (n.id === dragNode.id ? { ...n, x: dragNode.x, y: dragNode.y } : n)),
+        }
+        : placedGraph;
+
+    // Convert a mouse event to canvas (screen) and graph coordinates
+    const getPointer = (e: React.MouseEvent) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const screenX = e.clientX - rect.left;
+        const screenY = e.clientY - rect.top;
+        return {
+            screenX,
+            screenY,
+            graphX: (screenX - panOffset.x) / zoom,
+            graphY: (screenY - panOffset.y) / zoom,
+        };
+    };
+
+    const findNodeAt = (screenX: number, screenY: number) => {
+        for (let i = graph.nodes.length - 1; i >= 0; i--) {
+            const node = graph.nodes[i];
+            const dx = node.x * zoom + panOffset.x - screenX;
+            const dy = node.y * zoom + panOffset.y - screenY;
+            if (dx * dx + dy * dy <= NODE_RADIUS * NODE_RADIUS) return node;
+        }
+        return undefined;
+    };
+
+    const findEdgeLabelAt = (screenX: number, screenY: number) => {
+        for (const edge of graph.edges) {
+            const fromNode = graph.nodes.find(n => n.id === edge.from);
+            const toNode = graph.nodes.find(n => n.id === edge.to);
+            if (!fromNode || !toNode) continue;
+
+            const label = curveMidpoint(
+                fromNode.x * zoom, fromNode.y * zoom, toNode.x * zoom, toNode.y * zoom, layout.bends.get(edge.id) ?? 0
+            );
+            if (Math.abs(screenX - label.x - panOffset.x) <= 12 && Math.abs(screenY - label.y - panOffset.y) <= 10) return edge;
+        }
+        return undefined;
+    };
+
+    const promptWeight = (message: string, initial: number): number | null => {
+        const input = window.prompt(message, initial.toString());
+        if (input === null || input.trim() === '') return null;
+        const weight = Number(input);
+        return Number.isFinite(weight) ? weight : null;
+    };
+
     // Handle zoom with mouse wheel (zoom toward cursor)
     const handleWheel = (e: WheelEvent) => {
         e.preventDefault();
@@ -34,37 +188,163 @@ export default function GraphCanvas({ graph, visualState, width, height }: Graph
         const newPanX = mouseX - (mouseX - panOffset.x) * zoomChange;
         const newPanY = mouseY - (mouseY - panOffset.y) * zoomChange;
 
-        setZoom(newZoom);
-        setPanOffset({ x: newPanX, y: newPanY });
+        setView({ zoom: newZoom, pan: { x: newPanX, y: newPanY } });
     };
 
-    // Handle pan with mouse drag
+    // Handle pan with mouse drag; in edit mode, drags on nodes move or connect them
     const handleMouseDown = (e: React.MouseEvent) => {
+        const gesture = gestureRef.current;
+        gesture.startX = e.clientX;
+        gesture.startY = e.clientY;
+        gesture.moved = false;
+        gesture.mode = 'pan';
+
+        if (isEditing) {
+            canvasRef.current?.focus();
+            const { screenX, screenY, graphX, graphY } = getPointer(e);
+            const node = findNodeAt(screenX, screenY);
+
+            if (node) {
+                setSelection({ kind: 'node', id: node.id });
+                if (e.shiftKey) {
+                    gesture.mode = 'connect';
+                    setConnectPreview({ from: node.id, x: graphX, y: graphY });
+                } else {
+                    gesture.mode = 'move';
+                    setDragNode({ id: node.id, x: node.x, y: node.y });
+                }
+                return;
+            }
+
+            const edge = findEdgeLabelAt(screenX, screenY);
+            if (edge) {
+                setSelection({ kind: 'edge', id: edge.id });
+                gesture.mode = 'none';
+                return;
+            }
+        }
+
         setIsDragging(true);
         setDragStart({ x: e.clientX - panOffset.x, y: e.clientY - panOffset.y });
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (!isDragging) return;
+        const gesture = gestureRef.current;
+        if (Math.hypot(e.clientX - gesture.startX, e.clientY - gesture.startY) > DRAG_THRESHOLD) {
+            gesture.moved = true;
+        }
+
+        if (gesture.mode === 'move' && dragNode) {
+            const { graphX, graphY } = getPointer(e);
+            setDragNode({ id: dragNode.id, x: graphX, y: graphY });
+            return;
+        }
+
+        if (gesture.mode === 'connect' && connectPreview) {
+            const { graphX, graphY } = getPointer(e);
+            setConnectPreview({ from: connectPreview.from, x: graphX, y: graphY });
+            return;
+        }
+
+        if (!isDragging) {
+            const { screenX, screenY } = getPointer(e);
+            const node = findNodeAt(screenX, screenY);
+            setHovered(node ? { id: node.id, x: screenX, y: screenY } : null);
+            return;
+        }
+        setHovered(null);
         setPanOffset({
             x: e.clientX - dragStart.x,
             y: e.clientY - dragStart.y
         });
     };
 
-    const handleMouseUp = () => {
+    const handleMouseUp = (e: React.MouseEvent) => {
+        const gesture = gestureRef.current;
+
+        if (isEditing && onGraphEdit) {
+            const { screenX, screenY, graphX, graphY } = getPointer(e);
+
+            if (gesture.mode === 'move' && dragNode && gesture.moved) {
+                onGraphEdit({ type: 'move_node', id: dragNode.id, x: dragNode.x, y: dragNode.y });
+            } else if (gesture.mode === 'connect' && connectPreview) {
+                const target = findNodeAt(screenX, screenY);
+                if (target && target.id !== connectPreview.from) {
+                    const weight = promptWeight(`Weight for edge ${connectPreview.from} ${arrow} ${target.id}:`, 1);
+                    if (weight !== null) {
+                        onGraphEdit({ type: 'add_edge', from: connectPreview.from, to: target.id, weight });
+                        setSelection({ kind: 'new_edge', from: connectPreview.from, to: target.id });
+                    }
+                }
+            } else if (gesture.mode === 'pan' && !gesture.moved && !findNodeAt(screenX, screenY)) {
+                onGraphEdit({ type: 'add_node', x: graphX, y: graphY });
+                setSelection(null);
+            }
+        }
+
+        gesture.mode = 'none';
+        setDragNode(null);
+        setConnectPreview(null);
         setIsDragging(false);
     };
 
     const handleMouseLeave = () => {
+        gestureRef.current.mode = 'none';
+        setHovered(null);
+        setDragNode(null);
+        setConnectPreview(null);
         setIsDragging(false);
     };
 
-    const resetView = () => {
-        setZoom(1);
-        setPanOffset({ x: 0, y: 0 });
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        if (!isEditing || !onGraphEdit) return;
+
+        const { screenX, screenY } = getPointer(e);
+        const edge = findEdgeLabelAt(screenX, screenY);
+        if (!edge) return;
+
+        const weight = promptWeight(`New weight for edge ${edge.from} ${arrow} ${edge.to}:`, edge.weight);
+        if (weight !== null) {
+            onGraphEdit({ type: 'update_edge_weight', id: edge.id, weight });
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (!isEditing || !onGraphEdit) return;
+
+        if (e.key === 'Escape') {
+            setSelection(null);
+            return;
+        }
+
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selection) {
+            e.preventDefault();
+            if (selection.kind === 'node') {
+                onGraphEdit({ type: 'remove_node', id: selection.id });
+            } else if (selection.kind === 'edge') {
+                onGraphEdit({ type: 'remove_edge', id: selection.id });
+            }
+            setSelection(null);
+        }
     };
 
+    const toggleEditing = () => {
+        setIsEditing(prev => !prev);
+        setSelection(null);
+    };
+
+    const resetView = () => setView(DEFAULT_VIEW);
+
+    // Select a newly added edge once the graph has given it an id
+    useEffect(() => {
+        if (selection?.kind !== 'new_edge') return;
+        const { from, to } = selection;
+        const edge = [...graph.edges].reverse().find(e =>
+            (e.from === from && e.to === to) || (!graph.directed && e.from === to && e.to === from)
+        );
+        setSelection(edge ? { kind: 'edge', id: edge.id } : null);
+    }, [graph, selection]);
+
     // Add/remove wheel listener
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -74,6 +354,37 @@ export default function GraphCanvas({ graph, visualState, width, height }: Graph
         return () => canvas.removeEventListener('wheel', handleWheel);
     }, [zoom, panOffset]); // Added dependencies
 
+    // Animate tree edges that changed since the previously shown state
+    useEffect(() => {
+        const change = diffTrees(previousTree.current, visualState.predecessors);
+        previousTree.current = visualState.predecessors;
+        if (!showTree || (change.added.length === 0 && change.removed.length === 0)) {
+            setTreeChange(NO_TREE_CHANGE);
+            setTreeProgress(1);
+            return;
+        }
+
+        setTreeChange(change);
+        setTreeProgress(0);
+        const start = performance.now();
+        let frame = requestAnimationFrame(function tick(now) {
+            const progress = Math.min(1, (now - start) / TREE_ANIMATION_MS);
+            setTreeProgress(progress);
+            if (progress < 1) frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [visualState, showTree]);
+
+    // Advance the layout transition until the nodes reach their new places
+    useEffect(() => {
+        if (!layoutTransition) return;
+        let frame = requestAnimationFrame(function tick(now) {
+            setLayoutClock(now);
+            if (now - layoutTransition.startedAt < LAYOUT_ANIMATION_MS) frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [layoutTransition]);
+
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -99,36 +410,67 @@ export default function GraphCanvas({ graph, visualState, width, height }: Graph
         // Don't scale the whole context - we'll scale positions instead
         // This keeps node/edge sizes constant while spreading them apart
 
+        const selectedEdge = selection?.kind === 'edge' ? selection.id : null;
+        const selectedNode = selection?.kind === 'node' ? selection.id : null;
+
         // Draw edges first (behind nodes)
-        drawEdges(ctx, graph, visualState, zoom);
+        drawEdges(ctx, displayGraph, layout, visualState, zoom, selectedEdge);
+
+        // Shortest-path tree over the plain edges
+        if (showTree) {
+            drawTree(ctx, displayGraph, layout, visualState.predecessors, treeChange, treeProgress, zoom);
+        }
+
+        // Draw the edge being created
+        if (connectPreview) {
+            drawConnectPreview(ctx, displayGraph, connectPreview, zoom);
+        }
+
+        // Outline a detected negative cycle over the regular edges
+        if (negativeCycle && negativeCycle.length > 0) {
+            drawNegativeCycle(ctx, displayGraph, layout, negativeCycle, zoom);
+        }
+
+        // BMSSP working sets: W halo under the nodes, pivot and frontier rings around them
+        drawSetHalos(ctx, displayGraph, visualState, zoom);
 
         // Draw nodes on top
-        drawNodes(ctx, graph, visualState, zoom);
+        drawNodes(ctx, displayGraph, visualState, zoom, selectedNode);
+
+        // Mark nodes whose results disagree between algorithms
+        if (flaggedNodes && flaggedNodes.size > 0) {
+            drawFlags(ctx, displayGraph, flaggedNodes, zoom);
+        }
 
         ctx.restore();
-    }, [graph, visualState, width, height, zoom, panOffset]);
+    }, [displayGraph, layout, visualState, width, height, zoom, panOffset, selection, connectPreview, flaggedNodes, negativeCycle, showTree, treeChange, treeProgress]);
+
+    const cursorClass = isDragging ? 'cursor-grabbing' : isEditing ? 'cursor-crosshair' : 'cursor-grab';
 
     return (
         <div className="relative">
             <canvas
                 ref={canvasRef}
+                tabIndex={canEdit ? 0 : undefined}
                 onMouseDown={handleMouseDown}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseLeave}
-                className={isDragging ? 'cursor-grabbing' : 'cursor-grab'}
+                onDoubleClick={handleDoubleClick}
+                onKeyDown={handleKeyDown}
+                className={`${cursorClass} outline-none`}
             />
             {/* Spacing controls */}
             <div className="absolute top-2 right-2 flex flex-col gap-1 bg-white dark:bg-gray-800 rounded-lg shadow-md p-1 border border-gray-200 dark:border-gray-700">
                 <button
-                    onClick={() => setZoom(prev => Math.min(prev * 1.2, 100))}
+                    onClick={() => setZoom(Math.min(zoom * 1.2, 100))}
                     className="w-8 h-8 flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-700 dark:text-gray-300 font-bold"
                     title="Increase Spacing"
                 >
                     +
                 </button>
                 <button
-                    onClick={() => setZoom(prev => Math.max(prev * 0.8, 0.5))}
+                    onClick={() => setZoom(Math.max(zoom * 0.8, 0.5))}
                     className="w-8 h-8 flex items-center justify-center hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-700 dark:text-gray-300 font-bold"
                     title="Decrease Spacing"
                 >
@@ -142,25 +484,175 @@ export default function GraphCanvas({ graph, visualState, width, height }: Graph
                 >
                     ⟲
                 </button>
+                <button
+                    onClick={() => setShowTree(prev => !prev)}
+                    className={`w-8 h-8 flex items-center justify-center rounded text-sm ${showTree
+                        ? 'bg-emerald-600 text-white hover:bg-emerald-700'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300'
+                        }`}
+                    title={showTree ? 'Hide Shortest-Path Tree' : 'Show Shortest-Path Tree'}
+                >
+                    🌳
+                </button>
+                {canEdit && (
+                    <button
+                        onClick={toggleEditing}
+                        className={`w-8 h-8 flex items-center justify-center rounded text-sm ${isEditing
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300'
+                            }`}
+                        title={isEditing ? 'Exit Edit Mode' : 'Edit Graph'}
+                    >
+                        ✎
+                    </button>
+                )}
                 <div className="text-[10px] text-center text-gray-500 dark:text-gray-400 px-1">
                     {(zoom * 100).toFixed(0)}%
                 </div>
             </div>
+            {/* Path back to the source for the hovered node */}
+            {hovered && !isEditing && (
+                <NodeTooltip
+                    node={hovered.id}
+                    visualState={visualState}
+                    x={hovered.x}
+                    y={hovered.y}
+                />
+            )}
+            {/* Edit mode hints */}
+            {isEditing && (
+                <div className="absolute bottom-2 left-2 bg-white dark:bg-gray-800 rounded-lg shadow-md px-3 py-2 border border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+                    <div><strong>Click</strong> empty space: add node</div>
+                    <div><strong>Drag</strong> node: move · <strong>Shift+drag</strong>: connect</div>
+                    <div><strong>Double-click</strong> weight: edit</div>
+                    <div><strong>Delete</strong>: remove selection</div>
+                </div>
+            )}
         </div>
     );
 }
 
+interface NodeTooltipProps {
+    node: number;
+    visualState: VisualizationState;
+    x: number;
+    y: number;
+}
+
+function NodeTooltip({ node, visualState, x, y }: NodeTooltipProps) {
+    const distance = visualState.distances.get(node) ?? Infinity;
+    const { path, cycle } = pathToRoot(visualState.predecessors, node);
+    const shown = path.length > MAX_TOOLTIP_PATH
+        ? [...path.slice(0, MAX_TOOLTIP_PATH / 2), '…', ...path.slice(-MAX_TOOLTIP_PATH / 2)]
+        : path;
+
+    return (
+        <div
+            className="absolute pointer-events-none bg-white dark:bg-gray-800 rounded-lg shadow-md px-3 py-2 border border-gray-200 dark:border-gray-700 text-xs text-gray-700 dark:text-gray-300 max-w-xs"
+            style={{ left: x + 14, top: y + 14 }}
+        >
+            <div className="font-semibold">
+                Node {node}: {distance === Infinity ? 'not reached' : `distance ${distance.toFixed(1)}`}
+            </div>
+            {distance !== Infinity && (
+                <div className="font-mono break-words">
+                    {cycle ? 'Predecessor cycle: ' : ''}
+                    {shown.join(' → ')}
+                    {path.length > 1 && ` (${path.length - 1} edges)`}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Nodes part way from their previous positions to the current ones,
+ * easing in and out; nodes without a previous position stay put
+ */
+function interpolateLayout(graph: Graph, from: NodePositions, progress: number): Graph {
+    const t = progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2;
+    return {
+        ...graph,
+        nodes: graph.nodes.map(n => {
+            const start = from.get(n.id);
+            return start ? { ...n, x: start.x + (n.x - start.x) * t, y: start.y + (n.y - start.y) * t } : n;
+        }),
+    };
+}
+
+/**
+ * Spread edges that join the same two nodes: offsets are assigned along
+ * the lower id -> higher id direction, then flipped for edges drawn the
+ * other way, so an antiparallel pair bends to opposite sides.
+ */
+function layoutEdges(graph: Graph): EdgeLayout {
+    const groups = new Map<string, Edge[]>();
+    for (const edge of graph.edges) {
+        const key = edge.from <= edge.to ? `${edge.from}-${edge.to}` : `${edge.to}-${edge.from}`;
+        const group = groups.get(key);
+        if (group) group.push(edge);
+        else groups.set(key, [edge]);
+    }
+
+    const bends = new Map<number, number>();
+    for (const group of groups.values()) {
+        group.forEach((edge, i) => {
+            const offset = (i - (group.length - 1) / 2) * EDGE_SPREAD;
+            bends.set(edge.id, edge.from <= edge.to ? offset : -offset);
+        });
+    }
+
+    const arcs = new Map<string, { edge: Edge; bend: number }>();
+    const addArc = (from: number, to: number, edge: Edge, bend: number) => {
+        const key = `${from}-${to}`;
+        const current = arcs.get(key);
+        if (!current || edge.weight < current.edge.weight) arcs.set(key, { edge, bend });
+    };
+    for (const edge of graph.edges) {
+        const bend = bends.get(edge.id)!;
+        addArc(edge.from, edge.to, edge, bend);
+        if (!graph.directed) addArc(edge.to, edge.from, edge, -bend);
+    }
+
+    return { bends, arcs };
+}
+
+/**
+ * Midpoint of the curve from (x1, y1) to (x2, y2) with the given bend
+ */
+function curveMidpoint(x1: number, y1: number, x2: number, y2: number, bend: number) {
+    const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+    return {
+        x: (x1 + x2) / 2 - ((y2 - y1) / length) * bend,
+        y: (y1 + y2) / 2 + ((x2 - x1) / length) * bend,
+    };
+}
+
 function drawEdges(
     ctx: CanvasRenderingContext2D,
     graph: Graph,
+    layout: EdgeLayout,
     visualState: VisualizationState,
-    spacing: number = 1
+    spacing: number = 1,
+    selectedEdge: number | null = null
 ) {
     ctx.strokeStyle = '#cbd5e1';
     ctx.lineWidth = 2;
     ctx.font = '12px Inter, sans-serif';
     ctx.fillStyle = '#475569';
 
+    // The meeting point of a bidirectional search stays marked on the final path
+    const onPath = (id: number) => {
+        const state = visualState.nodeStates.get(id);
+        return state === NodeState.PATH || state === NodeState.MEETING;
+    };
+    // Of parallel edges, only the lightest one can lie on the shortest path
+    const isPathArc = (edge: Edge, from: number, to: number) =>
+        onPath(from) &&
+        onPath(to) &&
+        visualState.predecessors.get(to) === from &&
+        layout.arcs.get(`${from}-${to}`)?.edge === edge;
+
     for (const edge of graph.edges) {
         const fromNode = graph.nodes.find(n => n.id === edge.from);
         const toNode = graph.nodes.find(n => n.id === edge.to);
@@ -172,15 +664,22 @@ function drawEdges(
         const y1 = fromNode.y * spacing;
         const x2 = toNode.x * spacing;
         const y2 = toNode.y * spacing;
+        const bend = layout.bends.get(edge.id) ?? 0;
 
-        const isActive = visualState.activeEdges.has(`${edge.from}-${edge.to}`);
+        // Algorithms name the arc they relax; an undirected edge can be relaxed either way
+        const isActive =
+            visualState.activeEdges.has(`${edge.from}-${edge.to}`) ||
+            (!graph.directed && visualState.activeEdges.has(`${edge.to}-${edge.from}`));
+        const isSelected = selectedEdge === edge.id;
         const isOnPath =
-            visualState.nodeStates.get(edge.from) === NodeState.PATH &&
-            visualState.nodeStates.get(edge.to) === NodeState.PATH &&
-            visualState.predecessors.get(edge.to) === edge.from;
+            isPathArc(edge, edge.from, edge.to) ||
+            (!graph.directed && isPathArc(edge, edge.to, edge.from));
 
         // Draw arrow
-        if (isOnPath) {
+        if (isSelected) {
+            ctx.strokeStyle = '#6366f1';
+            ctx.lineWidth = 4;
+        } else if (isOnPath) {
             ctx.strokeStyle = '#ef4444';
             ctx.lineWidth = 4;
         } else if (isActive) {
@@ -191,53 +690,165 @@ function drawEdges(
             ctx.lineWidth = 2;
         }
 
-        drawArrow(ctx, x1, y1, x2, y2);
+        drawArrow(ctx, x1, y1, x2, y2, bend, graph.directed);
 
         // Draw weight label
-        const midX = (x1 + x2) / 2;
-        const midY = (y1 + y2) / 2;
+        const { x: midX, y: midY } = curveMidpoint(x1, y1, x2, y2, bend);
 
         ctx.fillStyle = '#ffffff';
         ctx.fillRect(midX - 12, midY - 10, 24, 20);
 
-        ctx.fillStyle = isOnPath ? '#ef4444' : isActive ? '#f59e0b' : '#475569';
+        ctx.fillStyle = isSelected ? '#6366f1' : isOnPath ? '#ef4444' : isActive ? '#f59e0b' : '#475569';
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
         ctx.fillText(edge.weight.toString(), midX, midY);
     }
 }
 
+function drawTree(
+    ctx: CanvasRenderingContext2D,
+    graph: Graph,
+    layout: EdgeLayout,
+    predecessors: Map<number, number>,
+    change: TreeChange,
+    progress: number,
+    spacing: number
+) {
+    const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+    const added = new Set(change.added.map(([from, to]) => `${from}-${to}`));
+
+    // Tree edges point from predecessor to node, even along undirected edges
+    const drawTreeEdge = (from: number, to: number) => {
+        const fromNode = nodes.get(from);
+        const toNode = nodes.get(to);
+        if (!fromNode || !toNode || from === to) return;
+        const bend = layout.arcs.get(`${from}-${to}`)?.bend ?? 0;
+        drawArrow(ctx, fromNode.x * spacing, fromNode.y * spacing, toNode.x * spacing, toNode.y * spacing, bend);
+    };
+
+    ctx.save();
+    ctx.strokeStyle = '#059669';
+    ctx.fillStyle = '#059669';
+    ctx.lineWidth = 5;
+
+    // Settled part of the tree
+    ctx.globalAlpha = 0.55;
+    for (const [from, to] of treeEdges(predecessors)) {
+        if (!added.has(`${from}-${to}`)) drawTreeEdge(from, to);
+    }
+
+    // New predecessor edges fade in
+    ctx.globalAlpha = 0.55 * progress;
+    for (const [from, to] of change.added) drawTreeEdge(from, to);
+
+    // Replaced predecessor edges fade out
+    if (progress < 1) {
+        ctx.globalAlpha = 0.55 * (1 - progress);
+        ctx.strokeStyle = '#64748b';
+        ctx.fillStyle = '#64748b';
+        ctx.setLineDash([6, 4]);
+        for (const [from, to] of change.removed) drawTreeEdge(from, to);
+    }
+
+    ctx.restore();
+}
+
+function drawNegativeCycle(
+    ctx: CanvasRenderingContext2D,
+    graph: Graph,
+    layout: EdgeLayout,
+    cycle: number[],
+    spacing: number
+) {
+    ctx.save();
+    ctx.strokeStyle = '#dc2626';
+    ctx.fillStyle = '#dc2626';
+    ctx.lineWidth = 5;
+    ctx.setLineDash([10, 6]);
+
+    cycle.forEach((from, i) => {
+        const to = cycle[(i + 1) % cycle.length];
+        const fromNode = graph.nodes.find(n => n.id === from);
+        const toNode = graph.nodes.find(n => n.id === to);
+        if (!fromNode || !toNode) return;
+
+        if (from === to) {
+            // Self-loop: ring around the node
+            ctx.beginPath();
+            ctx.arc(fromNode.x * spacing, fromNode.y * spacing, NODE_RADIUS + 12, 0, 2 * Math.PI);
+            ctx.stroke();
+        } else {
+            const bend = layout.arcs.get(`${from}-${to}`)?.bend ?? 0;
+            drawArrow(ctx, fromNode.x * spacing, fromNode.y * spacing, toNode.x * spacing, toNode.y * spacing, bend);
+        }
+    });
+
+    ctx.restore();
+}
+
+function drawConnectPreview(
+    ctx: CanvasRenderingContext2D,
+    graph: Graph,
+    preview: { from: number; x: number; y: number },
+    spacing: number
+) {
+    const fromNode = graph.nodes.find(n => n.id === preview.from);
+    if (!fromNode) return;
+
+    ctx.save();
+    ctx.strokeStyle = '#6366f1';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(fromNode.x * spacing, fromNode.y * spacing);
+    ctx.lineTo(preview.x * spacing, preview.y * spacing);
+    ctx.stroke();
+    ctx.restore();
+}
+
+/**
+ * Line or quadratic curve between two nodes, clipped at the node circles.
+ * bend moves the curve's midpoint sideways, signed relative to the
+ * direction of travel; undirected edges are drawn without a head.
+ */
 function drawArrow(
     ctx: CanvasRenderingContext2D,
     x1: number,
     y1: number,
     x2: number,
-    y2: number
+    y2: number,
+    bend: number = 0,
+    head: boolean = true
 ) {
     const headLength = 12;
     const nodeRadius = 22;
 
-    // Calculate direction
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    const length = Math.sqrt(dx * dx + dy * dy);
-    const unitX = dx / length;
-    const unitY = dy / length;
+    // The control point sits twice as far out as the curve's midpoint
+    const mid = curveMidpoint(x1, y1, x2, y2, bend);
+    const controlX = 2 * mid.x - (x1 + x2) / 2;
+    const controlY = 2 * mid.y - (y1 + y2) / 2;
 
-    // Start and end points (accounting for node radius)
-    const startX = x1 + unitX * nodeRadius;
-    const startY = y1 + unitY * nodeRadius;
-    const endX = x2 - unitX * nodeRadius;
-    const endY = y2 - unitY * nodeRadius;
+    // Leave and enter the nodes along the curve's tangents
+    const startAngle = Math.atan2(controlY - y1, controlX - x1);
+    const angle = Math.atan2(y2 - controlY, x2 - controlX);
+    const startX = x1 + Math.cos(startAngle) * nodeRadius;
+    const startY = y1 + Math.sin(startAngle) * nodeRadius;
+    const endX = x2 - Math.cos(angle) * nodeRadius;
+    const endY = y2 - Math.sin(angle) * nodeRadius;
 
     // Draw line
     ctx.beginPath();
     ctx.moveTo(startX, startY);
-    ctx.lineTo(endX, endY);
+    if (bend === 0) {
+        ctx.lineTo(endX, endY);
+    } else {
+        ctx.quadraticCurveTo(controlX, controlY, endX, endY);
+    }
     ctx.stroke();
 
+    if (!head) return;
+
     // Draw arrowhead
-    const angle = Math.atan2(dy, dx);
     ctx.beginPath();
     ctx.moveTo(endX, endY);
     ctx.lineTo(
@@ -256,9 +867,10 @@ function drawNodes(
     ctx: CanvasRenderingContext2D,
     graph: Graph,
     visualState: VisualizationState,
-    spacing: number = 1
+    spacing: number = 1,
+    selectedNode: number | null = null
 ) {
-    const radius = 20;
+    const radius = NODE_RADIUS;
 
     for (const node of graph.nodes) {
         const state = visualState.nodeStates.get(node.id) || NodeState.UNVISITED;
@@ -293,6 +905,18 @@ function drawNodes(
                 fillColor = '#ef4444';
                 strokeColor = '#dc2626';
                 break;
+            case NodeState.FORWARD:
+                fillColor = '#0ea5e9';
+                strokeColor = '#0284c7';
+                break;
+            case NodeState.BACKWARD:
+                fillColor = '#f97316';
+                strokeColor = '#ea580c';
+                break;
+            case NodeState.MEETING:
+                fillColor = '#ec4899';
+                strokeColor = '#db2777';
+                break;
         }
 
         // Draw node circle
@@ -304,6 +928,15 @@ function drawNodes(
         ctx.lineWidth = 3;
         ctx.stroke();
 
+        // Highlight selected node in edit mode
+        if (node.id === selectedNode) {
+            ctx.beginPath();
+            ctx.arc(x, y, radius + 6, 0, 2 * Math.PI);
+            ctx.strokeStyle = '#6366f1';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        }
+
         // Draw node label
         ctx.fillStyle = '#ffffff';
         ctx.font = 'bold 14px Inter, sans-serif';
@@ -319,3 +952,84 @@ function drawNodes(
         }
     }
 }
+
+function drawSetHalos(
+    ctx: CanvasRenderingContext2D,
+    graph: Graph,
+    visualState: VisualizationState,
+    spacing: number = 1
+) {
+    const { pivots, frontier, workingSet } = visualState;
+    if (pivots.size === 0 && frontier.size === 0 && workingSet.size === 0) return;
+
+    for (const node of graph.nodes) {
+        const x = node.x * spacing;
+        const y = node.y * spacing;
+
+        // W: soft filled halo
+        if (workingSet.has(node.id)) {
+            ctx.beginPath();
+            ctx.arc(x, y, NODE_RADIUS + 14, 0, 2 * Math.PI);
+            ctx.fillStyle = 'rgba(245, 158, 11, 0.25)';
+            ctx.fill();
+        }
+
+        // Frontier: dashed outer ring
+        if (frontier.has(node.id)) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(x, y, NODE_RADIUS + 11, 0, 2 * Math.PI);
+            ctx.strokeStyle = '#0d9488';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 3]);
+            ctx.stroke();
+            ctx.restore();
+        }
+
+        // Pivot: solid inner ring
+        if (pivots.has(node.id)) {
+            ctx.beginPath();
+            ctx.arc(x, y, NODE_RADIUS + 5, 0, 2 * Math.PI);
+            ctx.strokeStyle = '#7c3aed';
+            ctx.lineWidth = 3;
+            ctx.stroke();
+        }
+    }
+}
+
+function drawFlags(
+    ctx: CanvasRenderingContext2D,
+    graph: Graph,
+    flagged: Set<number>,
+    spacing: number = 1
+) {
+    for (const node of graph.nodes) {
+        if (!flagged.has(node.id)) continue;
+
+        const x = node.x * spacing;
+        const y = node.y * spacing;
+
+        // Dashed warning ring
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(x, y, NODE_RADIUS + 8, 0, 2 * Math.PI);
+        ctx.strokeStyle = '#dc2626';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([5, 4]);
+        ctx.stroke();
+        ctx.restore();
+
+        // Badge with an exclamation mark
+        const bx = x + NODE_RADIUS * 0.8;
+        const by = y - NODE_RADIUS * 0.8;
+        ctx.beginPath();
+        ctx.arc(bx, by, 8, 0, 2 * Math.PI);
+        ctx.fillStyle = '#dc2626';
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 11px Inter, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('!', bx, by);
+    }
+}
@@ -1,54 +1,150 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { GraphClass, createExampleGraph, generateRandomGraph, generateGridGraph } from '../algorithms/Graph';
+import { GraphFormat, GRAPH_FORMATS, detectFormat, parseGraph, serializeGraph } from '../algorithms/GraphFormats';
+import { GRAPH_GENERATORS, GeneratorParams, GraphGeneratorId, defaultParams } from '../algorithms/Generators';
+import { FORCE_LAYOUT_LIMIT, LAYOUTS, LayoutType } from '../algorithms/Layout';
+import { randomSeed } from '../algorithms/Random';
+
+type PresetId = 'grid' | 'sparse' | 'dense';
+type GeneratorId = PresetId | GraphGeneratorId;
+
+const PRESET_NAMES: Record<PresetId, string> = { grid: 'Grid', sparse: 'Sparse', dense: 'Dense' };
+
+// What the last graph was generated with, so its seed reproduces it even after the sliders move
+interface GeneratedWith {
+    generator: GeneratorId;
+    params?: GeneratorParams; // family parameters; presets have none
+}
 
 interface GraphSelectorProps {
+    graph: GraphClass;
     onGraphChange: (graph: GraphClass) => void;
+    onLayout: (layout: LayoutType) => void;
     onSourceChange: (source: number) => void;
     onDestinationChange: (destination: number) => void;
     source: number;
     destination: number;
-    nodeCount: number;
 }
 
 export default function GraphSelector({
+    graph: currentGraph,
     onGraphChange,
+    onLayout,
     onSourceChange,
     onDestinationChange,
     source,
     destination,
-    nodeCount,
 }: GraphSelectorProps) {
-    const [randomSize, setRandomSize] = useState(15);
-    const [randomDensity, setRandomDensity] = useState(0.3);
+    const [family, setFamily] = useState<GraphGeneratorId>('gnm');
+    const [familyParams, setFamilyParams] = useState(() =>
+        Object.fromEntries(GRAPH_GENERATORS.map(g => [g.id, defaultParams(g)])) as Record<GraphGeneratorId, GeneratorParams>
+    );
+    const [lastGenerated, setLastGenerated] = useState<GeneratedWith | null>(null);
+    const [seedInput, setSeedInput] = useState('');
+    const [layoutChoice, setLayoutChoice] = useState<LayoutType>('force');
+    const [exportFormat, setExportFormat] = useState<GraphFormat>('json');
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const loadPreset = (preset: string) => {
-        let graph: GraphClass;
-        switch (preset) {
-            case 'example':
-                graph = createExampleGraph();
-                break;
+    const generate = ({ generator, params }: GeneratedWith, seed: number): GraphClass => {
+        switch (generator) {
             case 'grid':
-                graph = generateGridGraph(4, 4);
-                break;
+                return generateGridGraph(4, 4, 800, 600, seed);
             case 'sparse':
-                graph = generateRandomGraph(20, 0.15);
-                break;
+                return generateRandomGraph(20, 0.15, 20, 800, 600, seed);
             case 'dense':
-                graph = generateRandomGraph(15, 0.5);
-                break;
+                return generateRandomGraph(15, 0.5, 20, 800, 600, seed);
             default:
-                return;
+                return GRAPH_GENERATORS.find(g => g.id === generator)!.generate(params!, seed, 800, 600);
         }
-        onGraphChange(graph);
-        onSourceChange(0);
-        onDestinationChange(graph.nodes.length - 1);
     };
 
-    const handleGenerateRandom = () => {
-        const graph = generateRandomGraph(randomSize, randomDensity);
+    // The force layout would freeze the page on large graphs
+    const layoutUnavailable = (layout: LayoutType) => layout === 'force' && currentGraph.nodes.length > FORCE_LAYOUT_LIMIT;
+
+    const generatorName = (generator: GeneratorId) =>
+        generator in PRESET_NAMES
+            ? PRESET_NAMES[generator as PresetId]
+            : GRAPH_GENERATORS.find(g => g.id === generator)!.name;
+
+    const describeGenerated = ({ generator, params }: GeneratedWith) =>
+        params
+            ? `${generatorName(generator)} (${Object.entries(params).map(([id, value]) => `${id}=${value}`).join(', ')})`
+            : generatorName(generator);
+
+    // A generator with the current slider values
+    const withCurrentParams = (generator: GeneratorId): GeneratedWith =>
+        generator in PRESET_NAMES ? { generator } : { generator, params: familyParams[generator as GraphGeneratorId] };
+
+    // Start a new graph at its first node and aim for its last
+    const selectEnds = (graph: GraphClass) => {
+        onSourceChange(graph.nodes[0]?.id ?? -1);
+        onDestinationChange(graph.nodes[graph.nodes.length - 1]?.id ?? -1);
+    };
+
+    const loadGenerated = (generated: GeneratedWith, seed: number) => {
+        const graph = generate(generated, seed);
+        setLastGenerated(generated);
+        setSeedInput(seed.toString());
         onGraphChange(graph);
-        onSourceChange(0);
-        onDestinationChange(Math.min(randomSize - 1, graph.nodes.length - 1));
+        selectEnds(graph);
+    };
+
+    const loadPreset = (preset: string) => {
+        if (preset === 'example') {
+            const graph = createExampleGraph();
+            setLastGenerated(null);
+            setSeedInput('');
+            onGraphChange(graph);
+            selectEnds(graph);
+            return;
+        }
+        loadGenerated({ generator: preset as PresetId }, randomSeed());
+    };
+
+    const selectedFamily = GRAPH_GENERATORS.find(g => g.id === family)!;
+
+    const setParam = (id: string, value: number) => {
+        setFamilyParams(current => ({ ...current, [family]: { ...current[family], [id]: value } }));
+    };
+
+    const handleGenerate = () => {
+        loadGenerated(withCurrentParams(family), randomSeed());
+    };
+
+    const parsedSeed = Number(seedInput);
+    const isSeedValid = seedInput.trim() !== '' && Number.isInteger(parsedSeed) && parsedSeed >= 0 && parsedSeed < 4294967296;
+
+    const handleRegenerate = () => {
+        if (isSeedValid) {
+            loadGenerated(lastGenerated ?? withCurrentParams(family), parsedSeed);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const graph = parseGraph(await file.text(), detectFormat(file.name));
+            setImportError(null);
+            onGraphChange(graph);
+            selectEnds(graph);
+        } catch (err) {
+            setImportError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const handleExport = () => {
+        const format = GRAPH_FORMATS.find(f => f.id === exportFormat)!;
+        const blob = new Blob([serializeGraph(currentGraph, exportFormat)], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `graph.${format.extension}`;
+        link.click();
+        URL.revokeObjectURL(url);
     };
 
     return (
@@ -78,46 +174,171 @@ export default function GraphSelector({
                 </div>
             </div>
 
-            {/* Random graph generator */}
+            {/* Graph families */}
             <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-3">
                 <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                    Generate Random Graph
+                    Generate Graph
                 </label>
+                <select
+                    value={family}
+                    onChange={(e) => setFamily(e.target.value as GraphGeneratorId)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                >
+                    {GRAPH_GENERATORS.map(g => (
+                        <option key={g.id} value={g.id}>
+                            {g.name}
+                        </option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{selectedFamily.description}</p>
 
-                <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                        <span className="text-gray-600 dark:text-gray-400">Nodes:</span>
-                        <span className="font-mono">{randomSize}</span>
-                    </div>
-                    <input
-                        type="range"
-                        min="5"
-                        max="100"
-                        value={randomSize}
-                        onChange={(e) => setRandomSize(Number(e.target.value))}
-                        className="w-full"
-                    />
-                </div>
+                {selectedFamily.parameters.map(param => (
+                    <div key={param.id} className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                            <span className="text-gray-600 dark:text-gray-400">{param.label}:</span>
+                            <span className="font-mono">{familyParams[family][param.id]}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={param.min}
+                            max={param.max}
+                            step={param.step}
+                            value={familyParams[family][param.id]}
+                            onChange={(e) => setParam(param.id, Number(e.target.value))}
+                            className="w-full"
+                        />
+                    </div>
+                ))}
+
+                <button onClick={handleGenerate} className="btn btn-primary w-full">
+                    Generate
+                </button>
 
                 <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                        <span className="text-gray-600 dark:text-gray-400">Density:</span>
-                        <span className="font-mono">{(randomDensity * 125).toFixed(0)}%</span>
-                    </div>
-                    <input
-                        type="range"
-                        min="0.1"
-                        max="0.8"
-                        step="0.05"
-                        value={randomDensity}
-                        onChange={(e) => setRandomDensity(Number(e.target.value))}
-                        className="w-full"
-                    />
+                        <span className="text-gray-600 dark:text-gray-400">Seed:</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {lastGenerated ? `last used by ${describeGenerated(lastGenerated)}` : 'type a seed to reproduce a graph'}
+                        </span>
+                    </div>
+                    <div className="flex space-x-2">
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            value={seedInput}
+                            onChange={(e) => setSeedInput(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleRegenerate()}
+                            placeholder="e.g. 12345"
+                            className={`flex-1 min-w-0 px-3 py-2 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-mono text-sm ${seedInput === '' || isSeedValid
+                                ? 'border-gray-300 dark:border-gray-600'
+                                : 'border-red-500'
+                                }`}
+                        />
+                        <button
+                            onClick={handleRegenerate}
+                            disabled={!isSeedValid}
+                            className="btn btn-secondary text-sm"
+                        >
+                            Regenerate
+                        </button>
+                    </div>
                 </div>
+            </div>
 
-                <button onClick={handleGenerateRandom} className="btn btn-primary w-full">
-                    Generate
+            {/* Import / export */}
+            <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Import / Export
+                </label>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".gr,.dimacs,.csv,.txt,.json"
+                    onChange={handleImport}
+                    className="hidden"
+                />
+                <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary text-sm w-full">
+                    Upload Graph File
                 </button>
+                <div className="flex space-x-2">
+                    <select
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as GraphFormat)}
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                    >
+                        {GRAPH_FORMATS.map(f => (
+                            <option key={f.id} value={f.id}>
+                                {f.name}
+                            </option>
+                        ))}
+                    </select>
+                    <button onClick={handleExport} className="btn btn-secondary text-sm">
+                        Download
+                    </button>
+                </div>
+                {importError && (
+                    <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950 p-2 rounded">
+                        {importError}
+                    </div>
+                )}
+            </div>
+
+            {/* Edge kind */}
+            <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Edges
+                </label>
+                <div className="flex items-center space-x-3">
+                    <select
+                        value={currentGraph.directed ? 'directed' : 'undirected'}
+                        onChange={(e) => onGraphChange(currentGraph.withOptions({ directed: e.target.value === 'directed' }))}
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                        title="Undirected edges can be travelled both ways; without parallel edges, opposite edges merge"
+                    >
+                        <option value="directed">Directed</option>
+                        <option value="undirected">Undirected</option>
+                    </select>
+                    <label
+                        className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400"
+                        title="Allow several edges between the same nodes; turning this off keeps the last of them"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={currentGraph.multigraph}
+                            onChange={(e) => onGraphChange(currentGraph.withOptions({ multigraph: e.target.checked }))}
+                        />
+                        <span>Parallel edges</span>
+                    </label>
+                </div>
+            </div>
+
+            {/* Automatic layout */}
+            <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Layout
+                </label>
+                <div className="flex space-x-2">
+                    <select
+                        value={layoutChoice}
+                        onChange={(e) => setLayoutChoice(e.target.value as LayoutType)}
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                        title={LAYOUTS.find(l => l.id === layoutChoice)!.description}
+                    >
+                        {LAYOUTS.map(l => (
+                            <option key={l.id} value={l.id} disabled={layoutUnavailable(l.id)}>
+                                {layoutUnavailable(l.id) ? `${l.name} (up to ${FORCE_LAYOUT_LIMIT} nodes)` : l.name}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => onLayout(layoutChoice)}
+                        className="btn btn-secondary text-sm"
+                        disabled={layoutUnavailable(layoutChoice)}
+                        title={layoutUnavailable(layoutChoice) ? `The force-directed layout is limited to ${FORCE_LAYOUT_LIMIT} nodes` : undefined}
+                    >
+                        Apply
+                    </button>
+                </div>
             </div>
 
             {/* Node selection */}
@@ -131,9 +352,9 @@ export default function GraphSelector({
                         onChange={(e) => onSourceChange(Number(e.target.value))}
                         className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                     >
-                        {Array.from({ length: nodeCount }, (_, i) => (
-                            <option key={i} value={i}>
-                                Node {i}
+                        {currentGraph.nodes.map(node => (
+                            <option key={node.id} value={node.id}>
+                                Node {node.id}
                             </option>
                         ))}
                     </select>
@@ -148,9 +369,9 @@ export default function GraphSelector({
                         onChange={(e) => onDestinationChange(Number(e.target.value))}
                         className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                     >
-                        {Array.from({ length: nodeCount }, (_, i) => (
-                            <option key={i} value={i}>
-                                Node {i}
+                        {currentGraph.nodes.map(node => (
+                            <option key={node.id} value={node.id}>
+                                Node {node.id}
                             </option>
                         ))}
                     </select>
@@ -187,6 +408,35 @@ export default function GraphSelector({
                         <div className="legend-color bg-red-500" />
                         <span>Path</span>
                     </div>
+                    <div className="legend-item">
+                        <div className="legend-color bg-sky-500" />
+                        <span>Forward search</span>
+                    </div>
+                    <div className="legend-item">
+                        <div className="legend-color bg-orange-500" />
+                        <span>Backward search</span>
+                    </div>
+                    <div className="legend-item">
+                        <div className="legend-color bg-pink-500" />
+                        <span>Meeting point</span>
+                    </div>
+                </div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    BMSSP Sets
+                </label>
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="legend-item">
+                        <div className="legend-color border-[3px] border-purple-600" />
+                        <span>Pivot (P)</span>
+                    </div>
+                    <div className="legend-item">
+                        <div className="legend-color border-2 border-dashed border-teal-600" />
+                        <span>Frontier (D)</span>
+                    </div>
+                    <div className="legend-item">
+                        <div className="legend-color bg-amber-500/25" />
+                        <span>FindPivots set (W)</span>
+                    </div>
                 </div>
             </div>
         </div>
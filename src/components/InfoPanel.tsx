@@ -1,11 +1,11 @@
-import { AlgorithmStep } from '../algorithms/types';
+import { AlgorithmStep, AlgorithmDefinition } from '../algorithms/types';
 
 interface InfoPanelProps {
     currentStep: AlgorithmStep | null;
-    algorithmType: 'dijkstra' | 'new-sssp' | null;
+    algorithm: AlgorithmDefinition | null;
 }
 
-export default function InfoPanel({ currentStep, algorithmType }: InfoPanelProps) {
+export default function InfoPanel({ currentStep, algorithm }: InfoPanelProps) {
     return (
         <div className="card space-y-4">
             <h3 className="text-lg font-bold text-gray-900 dark:text-white">
@@ -100,6 +100,18 @@ export default function InfoPanel({ currentStep, algorithmType }: InfoPanelProps
                                 </div>
                             )}
 
+                            {/* Current bound (New SSSP) */}
+                            {currentStep.details.bound !== undefined && (
+                                <div className="text-sm">
+                                    <span className="text-gray-600 dark:text-gray-400">
+                                        Bound B:{' '}
+                                    </span>
+                                    <span className="font-mono font-bold">
+                                        {currentStep.details.bound === Infinity ? '∞' : currentStep.details.bound.toFixed(1)}
+                                    </span>
+                                </div>
+                            )}
+
                             {/* Algorithm parameters */}
                             {(currentStep.details.k || currentStep.details.t) && (
                                 <div className="flex space-x-4 text-sm">
@@ -123,10 +135,10 @@ export default function InfoPanel({ currentStep, algorithmType }: InfoPanelProps
                     {/* Algorithm explanation */}
                     <div className="bg-blue-50 dark:bg-blue-950 p-3 rounded-lg border-l-4 border-blue-500">
                         <div className="text-xs font-semibold text-blue-900 dark:text-blue-200 mb-1">
-                            {algorithmType === 'dijkstra' ? "Dijkstra's Algorithm" : 'New SSSP Algorithm'}
+                            {algorithm?.name}
                         </div>
                         <p className="text-xs text-blue-800 dark:text-blue-300">
-                            {getAlgorithmExplanation(currentStep.action, algorithmType)}
+                            {algorithm?.explanations[currentStep.action] ?? 'Processing...'}
                         </p>
                     </div>
                 </div>
@@ -148,31 +160,10 @@ function formatAction(action: string): string {
         find_pivots: 'Find Pivots',
         bmssp_call: 'BMSSP Call',
         frontier_pull: 'Pull Frontier',
+        round: 'Next Round',
+        negative_cycle: 'Negative Cycle',
+        meet: 'Searches Meet',
         done: 'Complete',
     };
     return actionMap[action] || action;
 }
-
-function getAlgorithmExplanation(action: string, type: 'dijkstra' | 'new-sssp' | null): string {
-    if (type === 'dijkstra') {
-        const explanations: Record<string, string> = {
-            initialize: 'Setting up initial distances and priority queue.',
-            visit: 'Visiting the node with minimum distance from the priority queue.',
-            relax: 'Updating neighbor distances if a shorter path is found.',
-            complete: 'Node processing complete, final distance determined.',
-            done: 'All reachable nodes have been processed.',
-        };
-        return explanations[action] || 'Processing...';
-    } else {
-        const explanations: Record<string, string> = {
-            initialize: 'Setting up algorithm parameters k and t for optimal complexity.',
-            find_pivots: 'Reducing frontier by finding vertices with large shortest-path trees.',
-            bmssp_call: 'Recursive bounded multi-source shortest path call.',
-            frontier_pull: 'Pulling next batch of vertices from adaptive frontier.',
-            visit: 'Processing node in base case mini-Dijkstra.',
-            relax: 'Updating distances through edge relaxation.',
-            done: 'Algorithm complete - achieved O(m log^(2/3) n) complexity!',
-        };
-        return explanations[action] || 'Advanced processing...';
-    }
-}
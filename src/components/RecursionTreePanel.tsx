@@ -0,0 +1,102 @@
+import { useState, useMemo } from 'react';
+import { RecursionFrame } from '../algorithms/types';
+import { activeFrames } from '../algorithms/RecursionTree';
+
+interface RecursionTreePanelProps {
+    tree: RecursionFrame;
+    currentStep: number;
+    onJump: (step: number) => void;
+}
+
+// Frames this shallow start expanded; deeper ones open when they become active
+const OPEN_DEPTH = 2;
+const MAX_LISTED_PIVOTS = 10;
+
+const formatBound = (b: number | undefined) => (b === undefined ? '…' : b === Infinity ? '∞' : b.toFixed(1));
+
+/**
+ * Collapsible tree of BMSSP(l, B, S) calls. The frames containing the
+ * current step are highlighted; clicking a frame jumps to its first step.
+ */
+export default function RecursionTreePanel({ tree, currentStep, onJump }: RecursionTreePanelProps) {
+    // Frames the user opened or closed against their default
+    const [toggled, setToggled] = useState<Set<number>>(new Set());
+
+    const active = useMemo(() => activeFrames(tree, currentStep), [tree, currentStep]);
+    const activeIds = new Set(active.map(frame => frame.id));
+    const innermost = active[active.length - 1];
+
+    const toggle = (id: number) => {
+        setToggled(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const renderFrame = (frame: RecursionFrame, depth: number) => {
+        const defaultOpen = depth < OPEN_DEPTH || activeIds.has(frame.id);
+        const open = toggled.has(frame.id) ? !defaultOpen : defaultOpen;
+        const hasSteps = frame.endStep > frame.firstStep;
+        const highlight = frame === innermost
+            ? 'bg-purple-100 dark:bg-purple-900 font-semibold'
+            : activeIds.has(frame.id)
+                ? 'bg-purple-50 dark:bg-purple-950'
+                : '';
+
+        return (
+            <li key={frame.id}>
+                <div className={`flex items-start rounded px-1 ${highlight}`}>
+                    <button
+                        onClick={() => toggle(frame.id)}
+                        className="w-4 shrink-0 text-gray-500 dark:text-gray-400"
+                        disabled={frame.children.length === 0}
+                        title={open ? 'Collapse' : 'Expand'}
+                    >
+                        {frame.children.length === 0 ? '·' : open ? '▾' : '▸'}
+                    </button>
+                    <button
+                        onClick={() => onJump(frame.firstStep)}
+                        disabled={!hasSteps}
+                        className="text-left font-mono text-xs text-gray-800 dark:text-gray-200 hover:underline disabled:no-underline disabled:opacity-60"
+                        title={hasSteps ? `Jump to step ${frame.firstStep + 1}` : 'No steps recorded inside this call'}
+                    >
+                        BMSSP(l={frame.level}, B={formatBound(frame.bound)}, |S|={frame.frontierSize})
+                        <span className="text-gray-500 dark:text-gray-400">
+                            {' → '}B'={formatBound(frame.returnedBound)}, |U|={frame.completedCount ?? '…'}
+                            {frame.pivots.length > 0 && `, pivots: ${frame.pivots.length}`}
+                        </span>
+                    </button>
+                </div>
+                {open && frame.children.length > 0 && (
+                    <ul className="ml-3 border-l border-gray-200 dark:border-gray-700 pl-1">
+                        {frame.children.map(child => renderFrame(child, depth + 1))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="space-y-2">
+            <h4 className="font-semibold text-sm text-gray-700 dark:text-gray-300">
+                Recursion Tree
+            </h4>
+            {innermost && (
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                    Active: level {innermost.level}, depth {active.length - 1}
+                    {innermost.pivots.length > 0 && (
+                        <>
+                            {' · '}pivots {innermost.pivots.slice(0, MAX_LISTED_PIVOTS).join(', ')}
+                            {innermost.pivots.length > MAX_LISTED_PIVOTS && ` (+${innermost.pivots.length - MAX_LISTED_PIVOTS} more)`}
+                        </>
+                    )}
+                </div>
+            )}
+            <ul className="max-h-[540px] overflow-auto">
+                {renderFrame(tree, 0)}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { GraphClass, createExampleGraph } from '../../algorithms/Graph';
+import { MAX_HASH_LENGTH, SharedState, decodeSharedState, encodeSharedGraph, encodeSharedState } from '../urlState';
+
+function sparseGraph(): GraphClass {
+    const graph = new GraphClass({ directed: false, multigraph: true });
+    for (let i = 0; i < 5; i++) graph.addNode(10 * i, 20 * i, i === 3 ? 'a&b;c,d' : undefined);
+    graph.addEdge(0, 1, 2.5);
+    graph.addEdge(0, 1, 4);
+    graph.addEdge(3, 4, -1);
+    graph.removeNode(2);
+    return graph;
+}
+
+describe('shareable links', () => {
+    it('round-trip the graph and view state, renumbering sparse ids', () => {
+        const graph = sparseGraph();
+        const state: SharedState = {
+            graph,
+            source: 3,
+            destination: 4,
+            algorithmType: 'bellman-ford',
+            recording: 'sampled',
+            priorityQueue: 'pairing',
+            step: 7,
+        };
+        const decoded = decodeSharedState(`#${encodeSharedState(state)}`);
+
+        expect(decoded.warning).toBeNull();
+        const restored = decoded.state!;
+        expect(restored.graph.directed).toBe(false);
+        expect(restored.graph.multigraph).toBe(true);
+        expect(restored.graph.nodes.map(n => [n.x, n.y])).toEqual(graph.nodes.map(n => [n.x, n.y]));
+        expect(restored.graph.nodes[2].label).toBe('a&b;c,d');
+        expect(restored.graph.edges.map(e => [e.from, e.to, e.weight])).toEqual([[0, 1, 2.5], [0, 1, 4], [2, 3, -1]]);
+        expect([restored.source, restored.destination]).toEqual([2, 3]);
+        expect(restored).toMatchObject({ algorithmType: 'bellman-ford', recording: 'sampled', priorityQueue: 'pairing', step: 7 });
+    });
+
+    it('leave out defaults and reuse a pre-encoded graph', () => {
+        const graph = createExampleGraph();
+        const state: SharedState = { graph, source: 0, destination: 9, algorithmType: 'dijkstra' };
+        const hash = encodeSharedState(state, encodeSharedGraph(graph));
+
+        expect(hash).toBe(encodeSharedState(state));
+        expect(hash).not.toMatch(/&(g|r|q|step)=/);
+        expect(decodeSharedState(hash).state).toMatchObject({ source: 0, destination: 9, step: undefined });
+    });
+
+    it.each([
+        ['v=2&n=0,0&e=&s=0&d=0&a=dijkstra', /Unsupported link version/],
+        ['v=1&n=&e=&s=0&d=0&a=dijkstra', /Graph has no nodes/],
+        ['v=1&n=0,0&e=0,1,1&s=0&d=0&a=dijkstra', /unknown node/],
+        ['v=1&n=0,0&e=&s=1&d=0&a=dijkstra', /Invalid source node/],
+        ['v=1&n=0,0&e=&s=0&d=0&a=nope', /Unknown algorithm/],
+        ['v=1&n=0,0&e=&s=0&d=0&a=dijkstra&r=most', /Unknown recording mode/],
+        ['v=1&n=0,0&e=&s=0&d=0&a=dijkstra&q=heap', /Unknown priority queue/],
+        ['v=1&n=0,0&e=&s=0&d=0&a=dijkstra&step=-1', /Invalid step/],
+        ['v=1&n=0,0&e=&g=x&s=0&d=0&a=dijkstra', /Invalid graph kind/],
+        ['v=1&n', /Missing value/],
+    ])('refuse the malformed link %s', (hash, reason) => {
+        const { state, warning } = decodeSharedState(`#${hash}`);
+        expect(state).toBeNull();
+        expect(warning).toMatch(reason);
+    });
+
+    it('ignore an empty hash and refuse oversized links', () => {
+        expect(decodeSharedState('')).toEqual({ state: null, warning: null });
+        expect(decodeSharedState('#').warning).toBeNull();
+        expect(decodeSharedState(`#v=1&n=${'0,0;'.repeat(MAX_HASH_LENGTH / 4)}`).warning).toMatch(/too large/);
+    });
+});
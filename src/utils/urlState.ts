@@ -0,0 +1,151 @@
+import { GraphClass } from '../algorithms/Graph';
+import { encodeCompactGraph, decodeCompactGraph } from '../algorithms/GraphFormats';
+import { AlgorithmType, PriorityQueueType, StepRecording } from '../algorithms/types';
+import { isAlgorithmType } from '../algorithms/AlgorithmRegistry';
+import { PRIORITY_QUEUES } from '../algorithms/PriorityQueue';
+
+/**
+ * Shareable link state stored in the URL hash:
+ * #v=1&n=<nodes>&e=<edges>&g=<kind>&s=<source>&d=<destination>&a=<algorithm>&r=<recording>&q=<queue>&step=<step>
+ *
+ * g is left out for directed graphs without parallel edges.
+ *
+ * Source and destination are stored as positions in the node list,
+ * matching the renumbering done by encodeCompactGraph.
+ */
+
+export interface SharedState {
+    graph: GraphClass;
+    source: number;
+    destination: number;
+    algorithmType: AlgorithmType;
+    recording?: StepRecording; // absent means chosen automatically from graph size
+    priorityQueue?: PriorityQueueType; // absent means the binary heap
+    step?: number; // only present when a run was being viewed
+}
+
+export interface SharedStateResult {
+    state: SharedState | null;
+    warning: string | null;
+}
+
+const VERSION = '1';
+const RECORDING_MODES: StepRecording[] = ['all', 'sampled', 'milestones', 'none'];
+
+// Links longer than this are rejected rather than decoded, so they are never written either
+export const MAX_HASH_LENGTH = 100_000;
+
+/**
+ * The graph part of a link, "n=<nodes>&e=<edges>[&g=<kind>]". It only
+ * changes with the graph, so callers can encode it once and pass it to
+ * encodeSharedState for every step.
+ */
+export function encodeSharedGraph(graph: GraphClass): string {
+    const { nodes, edges, kind } = encodeCompactGraph(graph);
+    return kind !== '' ? `n=${nodes}&e=${edges}&g=${kind}` : `n=${nodes}&e=${edges}`;
+}
+
+export function encodeSharedState(state: SharedState, sharedGraph: string = encodeSharedGraph(state.graph)): string {
+    const indexOf = (id: number) => Math.max(0, state.graph.nodes.findIndex(n => n.id === id));
+
+    const params = [
+        `v=${VERSION}`,
+        sharedGraph,
+        `s=${indexOf(state.source)}`,
+        `d=${indexOf(state.destination)}`,
+        `a=${state.algorithmType}`,
+    ];
+    if (state.recording !== undefined) {
+        params.push(`r=${state.recording}`);
+    }
+    if (state.priorityQueue !== undefined) {
+        params.push(`q=${state.priorityQueue}`);
+    }
+    if (state.step !== undefined) {
+        params.push(`step=${state.step}`);
+    }
+    return params.join('&');
+}
+
+/**
+ * Decode a location hash. An empty hash yields no state and no warning;
+ * anything malformed or oversized yields no state and a warning.
+ */
+export function decodeSharedState(hash: string): SharedStateResult {
+    const raw = hash.startsWith('#') ? hash.slice(1) : hash;
+    if (raw === '') return { state: null, warning: null };
+
+    if (raw.length > MAX_HASH_LENGTH) {
+        return {
+            state: null,
+            warning: `This link is too large to open (${raw.length.toLocaleString()} characters). Showing the example graph instead.`,
+        };
+    }
+
+    try {
+        const params = new Map<string, string>();
+        for (const part of raw.split('&')) {
+            const eq = part.indexOf('=');
+            if (eq === -1) throw new Error(`Missing value for "${part}"`);
+            params.set(part.slice(0, eq), part.slice(eq + 1));
+        }
+
+        if (params.get('v') !== VERSION) {
+            throw new Error(`Unsupported link version "${params.get('v') ?? ''}"`);
+        }
+
+        const graph = decodeCompactGraph(params.get('n') ?? '', params.get('e') ?? '', params.get('g') ?? '');
+        if (graph.nodes.length === 0) throw new Error('Graph has no nodes');
+
+        const source = parseIndex(params.get('s'), 'source', graph.nodes.length);
+        const destination = parseIndex(params.get('d'), 'destination', graph.nodes.length);
+
+        const algorithmType = params.get('a') ?? '';
+        if (!isAlgorithmType(algorithmType)) {
+            throw new Error(`Unknown algorithm "${params.get('a') ?? ''}"`);
+        }
+
+        const recording = params.get('r') as StepRecording | undefined;
+        if (recording !== undefined && !RECORDING_MODES.includes(recording)) {
+            throw new Error(`Unknown recording mode "${recording}"`);
+        }
+
+        const priorityQueue = params.get('q') as PriorityQueueType | undefined;
+        if (priorityQueue !== undefined && !PRIORITY_QUEUES.some(queue => queue.id === priorityQueue)) {
+            throw new Error(`Unknown priority queue "${priorityQueue}"`);
+        }
+
+        let step: number | undefined;
+        if (params.has('step')) {
+            step = Number(params.get('step'));
+            if (!Number.isInteger(step) || step < 0) throw new Error('Invalid step');
+        }
+
+        return {
+            state: {
+                graph,
+                source: graph.nodes[source].id,
+                destination: graph.nodes[destination].id,
+                algorithmType,
+                recording,
+                priorityQueue,
+                step,
+            },
+            warning: null,
+        };
+    } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        return {
+            state: null,
+            warning: `This link could not be opened (${reason}). Showing the example graph instead.`,
+        };
+    }
+}
+
+function parseIndex(value: string | undefined, what: string, count: number): number {
+    const index = Number(value);
+    if (value === undefined || !Number.isInteger(index) || index < 0 || index >= count) {
+        throw new Error(`Invalid ${what} node`);
+    }
+    return index;
+}